@@ -7,6 +7,13 @@ declare global {
             // Renamed to be more descriptive. This variable should hold the URL
             // of the hosted backend server, not a database connection string.
             readonly VITE_BACKEND_URL?: string;
+            // 'backend' (default), 'mock' for the offline canvas provider, or
+            // 'gemini' to call Google directly during local development.
+            readonly VITE_IMAGE_PROVIDER?: string;
+            // Only read in the local-only 'gemini' provider mode.
+            readonly VITE_GEMINI_API_KEY?: string;
+            // Image generations allowed per browser per day. Defaults to 50; 0 turns the limit off.
+            readonly VITE_DAILY_GENERATION_QUOTA?: string;
         }
     }
 }
@@ -20,12 +27,19 @@ import HomePage from './components/HomePage';
 import CollectionPage from './components/CollectionPage';
 import TrendingPage from './components/TrendingPage';
 import AdminPage, { CollectionItem } from './components/AdminPage';
+import type { SafetyRule, SeriesPack, WatermarkSettings } from './services/types';
 import VideoScribePage from './components/VideoScribePage';
 import CreatePage from './components/CreatePage';
+import SettingsPage from './components/SettingsPage';
+import CreationsPage from './components/CreationsPage';
 import LoginPage from './components/LoginPage';
 import GoogleAd from './components/GoogleAd'; // Import the new ad component
+import GenerationTray from './components/GenerationTray';
+import DailyLimitBanner from './components/DailyLimitBanner';
 import { cn } from './lib/utils';
 import * as api from './services/apiService';
+import { setSafetyRules as setActiveSafetyRules } from './services/geminiService';
+import { DEFAULT_WATERMARK_SETTINGS, setWatermarkSettings as setActiveWatermarkSettings } from './services/downloadService';
 
 
 export interface VideoItem {
@@ -52,12 +66,17 @@ const useMediaQuery = (query: string) => {
 function App() {
     const [currentPage, setCurrentPage] = useState<Page>('home');
     const [initialPromptForCreate, setInitialPromptForCreate] = useState('');
+    const [isInitialPromptTemplate, setIsInitialPromptTemplate] = useState(false);
+    const [initialStyleReferenceForCreate, setInitialStyleReferenceForCreate] = useState<string | undefined>(undefined);
     const isMobile = useMediaQuery('(max-width: 768px)');
     const [isSidebarVisible, setIsSidebarVisible] = useState(!isMobile);
 
     // --- State for Admin-managed content, now fetched from API ---
     const [collectionItems, setCollectionItems] = useState<CollectionItem[]>([]);
     const [videoItems, setVideoItems] = useState<VideoItem[]>([]);
+    const [seriesPacks, setSeriesPacks] = useState<SeriesPack[]>([]);
+    const [safetyRules, setSafetyRules] = useState<SafetyRule[]>([]);
+    const [watermarkSettings, setWatermarkSettings] = useState<WatermarkSettings>(DEFAULT_WATERMARK_SETTINGS);
     const [isLoadingContent, setIsLoadingContent] = useState(true);
 
 
@@ -77,12 +96,30 @@ function App() {
         const loadData = async () => {
             try {
                 setIsLoadingContent(true);
-                const [collections, videos] = await Promise.all([
+                const [collections, videos, packs, rules, watermark] = await Promise.all([
                     api.getCollectionItems(),
                     api.getVideoItems(),
+                    // Older backends have no packs route; the built-in Time Travel pack still works.
+                    api.getSeriesPacks().catch(error => {
+                        console.error("Failed to load series packs", error);
+                        return [] as SeriesPack[];
+                    }),
+                    // Without a rules route, prompts are only checked by the model itself.
+                    api.getSafetyRules().catch(error => {
+                        console.error("Failed to load safety rules", error);
+                        return [] as SafetyRule[];
+                    }),
+                    // Without a settings route, downloads still carry their metadata, just no watermark.
+                    api.getWatermarkSettings().catch(error => {
+                        console.error("Failed to load watermark settings", error);
+                        return DEFAULT_WATERMARK_SETTINGS;
+                    }),
                 ]);
                 setCollectionItems(collections);
                 setVideoItems(videos);
+                setSeriesPacks(packs);
+                setSafetyRules(rules);
+                setWatermarkSettings(watermark);
             } catch (error) {
                 console.error("Failed to load initial app data", error);
             } finally {
@@ -93,6 +130,16 @@ function App() {
     }, []);
 
 
+    // Every generation is screened against the current rules, including edits made in the Admin Panel.
+    useEffect(() => {
+        setActiveSafetyRules(safetyRules);
+    }, [safetyRules]);
+
+    useEffect(() => {
+        setActiveWatermarkSettings(watermarkSettings);
+    }, [watermarkSettings]);
+
+
     // Persist authentication state to localStorage
     useEffect(() => {
         try {
@@ -109,30 +156,39 @@ function App() {
     }, [isMobile]);
 
 
-    // Clear the initial prompt when navigating away from the create page
+    // Clear the initial prompt and style reference when navigating away from the create page
     useEffect(() => {
         if (currentPage !== 'create') {
             setInitialPromptForCreate('');
+            setInitialStyleReferenceForCreate(undefined);
         }
     }, [currentPage]);
 
     // --- API Handlers for Admin Page ---
 
-    const handleAddCollectionItem = async (item: Omit<CollectionItem, 'id'>, file?: File) => {
+    const handleAddCollectionItem = async (item: Omit<CollectionItem, 'id'>, file?: File, referenceFile?: File) => {
         let url = item.url;
         if (file) {
             url = await api.uploadImage(file);
         }
-        const newItem = await api.addCollectionItem({ ...item, url });
+        let referenceImageUrl = item.referenceImageUrl;
+        if (referenceFile) {
+            referenceImageUrl = await api.uploadImage(referenceFile);
+        }
+        const newItem = await api.addCollectionItem({ ...item, url, referenceImageUrl });
         setCollectionItems(prev => [newItem, ...prev]);
     };
     
-    const handleUpdateCollectionItem = async (item: CollectionItem, file?: File) => {
+    const handleUpdateCollectionItem = async (item: CollectionItem, file?: File, referenceFile?: File) => {
         let url = item.url;
         if (file) {
             url = await api.uploadImage(file);
         }
-        const updatedItem = await api.updateCollectionItem({ ...item, url });
+        let referenceImageUrl = item.referenceImageUrl;
+        if (referenceFile) {
+            referenceImageUrl = await api.uploadImage(referenceFile);
+        }
+        const updatedItem = await api.updateCollectionItem({ ...item, url, referenceImageUrl });
         setCollectionItems(prev => prev.map(i => i.id === updatedItem.id ? updatedItem : i));
     };
 
@@ -156,6 +212,40 @@ function App() {
         setVideoItems(prev => prev.filter(v => v.id !== id));
     };
  
+    const handleAddSeriesPack = async (pack: Omit<SeriesPack, 'id'>) => {
+        const newPack = await api.addSeriesPack(pack);
+        setSeriesPacks(prev => [newPack, ...prev]);
+    };
+
+    const handleUpdateSeriesPack = async (pack: SeriesPack) => {
+        const updatedPack = await api.updateSeriesPack(pack);
+        setSeriesPacks(prev => prev.map(p => p.id === updatedPack.id ? updatedPack : p));
+    };
+
+    const handleDeleteSeriesPack = async (id: string | number) => {
+        await api.deleteSeriesPack(id);
+        setSeriesPacks(prev => prev.filter(p => p.id !== id));
+    };
+ 
+    const handleAddSafetyRule = async (rule: Omit<SafetyRule, 'id'>) => {
+        const newRule = await api.addSafetyRule(rule);
+        setSafetyRules(prev => [newRule, ...prev]);
+    };
+
+    const handleUpdateSafetyRule = async (rule: SafetyRule) => {
+        const updatedRule = await api.updateSafetyRule(rule);
+        setSafetyRules(prev => prev.map(r => r.id === updatedRule.id ? updatedRule : r));
+    };
+
+    const handleDeleteSafetyRule = async (id: string | number) => {
+        await api.deleteSafetyRule(id);
+        setSafetyRules(prev => prev.filter(r => r.id !== id));
+    };
+
+    const handleUpdateWatermarkSettings = async (settings: WatermarkSettings) => {
+        setWatermarkSettings(await api.updateWatermarkSettings(settings));
+    };
+ 
     const handleToggleSidebar = (e?: React.MouseEvent) => {
         e?.stopPropagation(); // Prevent content click handler from firing
         setIsSidebarVisible(!isSidebarVisible);
@@ -167,8 +257,14 @@ function App() {
         }
     };
 
-    const handleNavigateToCreateWithPrompt = (prompt: string) => {
+    /**
+     * @param isTemplate True for Collection templates, whose placeholders must be filled in.
+     *   Saved prompts are already rendered, so any braces left in them are sent as written.
+     */
+    const handleNavigateToCreateWithPrompt = (prompt: string, isTemplate: boolean, referenceImageUrl?: string) => {
         setInitialPromptForCreate(prompt);
+        setIsInitialPromptTemplate(isTemplate);
+        setInitialStyleReferenceForCreate(referenceImageUrl || undefined);
         setCurrentPage('create');
     };
 
@@ -196,13 +292,13 @@ function App() {
 
         switch (currentPage) {
             case 'home':
-                return <HomePage isMobile={isMobile} />;
+                return <HomePage isMobile={isMobile} seriesPacks={seriesPacks} />;
             case 'trending':
                 return <TrendingPage />;
             case 'collection':
-                return <CollectionPage collectionItems={collectionItems} onStyleSelect={handleNavigateToCreateWithPrompt} />;
+                return <CollectionPage collectionItems={collectionItems} onStyleSelect={(prompt, referenceImageUrl) => handleNavigateToCreateWithPrompt(prompt, true, referenceImageUrl)} />;
             case 'create':
-                return <CreatePage initialPrompt={initialPromptForCreate} />;
+                return <CreatePage initialPrompt={initialPromptForCreate} isInitialPromptTemplate={isInitialPromptTemplate} initialStyleReference={initialStyleReferenceForCreate} />;
             case 'admin':
                 return isAuthenticated ? (
                     <AdminPage 
@@ -214,15 +310,29 @@ function App() {
                         onAddVideoItem={handleAddVideoItem}
                         onUpdateVideoItem={handleUpdateVideoItem}
                         onDeleteVideoItem={handleDeleteVideoItem}
+                        seriesPacks={seriesPacks}
+                        onAddSeriesPack={handleAddSeriesPack}
+                        onUpdateSeriesPack={handleUpdateSeriesPack}
+                        onDeleteSeriesPack={handleDeleteSeriesPack}
+                        safetyRules={safetyRules}
+                        onAddSafetyRule={handleAddSafetyRule}
+                        onUpdateSafetyRule={handleUpdateSafetyRule}
+                        onDeleteSafetyRule={handleDeleteSafetyRule}
+                        watermarkSettings={watermarkSettings}
+                        onUpdateWatermarkSettings={handleUpdateWatermarkSettings}
                         onLogout={handleLogout}
                     />
                 ) : (
                     <LoginPage onLoginSuccess={handleLoginSuccess} />
                 );
+            case 'creations':
+                return <CreationsPage onUsePrompt={(prompt) => handleNavigateToCreateWithPrompt(prompt, false)} />;
             case 'videoScribe':
                 return <VideoScribePage videoItems={videoItems} />;
+            case 'settings':
+                return <SettingsPage />;
             default:
-                return <HomePage isMobile={isMobile} />;
+                return <HomePage isMobile={isMobile} seriesPacks={seriesPacks} />;
         }
     };
 
@@ -263,6 +373,7 @@ function App() {
                     </button>
                 )}
                 <div className="flex-1 w-full flex flex-col items-center justify-center">
+                    <DailyLimitBanner />
                     {renderPage()}
                 </div>
                 {/* Ad Banner */}
@@ -270,6 +381,8 @@ function App() {
                     <GoogleAd key={`${currentPage}-${isSidebarVisible}`} />
                 </div>
             </main>
+
+            <GenerationTray />
         </div>
     );
 }
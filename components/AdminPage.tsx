@@ -3,18 +3,29 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { VideoItem } from '../App';
 import { convertGoogleDriveUrl, getYouTubeEmbedUrl } from '../lib/urlUtils';
-import { uploadImage } from '../services/apiService';
+import { getUsageSummary, uploadImage } from '../services/apiService';
+import { getUsageHistory, getUsageSnapshot, subscribeToUsage, type BackendUsageSummary } from '../services/usageLedger';
+import { describeImageStyle } from '../services/geminiService';
+import { fetchImageAsDataUrl } from '../lib/imageUtils';
+import { parsePromptTemplate, validatePromptTemplate } from '../lib/promptTemplates';
+import { describePreprocessedImage, preprocessImageFile, ImagePreprocessError, type PreprocessedImage } from '../lib/imagePreprocessing';
+import { MAX_SERIES_ITEMS, SERIES_ITEM_PLACEHOLDER, validateSeriesPack } from '../lib/seriesPacks';
+import { validateSafetyRule } from '../lib/promptScreening';
+import type { SafetyRule, SeriesPack, WatermarkPosition, WatermarkSettings } from '../services/types';
 
 // --- Type Definitions ---
 export interface CollectionItem {
     id: number | string;
     url: string;
     prompt: string;
+    /** An example image sent along with the prompt to show the look; empty or missing when there is none. */
+    referenceImageUrl?: string;
 }
+
 type AdminView = 'idle' | 'addingImage' | 'addingVideo';
 
 type ToastNotification = {
@@ -24,6 +35,10 @@ type ToastNotification = {
 };
 
 // --- Helper Functions ---
+
+// Gallery images are shown large, so they keep more detail than generation inputs.
+const GALLERY_MAX_EDGE = 2048;
+
 const VideoPlayer: React.FC<{ url: string }> = ({ url }) => {
     const driveEmbedUrl = convertGoogleDriveUrl(url, 'video');
     if (driveEmbedUrl) {
@@ -47,6 +62,195 @@ const VideoPlayer: React.FC<{ url: string }> = ({ url }) => {
     return <div className="w-full h-full flex items-center justify-center text-center p-4"><p className="text-neutral-500">Unsupported URL. <br/>Preview works for YouTube, GDrive, .mp4, .webm, & .ogg.</p></div>;
 };
 
+// Shows template problems, or which {placeholders} users will be asked to fill in on the Create page.
+const PromptTemplateHint: React.FC<{ prompt: string }> = ({ prompt }) => {
+    const errors = validatePromptTemplate(prompt);
+    if (errors.length > 0) {
+        return <p className="text-xs text-red-400 mt-1">{errors[0]}</p>;
+    }
+    const { variables } = parsePromptTemplate(prompt);
+    if (variables.length === 0) {
+        return <p className="text-xs text-neutral-500 mt-1">Tip: add placeholders like {'{subject}'}, {'{mood}'} or {'{decade=1970s}'} to let users customize this style.</p>;
+    }
+    return <p className="text-xs text-green-400 mt-1">Users can customize: {variables.map(v => v.label).join(', ')}</p>;
+};
+
+// Lets an admin attach, replace or remove the style reference of a collection item.
+const ReferenceImageField: React.FC<{ preview: string | null, onChange: (file: File | null, preview: string | null) => void }> = ({ preview, onChange }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [summary, setSummary] = useState<string | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            // References are generation inputs, so they use the generation size rather than the gallery size.
+            const image = await preprocessImageFile(file);
+            setSummary(describePreprocessedImage(image));
+            onChange(image.file, image.dataUrl);
+        } catch (error) {
+            console.error("Failed to process reference image:", error);
+            alert(error instanceof ImagePreprocessError ? error.message : "Please upload a valid image file (PNG, JPG, WEBP).");
+        }
+    };
+
+    return (
+        <div>
+            <label className="font-permanent-marker text-neutral-300 text-lg">Style Reference <span className="text-sm text-neutral-500">(optional)</span></label>
+            <input type="file" ref={inputRef} onChange={handleFile} className="hidden" accept="image/png,image/jpeg,image/webp" />
+            <div className="mt-2 flex items-center gap-4">
+                {preview && <img src={preview} alt="Style reference" className="w-16 h-16 object-cover rounded-md border border-neutral-700" />}
+                <button onClick={() => inputRef.current?.click()} className={smallButtonClasses}>{preview ? 'Replace' : 'Attach Image'}</button>
+                {preview && <button onClick={() => { setSummary(null); onChange(null, null); }} className={smallDangerButtonClasses}>Remove</button>}
+            </div>
+            <p className="text-xs text-neutral-500 mt-1">{summary ?? "Sent with the prompt so the model can copy its look. Its content is never copied."}</p>
+        </div>
+    );
+};
+
+// Days of this browser's ledger shown in the usage summary.
+const USAGE_SUMMARY_DAYS = 7;
+
+/**
+ * Summarizes model usage: this browser's ledger, plus every session's usage today when the backend reports it.
+ */
+const UsageSummary: React.FC = () => {
+    const [snapshot, setSnapshot] = useState(getUsageSnapshot);
+    const [backendSummary, setBackendSummary] = useState<BackendUsageSummary | null>(null);
+
+    useEffect(() => subscribeToUsage(setSnapshot), []);
+    useEffect(() => {
+        // Older backends have no usage route; the local ledger is still shown.
+        getUsageSummary().then(setBackendSummary).catch(error => console.error("Failed to load the usage summary", error));
+    }, []);
+
+    const history = getUsageHistory().slice(0, USAGE_SUMMARY_DAYS);
+    const quotaLabel = snapshot.dailyQuota === null ? 'No daily limit' : `${snapshot.remaining} of ${snapshot.dailyQuota} image generations left today`;
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-neutral-900/50 border border-neutral-800 rounded-lg p-4">
+                <p className="font-permanent-marker text-neutral-300 text-lg">This Browser</p>
+                <p className="text-sm text-neutral-500 mb-3">{quotaLabel}</p>
+                {history.length === 0 ? (
+                    <p className="text-sm text-neutral-500">No model calls yet.</p>
+                ) : (
+                    <table className="w-full text-sm text-left text-neutral-300">
+                        <thead className="text-neutral-500">
+                            <tr>
+                                {['Day', 'Images', 'Text', 'Retries', 'Fallbacks', 'Cached'].map(heading => (
+                                    <th key={heading} className="font-normal">{heading}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {history.map(({ date, usage }) => (
+                                <tr key={date}>
+                                    <td>{date}</td>
+                                    <td>{usage.imageCalls}</td>
+                                    <td>{usage.textCalls}</td>
+                                    <td>{usage.retries}</td>
+                                    <td>{usage.fallbacks}</td>
+                                    <td>{usage.cacheHits}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+            <div className="bg-neutral-900/50 border border-neutral-800 rounded-lg p-4">
+                <p className="font-permanent-marker text-neutral-300 text-lg">All Sessions Today</p>
+                {backendSummary ? (
+                    <>
+                        <p className="text-sm text-neutral-500 mb-3">
+                            {backendSummary.sessions.length} {backendSummary.sessions.length === 1 ? 'session' : 'sessions'}, {backendSummary.sessions.reduce((sum, session) => sum + session.imageCalls, 0)} image calls, {backendSummary.sessions.filter(session => session.limited).length} at the limit
+                        </p>
+                        <ul className="text-sm text-neutral-300 space-y-1 max-h-48 overflow-y-auto">
+                            {backendSummary.sessions.map(session => (
+                                <li key={session.sessionId} className="flex justify-between gap-4">
+                                    <span className="truncate font-mono text-neutral-500">{session.sessionId}</span>
+                                    <span className={session.limited ? 'text-red-400' : undefined}>{session.imageCalls} images, {session.textCalls} text</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                ) : (
+                    <p className="text-sm text-neutral-500">The backend doesn't report usage.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const WATERMARK_POSITIONS: { value: WatermarkPosition, label: string }[] = [
+    { value: 'top-left', label: 'Top left' },
+    { value: 'top-right', label: 'Top right' },
+    { value: 'bottom-left', label: 'Bottom left' },
+    { value: 'bottom-right', label: 'Bottom right' },
+];
+
+/**
+ * Edits the download watermark. Changes apply to the next download once saved.
+ */
+const WatermarkSettingsForm: React.FC<{ settings: WatermarkSettings, onSave: (settings: WatermarkSettings) => Promise<void> }> = ({ settings, onSave }) => {
+    const [draft, setDraft] = useState(settings);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => setDraft(settings), [settings]);
+
+    const isDirty = draft.enabled !== settings.enabled || draft.text !== settings.text || draft.position !== settings.position;
+    const canSave = isDirty && (!draft.enabled || draft.text.trim().length > 0);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave({ ...draft, text: draft.text.trim() });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-neutral-900/50 border border-neutral-800 rounded-lg p-4 flex flex-col md:flex-row gap-4 md:items-end">
+            <label className="flex items-center gap-2 text-neutral-300 md:pb-3">
+                <input
+                    type="checkbox"
+                    checked={draft.enabled}
+                    onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+                    className="w-4 h-4 accent-yellow-400"
+                />
+                Show a watermark
+            </label>
+            <div className="flex-1">
+                <label className="font-permanent-marker text-neutral-300">Text</label>
+                <input
+                    type="text"
+                    value={draft.text}
+                    onChange={(e) => setDraft(prev => ({ ...prev, text: e.target.value }))}
+                    disabled={!draft.enabled}
+                    placeholder="Made with TrendSnap"
+                    className="w-full p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md disabled:opacity-50"
+                />
+            </div>
+            <div>
+                <label className="font-permanent-marker text-neutral-300">Corner</label>
+                <select
+                    value={draft.position}
+                    onChange={(e) => setDraft(prev => ({ ...prev, position: e.target.value as WatermarkPosition }))}
+                    disabled={!draft.enabled}
+                    className="w-full p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md disabled:opacity-50"
+                >
+                    {WATERMARK_POSITIONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </div>
+            <button onClick={handleSave} disabled={!canSave || isSaving} className={smallButtonClasses + " py-3 disabled:opacity-50 disabled:hover:scale-100"}>
+                {isSaving ? 'Saving...' : 'Save'}
+            </button>
+        </div>
+    );
+};
+
 // --- Style Constants ---
 const primaryButtonClasses = "font-permanent-marker text-xl text-center text-black bg-yellow-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)] disabled:opacity-50 disabled:cursor-not-allowed";
 const secondaryButtonClasses = "font-permanent-marker text-lg text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-2 px-6 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-black";
@@ -55,30 +259,29 @@ const smallDangerButtonClasses = "text-sm font-bold text-white bg-red-600 py-1 p
 const dangerButtonClasses = "font-permanent-marker text-xl text-center text-white bg-red-600 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-red-500 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)]";
 
 // --- Modal Components ---
-const EditImageModal: React.FC<{ item: CollectionItem, onSave: (item: CollectionItem, file?: File) => void, onClose: () => void }> = ({ item, onSave, onClose }) => {
+const EditImageModal: React.FC<{ item: CollectionItem, onSave: (item: CollectionItem, file?: File, referenceFile?: File) => void, onClose: () => void }> = ({ item, onSave, onClose }) => {
     const [editedUrl, setEditedUrl] = useState(item.url.startsWith('data:') ? '' : item.url);
     const [editedPrompt, setEditedPrompt] = useState(item.prompt);
     const [preview, setPreview] = useState<string | null>(item.url);
     const [editedFile, setEditedFile] = useState<File | null>(null);
+    const [fileSummary, setFileSummary] = useState<string | null>(null);
+    const [referencePreview, setReferencePreview] = useState<string | null>(item.referenceImageUrl || null);
+    const [referenceFile, setReferenceFile] = useState<File | null>(null);
     const [isSaving, setIsSaving] = useState(false);
     const editFileInputRef = useRef<HTMLInputElement>(null);
 
-    const processFile = (file: File) => {
-        if (file && ["image/png", "image/jpeg", "image/webp"].includes(file.type)) {
-            const reader = new FileReader();
-            reader.onloadend = () => setPreview(reader.result as string);
-            reader.readAsDataURL(file);
-        } else {
-            alert("Please upload a valid image file (PNG, JPG, WEBP).");
-        }
-    };
-    
-    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files?.[0]) {
-            const file = e.target.files[0];
-            setEditedFile(file);
-            setEditedUrl(''); // Clear URL field on upload
-            processFile(file);
+            try {
+                const image = await preprocessImageFile(e.target.files[0], { maxEdge: GALLERY_MAX_EDGE });
+                setEditedFile(image.file);
+                setEditedUrl(''); // Clear URL field on upload
+                setPreview(image.dataUrl);
+                setFileSummary(describePreprocessedImage(image));
+            } catch (error) {
+                console.error("Failed to process image:", error);
+                alert(error instanceof ImagePreprocessError ? error.message : "Please upload a valid image file (PNG, JPG, WEBP).");
+            }
         }
     };
 
@@ -88,6 +291,7 @@ const EditImageModal: React.FC<{ item: CollectionItem, onSave: (item: Collection
         setPreview(googleDriveUrl || url);
         setEditedUrl(url);
         setEditedFile(null); // Clear file if URL is being used
+        setFileSummary(null);
     };
 
     const handleSave = async () => {
@@ -95,9 +299,16 @@ const EditImageModal: React.FC<{ item: CollectionItem, onSave: (item: Collection
             alert("Please ensure there is a preview image and the prompt is not empty.");
             return;
         }
+        const templateErrors = validatePromptTemplate(editedPrompt);
+        if (templateErrors.length > 0) {
+            alert(templateErrors[0]);
+            return;
+        }
         setIsSaving(true);
         try {
-            await onSave({ ...item, url: editedUrl, prompt: editedPrompt }, editedFile ?? undefined);
+            // A removed reference is saved as an empty URL; a new file replaces it after upload.
+            const referenceImageUrl = referencePreview && !referenceFile ? item.referenceImageUrl : '';
+            await onSave({ ...item, url: editedUrl, prompt: editedPrompt, referenceImageUrl }, editedFile ?? undefined, referenceFile ?? undefined);
             onClose();
         } catch (error) {
             console.error("Failed to save edited image:", error);
@@ -120,12 +331,15 @@ const EditImageModal: React.FC<{ item: CollectionItem, onSave: (item: Collection
                              <p className="text-xs text-neutral-500 mt-1">For best results, use a direct image URL (ending in .jpg, .png) or a Google Drive link. Preview auto-updates when you click away.</p>
                             <div className="relative"><div className="absolute inset-0 flex items-center"><div className="w-full border-t border-neutral-700" /></div><div className="relative flex justify-center"><span className="bg-neutral-900 px-2 text-sm text-neutral-500">OR</span></div></div>
                             <button onClick={() => editFileInputRef.current?.click()} className={`${secondaryButtonClasses} w-full`}>Upload New File</button>
+                            {fileSummary && <p className="text-xs text-neutral-500">{fileSummary}</p>}
                         </div>
                     </div>
                     <div>
                         <label className="font-permanent-marker text-neutral-300 text-lg">Prompt</label>
                         <textarea value={editedPrompt} onChange={(e) => setEditedPrompt(e.target.value)} className="w-full h-24 p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" />
+                        <PromptTemplateHint prompt={editedPrompt} />
                     </div>
+                    <ReferenceImageField preview={referencePreview} onChange={(file, preview) => { setReferenceFile(file); setReferencePreview(preview); }} />
                     <div className="flex gap-4"><button onClick={handleSave} className={`${primaryButtonClasses} text-lg`} disabled={isSaving}>{isSaving ? "Saving..." : "Save"}</button><button onClick={onClose} className={secondaryButtonClasses}>Cancel</button></div>
                 </div>
                 <div className="w-full md:w-1/3 h-64 flex items-center justify-center bg-neutral-800/50 border-2 border-dashed border-neutral-700 rounded-lg overflow-hidden">
@@ -175,6 +389,140 @@ const EditVideoModal: React.FC<{ item: VideoItem, onSave: (item: VideoItem) => v
     );
 };
 
+const SeriesPackModal: React.FC<{ pack: SeriesPack | null, onSave: (pack: Omit<SeriesPack, 'id'>) => Promise<void>, onClose: () => void }> = ({ pack, onSave, onClose }) => {
+    const [name, setName] = useState(pack?.name ?? '');
+    const [description, setDescription] = useState(pack?.description ?? '');
+    const [itemLabels, setItemLabels] = useState(pack?.itemLabels.join('\n') ?? '');
+    const [promptTemplate, setPromptTemplate] = useState(pack?.promptTemplate ?? '');
+    const [fallbackPrompt, setFallbackPrompt] = useState(pack?.fallbackPrompt ?? '');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const draft: Omit<SeriesPack, 'id'> = {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        itemLabels: itemLabels.split(/[\n,]/).map(label => label.trim()).filter(Boolean),
+        promptTemplate: promptTemplate.trim(),
+        fallbackPrompt: fallbackPrompt.trim(),
+    };
+    const errors = validateSeriesPack(draft);
+
+    const handleSave = async () => {
+        if (errors.length > 0) {
+            alert(errors[0]);
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await onSave(draft);
+            onClose();
+        } catch (error) {
+            console.error("Failed to save series pack:", error);
+            alert("Failed to save. Please try again.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <motion.div initial={{ y: 50, scale: 0.95 }} animate={{ y: 0, scale: 1 }} exit={{ y: 50, scale: 0.95 }} className="bg-neutral-900 border border-neutral-700 rounded-lg p-6 w-full max-w-3xl space-y-6 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-3xl font-permanent-marker text-yellow-400">{pack ? 'Edit Series Pack' : 'Add Series Pack'}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                        <label className="font-permanent-marker text-neutral-300 text-lg">Name</label>
+                        <input type="text" value={name} onChange={(e) => setName(e.target.value)} className="w-full p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" placeholder="Four Seasons" />
+                    </div>
+                    <div>
+                        <label className="font-permanent-marker text-neutral-300 text-lg">Tagline</label>
+                        <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} className="w-full p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" placeholder="See yourself through the seasons." />
+                    </div>
+                </div>
+                <div>
+                    <label className="font-permanent-marker text-neutral-300 text-lg">Items</label>
+                    <textarea value={itemLabels} onChange={(e) => setItemLabels(e.target.value)} className="w-full h-24 p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" placeholder={"Spring\nSummer\nAutumn\nWinter"} />
+                    <p className="text-xs text-neutral-500 mt-1">One per line or comma-separated, 2 to {MAX_SERIES_ITEMS}. Each item becomes one photo and its caption.</p>
+                </div>
+                <div>
+                    <label className="font-permanent-marker text-neutral-300 text-lg">Prompt Template</label>
+                    <textarea value={promptTemplate} onChange={(e) => setPromptTemplate(e.target.value)} className="w-full h-24 p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" placeholder="Reimagine {subject} on a typical {item} day..." />
+                    <p className="text-xs text-neutral-500 mt-1">{SERIES_ITEM_PLACEHOLDER} is replaced by each item. Other placeholders need a default, e.g. {'{outfit=a raincoat}'}.</p>
+                </div>
+                <div>
+                    <label className="font-permanent-marker text-neutral-300 text-lg">Fallback Prompt</label>
+                    <textarea value={fallbackPrompt} onChange={(e) => setFallbackPrompt(e.target.value)} className="w-full h-20 p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" placeholder="Optional. A safer wording, tried once if the main prompt is blocked." />
+                </div>
+                {errors.length > 0 && <p className="text-sm text-red-400">{errors[0]}</p>}
+                <div className="flex gap-4"><button onClick={handleSave} className={`${primaryButtonClasses} text-lg`} disabled={isSaving || errors.length > 0}>{isSaving ? "Saving..." : "Save"}</button><button onClick={onClose} className={secondaryButtonClasses}>Cancel</button></div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+const SafetyRuleModal: React.FC<{ rule: SafetyRule | null, onSave: (rule: Omit<SafetyRule, 'id'>) => Promise<void>, onClose: () => void }> = ({ rule, onSave, onClose }) => {
+    const [kind, setKind] = useState<SafetyRule['kind']>(rule?.kind ?? 'terms');
+    const [patterns, setPatterns] = useState(rule?.patterns.join('\n') ?? '');
+    const [reason, setReason] = useState(rule?.reason ?? '');
+    const [replacement, setReplacement] = useState(rule?.replacement ?? '');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const draft: Omit<SafetyRule, 'id'> = {
+        kind,
+        // Regular expressions may contain commas, so only terms can be comma-separated.
+        patterns: patterns.split(kind === 'terms' ? /[\n,]/ : /\n/).map(pattern => pattern.trim()).filter(Boolean),
+        reason: reason.trim(),
+        replacement: replacement.trim(),
+    };
+    const errors = validateSafetyRule(draft);
+
+    const handleSave = async () => {
+        if (errors.length > 0) {
+            alert(errors[0]);
+            return;
+        }
+        setIsSaving(true);
+        try {
+            await onSave(draft);
+            onClose();
+        } catch (error) {
+            console.error("Failed to save safety rule:", error);
+            alert("Failed to save. Please try again.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <motion.div initial={{ y: 50, scale: 0.95 }} animate={{ y: 0, scale: 1 }} exit={{ y: 50, scale: 0.95 }} className="bg-neutral-900 border border-neutral-700 rounded-lg p-6 w-full max-w-3xl space-y-6 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-3xl font-permanent-marker text-yellow-400">{rule ? 'Edit Safety Rule' : 'Add Safety Rule'}</h3>
+                <div>
+                    <label className="font-permanent-marker text-neutral-300 text-lg">Match</label>
+                    <select value={kind} onChange={(e) => setKind(e.target.value as SafetyRule['kind'])} className="w-full p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md">
+                        <option value="terms">Words or phrases</option>
+                        <option value="regex">Regular expressions</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="font-permanent-marker text-neutral-300 text-lg">{kind === 'terms' ? 'Terms' : 'Patterns'}</label>
+                    <textarea value={patterns} onChange={(e) => setPatterns(e.target.value)} className="w-full h-24 p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md font-mono text-sm" placeholder={kind === 'terms' ? "rifle\nhandgun\nassault weapon" : "\\b(blood|gore)\\w*"} />
+                    <p className="text-xs text-neutral-500 mt-1">{kind === 'terms' ? 'One per line or comma-separated. Only whole words match, ignoring case.' : 'One per line. Case is ignored.'}</p>
+                </div>
+                <div>
+                    <label className="font-permanent-marker text-neutral-300 text-lg">Reason</label>
+                    <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} className="w-full p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" placeholder="Prompts can't describe real weapons." />
+                    <p className="text-xs text-neutral-500 mt-1">Shown to users whose prompt matches.</p>
+                </div>
+                <div>
+                    <label className="font-permanent-marker text-neutral-300 text-lg">Suggested Replacement</label>
+                    <input type="text" value={replacement} onChange={(e) => setReplacement(e.target.value)} className="w-full p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" placeholder="Optional, e.g. 'toy blaster'. Empty removes the match." />
+                </div>
+                {errors.length > 0 && <p className="text-sm text-red-400">{errors[0]}</p>}
+                <div className="flex gap-4"><button onClick={handleSave} className={`${primaryButtonClasses} text-lg`} disabled={isSaving || errors.length > 0}>{isSaving ? "Saving..." : "Save"}</button><button onClick={onClose} className={secondaryButtonClasses}>Cancel</button></div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
 const ConfirmationModal: React.FC<{ onConfirm: () => void, onCancel: () => void }> = ({ onConfirm, onCancel }) => (
     <motion.div
         initial={{ opacity: 0 }}
@@ -228,25 +576,42 @@ const ToastContainer: React.FC<{ notifications: ToastNotification[], onDismiss:
 // --- Main Component ---
 interface AdminPageProps {
     collectionItems: CollectionItem[];
-    onAddCollectionItem: (item: Omit<CollectionItem, 'id'>, file?: File) => Promise<void>;
-    onUpdateCollectionItem: (item: CollectionItem, file?: File) => Promise<void>;
+    onAddCollectionItem: (item: Omit<CollectionItem, 'id'>, file?: File, referenceFile?: File) => Promise<void>;
+    onUpdateCollectionItem: (item: CollectionItem, file?: File, referenceFile?: File) => Promise<void>;
     onDeleteCollectionItem: (id: string | number) => Promise<void>;
     videoItems: VideoItem[];
     onAddVideoItem: (item: Omit<VideoItem, 'id'>) => Promise<void>;
     onUpdateVideoItem: (item: VideoItem) => Promise<void>;
     onDeleteVideoItem: (id: string | number) => Promise<void>;
+    seriesPacks: SeriesPack[];
+    onAddSeriesPack: (pack: Omit<SeriesPack, 'id'>) => Promise<void>;
+    onUpdateSeriesPack: (pack: SeriesPack) => Promise<void>;
+    onDeleteSeriesPack: (id: string | number) => Promise<void>;
+    safetyRules: SafetyRule[];
+    onAddSafetyRule: (rule: Omit<SafetyRule, 'id'>) => Promise<void>;
+    onUpdateSafetyRule: (rule: SafetyRule) => Promise<void>;
+    onDeleteSafetyRule: (id: string | number) => Promise<void>;
+    watermarkSettings: WatermarkSettings;
+    onUpdateWatermarkSettings: (settings: WatermarkSettings) => Promise<void>;
     onLogout: () => void;
 }
 
 const AdminPage: React.FC<AdminPageProps> = ({ 
     collectionItems, onAddCollectionItem, onUpdateCollectionItem, onDeleteCollectionItem, 
     videoItems, onAddVideoItem, onUpdateVideoItem, onDeleteVideoItem, 
+    seriesPacks, onAddSeriesPack, onUpdateSeriesPack, onDeleteSeriesPack,
+    safetyRules, onAddSafetyRule, onUpdateSafetyRule, onDeleteSafetyRule,
+    watermarkSettings, onUpdateWatermarkSettings,
     onLogout 
 }) => {
     const [view, setView] = useState<AdminView>('idle');
     const [editingImage, setEditingImage] = useState<CollectionItem | null>(null);
     const [editingVideo, setEditingVideo] = useState<VideoItem | null>(null);
-    const [itemToDelete, setItemToDelete] = useState<{ type: 'image' | 'video', id: number | string } | null>(null);
+    // null when closed, 'new' while adding a pack.
+    const [editingPack, setEditingPack] = useState<SeriesPack | 'new' | null>(null);
+    // null when closed, 'new' while adding a rule.
+    const [editingRule, setEditingRule] = useState<SafetyRule | 'new' | null>(null);
+    const [itemToDelete, setItemToDelete] = useState<{ type: 'image' | 'video' | 'pack' | 'rule', id: number | string } | null>(null);
     const [toasts, setToasts] = useState<ToastNotification[]>([]);
     
     // Form states
@@ -255,6 +620,10 @@ const AdminPage: React.FC<AdminPageProps> = ({
     const [newImagePrompt, setNewImagePrompt] = useState('');
     const [newImagePreview, setNewImagePreview] = useState<string | null>(null);
     const [newImageFile, setNewImageFile] = useState<File | null>(null);
+    const [newImageSummary, setNewImageSummary] = useState<string | null>(null);
+    const [newReferenceFile, setNewReferenceFile] = useState<File | null>(null);
+    const [newReferencePreview, setNewReferencePreview] = useState<string | null>(null);
+    const [isDescribing, setIsDescribing] = useState(false);
     const newImageFileInputRef = useRef<HTMLInputElement>(null);
     const [newVideoUrl, setNewVideoUrl] = useState('');
     const [newVideoScript, setNewVideoScript] = useState('');
@@ -268,22 +637,21 @@ const AdminPage: React.FC<AdminPageProps> = ({
         }, 5000);
     };
 
-    const processFile = (file: File, callback: (dataUrl: string) => void) => {
-        if (file && ["image/png", "image/jpeg", "image/webp"].includes(file.type)) {
-            const reader = new FileReader();
-            reader.onloadend = () => callback(reader.result as string);
-            reader.readAsDataURL(file);
-        } else {
-            addToast("Please upload a valid image file (PNG, JPG, WEBP).", 'error');
+    const processFile = async (file: File, callback: (image: PreprocessedImage) => void) => {
+        try {
+            callback(await preprocessImageFile(file, { maxEdge: GALLERY_MAX_EDGE }));
+        } catch (error) {
+            console.error("Failed to process image:", error);
+            addToast(error instanceof ImagePreprocessError ? error.message : "Please upload a valid image file (PNG, JPG, WEBP).", 'error');
         }
     };
 
     const handleNewImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files?.[0]) {
-            const file = e.target.files[0];
-            processFile(file, (dataUrl) => {
-                setNewImagePreview(dataUrl);
-                setNewImageFile(file);
+            processFile(e.target.files[0], (image) => {
+                setNewImagePreview(image.dataUrl);
+                setNewImageFile(image.file);
+                setNewImageSummary(describePreprocessedImage(image));
                 setNewImageUrl('');
             });
         }
@@ -295,18 +663,40 @@ const AdminPage: React.FC<AdminPageProps> = ({
         setNewImagePreview(googleDriveUrl || url);
         setNewImageUrl(url);
         setNewImageFile(null); // Pasting URL clears any selected file
+        setNewImageSummary(null);
     };
     
+    // Writes a first draft of the prompt from the image itself; the admin can edit it before saving.
+    const handleDescribeNewImage = async () => {
+        if (!newImagePreview) return;
+        setIsDescribing(true);
+        try {
+            const dataUrl = await fetchImageAsDataUrl(newImagePreview);
+            setNewImagePrompt(await describeImageStyle(dataUrl));
+        } catch (error) {
+            console.error("Failed to describe image:", error);
+            addToast("Couldn't describe this image. If it's a pasted URL, try uploading the file instead.", 'error');
+        } finally {
+            setIsDescribing(false);
+        }
+    };
+
     const handleSaveNewImage = async () => {
         if (!newImagePreview || !newImagePrompt.trim()) {
             addToast("Image preview and prompt are required.", 'error');
             return;
         }
+        const templateErrors = validatePromptTemplate(newImagePrompt);
+        if (templateErrors.length > 0) {
+            addToast(templateErrors[0], 'error');
+            return;
+        }
         setIsSaving(true);
         try {
-            await onAddCollectionItem({ url: newImageUrl, prompt: newImagePrompt }, newImageFile ?? undefined);
+            await onAddCollectionItem({ url: newImageUrl, prompt: newImagePrompt }, newImageFile ?? undefined, newReferenceFile ?? undefined);
             addToast('Image saved successfully!', 'success');
-            setNewImageUrl(''); setNewImagePrompt(''); setNewImagePreview(null); setNewImageFile(null);
+            setNewImageUrl(''); setNewImagePrompt(''); setNewImagePreview(null); setNewImageFile(null); setNewImageSummary(null);
+            setNewReferenceFile(null); setNewReferencePreview(null);
             setView('idle');
         } catch (error) {
             console.error("Failed to save new image:", error);
@@ -316,9 +706,9 @@ const AdminPage: React.FC<AdminPageProps> = ({
         }
     };
 
-    const handleUpdateImage = async (item: CollectionItem, file?: File) => {
+    const handleUpdateImage = async (item: CollectionItem, file?: File, referenceFile?: File) => {
         try {
-            await onUpdateCollectionItem(item, file);
+            await onUpdateCollectionItem(item, file, referenceFile);
             addToast('Image updated successfully!', 'success');
         } catch (error) {
             console.error("Failed to update image:", error);
@@ -326,7 +716,7 @@ const AdminPage: React.FC<AdminPageProps> = ({
         }
     };
     
-    const handleDeleteRequest = (type: 'image' | 'video', id: number | string) => {
+    const handleDeleteRequest = (type: 'image' | 'video' | 'pack' | 'rule', id: number | string) => {
         setItemToDelete({ type, id });
     };
 
@@ -337,8 +727,12 @@ const AdminPage: React.FC<AdminPageProps> = ({
         try {
             if (type === 'image') {
                 await onDeleteCollectionItem(id);
-            } else {
+            } else if (type === 'video') {
                 await onDeleteVideoItem(id);
+            } else if (type === 'pack') {
+                await onDeleteSeriesPack(id);
+            } else {
+                await onDeleteSafetyRule(id);
             }
             addToast(`${type.charAt(0).toUpperCase() + type.slice(1)} deleted successfully.`, 'success');
         } catch (error) {
@@ -378,6 +772,38 @@ const AdminPage: React.FC<AdminPageProps> = ({
         }
     };
 
+    const handleSavePack = async (pack: Omit<SeriesPack, 'id'>) => {
+        // Errors propagate to the modal, which keeps itself open so nothing typed is lost.
+        if (editingPack && editingPack !== 'new') {
+            await onUpdateSeriesPack({ ...pack, id: editingPack.id });
+            addToast('Series pack updated successfully!', 'success');
+        } else {
+            await onAddSeriesPack(pack);
+            addToast('Series pack saved successfully!', 'success');
+        }
+    };
+
+    const handleSaveRule = async (rule: Omit<SafetyRule, 'id'>) => {
+        // Errors propagate to the modal, which keeps itself open so nothing typed is lost.
+        if (editingRule && editingRule !== 'new') {
+            await onUpdateSafetyRule({ ...rule, id: editingRule.id });
+            addToast('Safety rule updated successfully!', 'success');
+        } else {
+            await onAddSafetyRule(rule);
+            addToast('Safety rule saved successfully!', 'success');
+        }
+    };
+
+    const handleSaveWatermark = async (settings: WatermarkSettings) => {
+        try {
+            await onUpdateWatermarkSettings(settings);
+            addToast('Watermark settings saved!', 'success');
+        } catch (error) {
+            console.error("Failed to save watermark settings:", error);
+            addToast('Failed to save watermark settings.', 'error');
+        }
+    };
+
     const motionProps = {
         initial: { opacity: 0, y: 20 },
         animate: { opacity: 1, y: 0 },
@@ -407,6 +833,7 @@ const AdminPage: React.FC<AdminPageProps> = ({
                             <motion.div key="idle" {...motionProps} className="flex flex-col sm:flex-row items-center justify-center gap-8">
                                 <button onClick={() => setView('addingImage')} className={primaryButtonClasses}>+ Add New Image</button>
                                 <button onClick={() => setView('addingVideo')} className={primaryButtonClasses}>+ Add New Video</button>
+                                <button onClick={() => setEditingPack('new')} className={primaryButtonClasses}>+ Add Series Pack</button>
                             </motion.div>
                         )}
                         {view === 'addingImage' && (
@@ -422,12 +849,20 @@ const AdminPage: React.FC<AdminPageProps> = ({
                                                      <p className="text-xs text-neutral-500 mt-1">For best results, use a direct image URL (ending in .jpg, .png) or a Google Drive link. Preview auto-updates when you click away.</p>
                                                     <div className="relative"><div className="absolute inset-0 flex items-center"><div className="w-full border-t border-neutral-700" /></div><div className="relative flex justify-center"><span className="bg-neutral-900 px-2 text-sm text-neutral-500">OR</span></div></div>
                                                     <button onClick={() => newImageFileInputRef.current?.click()} className={`${secondaryButtonClasses} w-full`}>Upload from Computer</button>
+                                                    {newImageSummary && <p className="text-xs text-neutral-500">{newImageSummary}</p>}
                                                 </div>
                                             </div>
                                             <div>
-                                                <label className="font-permanent-marker text-neutral-300 text-lg">Prompt</label>
+                                                <div className="flex items-center justify-between">
+                                                    <label className="font-permanent-marker text-neutral-300 text-lg">Prompt</label>
+                                                    <button onClick={handleDescribeNewImage} disabled={!newImagePreview || isDescribing} className={`${smallButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none`}>
+                                                        {isDescribing ? 'Describing...' : 'Describe This Image'}
+                                                    </button>
+                                                </div>
                                                 <textarea value={newImagePrompt} onChange={(e) => setNewImagePrompt(e.target.value)} className="w-full h-24 p-3 mt-2 bg-neutral-800 border-2 border-neutral-700 rounded-md" placeholder="A majestic dragon..." />
+                                                <PromptTemplateHint prompt={newImagePrompt} />
                                             </div>
+                                            <ReferenceImageField preview={newReferencePreview} onChange={(file, preview) => { setNewReferenceFile(file); setNewReferencePreview(preview); }} />
                                             <div className="flex gap-4">
                                                 <button onClick={handleSaveNewImage} className={`${primaryButtonClasses} text-lg`} disabled={!newImagePreview || !newImagePrompt.trim() || isSaving}>{isSaving ? 'Saving...' : 'Save'}</button>
                                                 <button onClick={() => setView('idle')} className={secondaryButtonClasses}>Cancel</button>
@@ -472,6 +907,11 @@ const AdminPage: React.FC<AdminPageProps> = ({
                     </AnimatePresence>
                 </div>
                 
+                <section className="mb-16">
+                    <h3 className="text-4xl font-permanent-marker text-yellow-400 mb-6 border-b-2 border-neutral-800 pb-2">Usage</h3>
+                    <UsageSummary />
+                </section>
+
                 <section className="mb-16">
                     <h3 className="text-4xl font-permanent-marker text-yellow-400 mb-6 border-b-2 border-neutral-800 pb-2">Current Gallery</h3>
                     <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
@@ -489,6 +929,7 @@ const AdminPage: React.FC<AdminPageProps> = ({
                                     <img src={item.url} alt={item.prompt} className="w-full h-full object-cover" />
                                     <div className="absolute inset-0 bg-black/70 p-2 flex-col justify-between text-white opacity-0 group-hover:opacity-100 transition-opacity flex">
                                         <p className="text-xs font-semibold line-clamp-4">"{item.prompt}"</p>
+                                        {item.referenceImageUrl && <p className="text-[11px] text-yellow-300">Has a style reference</p>}
                                         <div className="flex justify-end gap-2">
                                             <button onClick={() => setEditingImage(item)} className={smallButtonClasses}>Edit</button>
                                             <button onClick={() => handleDeleteRequest('image', item.id)} className={smallDangerButtonClasses}>Delete</button>
@@ -500,6 +941,73 @@ const AdminPage: React.FC<AdminPageProps> = ({
                     </div>
                 </section>
                 
+                <section className="mb-16">
+                    <h3 className="text-4xl font-permanent-marker text-yellow-400 mb-6 border-b-2 border-neutral-800 pb-2">Series Packs</h3>
+                    {seriesPacks.length === 0 && (
+                        <p className="text-neutral-500">No custom packs yet. The built-in Time Travel pack is always available on the Home page.</p>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                        <AnimatePresence>
+                            {seriesPacks.map(pack => (
+                                <motion.div
+                                    key={pack.id}
+                                    layout
+                                    initial={{ opacity: 0, scale: 0.8 }}
+                                    animate={{ opacity: 1, scale: 1 }}
+                                    exit={{ opacity: 0, scale: 0.8, transition: { duration: 0.2 } }}
+                                    transition={{ type: 'spring', duration: 0.5 }}
+                                    className="rounded-lg bg-neutral-800 border border-neutral-700 p-4 flex flex-col gap-2"
+                                >
+                                    <p className="font-permanent-marker text-xl text-neutral-100">{pack.name}</p>
+                                    <p className="text-xs text-neutral-400">{pack.itemLabels.length} items: {pack.itemLabels.join(', ')}</p>
+                                    <p className="text-sm text-neutral-400 line-clamp-3">"{pack.promptTemplate}"</p>
+                                    <div className="flex justify-end gap-2 mt-auto">
+                                        <button onClick={() => setEditingPack(pack)} className={smallButtonClasses}>Edit</button>
+                                        <button onClick={() => handleDeleteRequest('pack', pack.id)} className={smallDangerButtonClasses}>Delete</button>
+                                    </div>
+                                </motion.div>
+                            ))}
+                        </AnimatePresence>
+                    </div>
+                </section>
+
+                <section className="mb-16">
+                    <div className="flex items-center justify-between mb-6 border-b-2 border-neutral-800 pb-2">
+                        <h3 className="text-4xl font-permanent-marker text-yellow-400">Safety Rules</h3>
+                        <button onClick={() => setEditingRule('new')} className={smallButtonClasses}>+ Add Rule</button>
+                    </div>
+                    <p className="text-neutral-500 mb-6">Prompts that match a rule are stopped before they reach the model, and users see the reason and a suggested rewrite.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                        <AnimatePresence>
+                            {safetyRules.map(rule => (
+                                <motion.div
+                                    key={rule.id}
+                                    layout
+                                    initial={{ opacity: 0, scale: 0.8 }}
+                                    animate={{ opacity: 1, scale: 1 }}
+                                    exit={{ opacity: 0, scale: 0.8, transition: { duration: 0.2 } }}
+                                    transition={{ type: 'spring', duration: 0.5 }}
+                                    className="rounded-lg bg-neutral-800 border border-neutral-700 p-4 flex flex-col gap-2"
+                                >
+                                    <p className="text-neutral-100">{rule.reason}</p>
+                                    <p className="text-xs text-neutral-400 font-mono line-clamp-3">{rule.kind === 'terms' ? 'Terms' : 'Regex'}: {rule.patterns.join(', ')}</p>
+                                    {rule.replacement && <p className="text-xs text-neutral-400">Suggests "{rule.replacement}" instead.</p>}
+                                    <div className="flex justify-end gap-2 mt-auto">
+                                        <button onClick={() => setEditingRule(rule)} className={smallButtonClasses}>Edit</button>
+                                        <button onClick={() => handleDeleteRequest('rule', rule.id)} className={smallDangerButtonClasses}>Delete</button>
+                                    </div>
+                                </motion.div>
+                            ))}
+                        </AnimatePresence>
+                    </div>
+                </section>
+
+                <section className="mb-16">
+                    <h3 className="text-4xl font-permanent-marker text-yellow-400 mb-6 border-b-2 border-neutral-800 pb-2">Download Watermark</h3>
+                    <p className="text-neutral-500 mb-6">Every download carries its prompt, model and an AI-generated label in its metadata. A watermark also marks it visibly.</p>
+                    <WatermarkSettingsForm settings={watermarkSettings} onSave={handleSaveWatermark} />
+                </section>
+
                 <section>
                     <h3 className="text-4xl font-permanent-marker text-yellow-400 mb-6 border-b-2 border-neutral-800 pb-2">Current Videos</h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -537,6 +1045,8 @@ const AdminPage: React.FC<AdminPageProps> = ({
             <AnimatePresence>
                 {editingImage && <EditImageModal item={editingImage} onSave={handleUpdateImage} onClose={() => setEditingImage(null)} />}
                 {editingVideo && <EditVideoModal item={editingVideo} onSave={handleUpdateVideo} onClose={() => setEditingVideo(null)} />}
+                {editingPack && <SeriesPackModal pack={editingPack === 'new' ? null : editingPack} onSave={handleSavePack} onClose={() => setEditingPack(null)} />}
+                {editingRule && <SafetyRuleModal rule={editingRule === 'new' ? null : editingRule} onSave={handleSaveRule} onClose={() => setEditingRule(null)} />}
                 {itemToDelete && <ConfirmationModal onConfirm={handleConfirmDelete} onCancel={() => setItemToDelete(null)} />}
             </AnimatePresence>
         </div>
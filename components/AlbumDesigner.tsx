@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import {
+    createAlbumPage, getAlbumTemplate, ALBUM_TEMPLATES, DEFAULT_ALBUM_SUBTITLE, DEFAULT_ALBUM_TITLE,
+    type AlbumTemplateId, type AlbumTheme,
+} from '../lib/albumUtils';
+import { createAlbumPdf } from '../lib/albumPdf';
+import type { GroupPhoto } from '../lib/groupPhotos';
+
+interface AlbumDesignerProps {
+    /** Captions mapped to image URLs, in page order. */
+    imageData: Record<string, string>;
+    people?: GroupPhoto[];
+    /** The title the album starts with, e.g. the series name. */
+    initialTitle?: string;
+    onClose: () => void;
+}
+
+// The preview is drawn at about this width, which keeps re-rendering on every change quick.
+const PREVIEW_WIDTH = 600;
+// Typing in the title shouldn't redraw the page on every keystroke.
+const PREVIEW_DELAY_MS = 250;
+
+const THEME_FIELDS: { key: keyof AlbumTheme; label: string }[] = [
+    { key: 'background', label: 'Page' },
+    { key: 'frame', label: 'Frames' },
+    { key: 'caption', label: 'Captions' },
+    { key: 'title', label: 'Title' },
+    { key: 'subtitle', label: 'Subtitle' },
+    { key: 'accent', label: 'Accent' },
+];
+
+const optionButtonClasses = "font-permanent-marker text-sm rounded-sm py-1 px-3 border transition-colors";
+const selectedOptionClasses = "bg-yellow-400 text-black border-yellow-400";
+const unselectedOptionClasses = "text-neutral-300 border-neutral-600 hover:bg-white hover:text-black";
+
+const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+/**
+ * Lets the user choose an album template, title, colors and layout with a live preview,
+ * then download the page, or a printable PDF with it as the cover.
+ */
+const AlbumDesigner: React.FC<AlbumDesignerProps> = ({ imageData, people, initialTitle, onClose }) => {
+    const [templateId, setTemplateId] = useState<AlbumTemplateId>('classic-grid');
+    const [title, setTitle] = useState(initialTitle ?? DEFAULT_ALBUM_TITLE);
+    const [subtitle, setSubtitle] = useState(DEFAULT_ALBUM_SUBTITLE);
+    // Only colors the user changed; the rest follow the template.
+    const [themeOverrides, setThemeOverrides] = useState<Partial<AlbumTheme>>({});
+    const [seed, setSeed] = useState(randomSeed);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const [downloading, setDownloading] = useState<'image' | 'pdf' | null>(null);
+
+    const template = getAlbumTemplate(templateId);
+    const theme = { ...template.theme, ...themeOverrides };
+
+    useEffect(() => {
+        let isActive = true;
+        const timer = setTimeout(() => {
+            createAlbumPage(imageData, { template: templateId, title, subtitle, theme: themeOverrides, seed, people, scale: PREVIEW_WIDTH / template.width })
+                .then(url => {
+                    if (!isActive) return;
+                    setPreviewUrl(url);
+                    setPreviewError(null);
+                })
+                .catch(error => {
+                    if (!isActive) return;
+                    console.error("Failed to draw the album preview:", error);
+                    setPreviewError("The preview couldn't be drawn.");
+                });
+        }, PREVIEW_DELAY_MS);
+        return () => {
+            isActive = false;
+            clearTimeout(timer);
+        };
+    }, [imageData, people, templateId, title, subtitle, themeOverrides, seed, template.width]);
+
+    const handleTemplateChange = (id: AlbumTemplateId) => {
+        setTemplateId(id);
+        // Each template has its own palette, so colors picked for another one rarely fit.
+        setThemeOverrides({});
+    };
+
+    const clickDownloadLink = (href: string, fileName: string) => {
+        const link = document.createElement('a');
+        link.href = href;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    const handleDownload = async () => {
+        setDownloading('image');
+        try {
+            const albumDataUrl = await createAlbumPage(imageData, { template: templateId, title, subtitle, theme: themeOverrides, seed, people });
+            clickDownloadLink(albumDataUrl, `trendsnap-album-${templateId}.jpg`);
+        } catch (error) {
+            console.error("Failed to create or download album:", error);
+            alert("Sorry, there was an error creating your album. Please try again.");
+        } finally {
+            setDownloading(null);
+        }
+    };
+
+    const handleDownloadPdf = async () => {
+        setDownloading('pdf');
+        try {
+            const pdf = await createAlbumPdf(imageData, { template: templateId, title, subtitle, theme: themeOverrides, seed, people });
+            const url = URL.createObjectURL(pdf);
+            clickDownloadLink(url, 'trendsnap-album.pdf');
+            // The click starts the download synchronously, so the URL can go once it returns.
+            setTimeout(() => URL.revokeObjectURL(url), 0);
+        } catch (error) {
+            console.error("Failed to create or download the PDF album:", error);
+            alert("Sorry, there was an error creating your PDF album. Please try again.");
+        } finally {
+            setDownloading(null);
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+        >
+            <motion.div
+                initial={{ y: 50, scale: 0.95 }}
+                animate={{ y: 0, scale: 1 }}
+                role="dialog"
+                aria-modal="true"
+                aria-label="Design your album"
+                className="bg-neutral-900 border border-neutral-700 rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-center bg-neutral-950 rounded-md p-4 min-h-[300px]">
+                    {previewError ? (
+                        <p className="text-sm text-red-400">{previewError}</p>
+                    ) : previewUrl ? (
+                        <img src={previewUrl} alt="Album preview" className="max-w-full max-h-[70vh] shadow-lg" />
+                    ) : (
+                        <p className="font-permanent-marker text-neutral-500">Drawing preview...</p>
+                    )}
+                </div>
+
+                <div className="space-y-5">
+                    <h3 className="text-3xl font-permanent-marker text-yellow-400">Design Your Album</h3>
+
+                    <div>
+                        <p className="font-permanent-marker text-neutral-300 mb-2">Template</p>
+                        <div className="flex flex-wrap gap-2">
+                            {ALBUM_TEMPLATES.map(t => (
+                                <button key={t.id} onClick={() => handleTemplateChange(t.id)} className={cn(optionButtonClasses, templateId === t.id ? selectedOptionClasses : unselectedOptionClasses)}>
+                                    {t.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-3">
+                        <label className="block">
+                            <span className="font-permanent-marker text-neutral-300">Title</span>
+                            <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className="w-full p-2 mt-1 bg-neutral-800 border-2 border-neutral-700 rounded-md text-neutral-200" />
+                        </label>
+                        <label className="block">
+                            <span className="font-permanent-marker text-neutral-300">Subtitle</span>
+                            <input type="text" value={subtitle} onChange={(e) => setSubtitle(e.target.value)} className="w-full p-2 mt-1 bg-neutral-800 border-2 border-neutral-700 rounded-md text-neutral-200" />
+                        </label>
+                    </div>
+
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <p className="font-permanent-marker text-neutral-300">Colors</p>
+                            {Object.keys(themeOverrides).length > 0 && (
+                                <button onClick={() => setThemeOverrides({})} className="text-xs text-neutral-400 underline hover:text-white">Reset</button>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                            {THEME_FIELDS.map(({ key, label }) => (
+                                <label key={key} className="flex items-center gap-2 text-sm text-neutral-400">
+                                    <input
+                                        type="color"
+                                        value={theme[key]}
+                                        onChange={(e) => setThemeOverrides(prev => ({ ...prev, [key]: e.target.value }))}
+                                        className="w-8 h-8 bg-transparent border border-neutral-600 rounded-sm cursor-pointer"
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm text-neutral-500">Layout #{seed}</p>
+                        <button onClick={() => setSeed(randomSeed())} className={cn(optionButtonClasses, unselectedOptionClasses)}>Shuffle Layout</button>
+                    </div>
+
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button onClick={onClose} className={cn(optionButtonClasses, unselectedOptionClasses)}>Close</button>
+                        <button onClick={handleDownloadPdf} disabled={downloading !== null} className={cn(optionButtonClasses, unselectedOptionClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}>
+                            {downloading === 'pdf' ? 'Creating PDF...' : 'Download PDF'}
+                        </button>
+                        <button onClick={handleDownload} disabled={downloading !== null} className={cn(optionButtonClasses, selectedOptionClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}>
+                            {downloading === 'image' ? 'Creating Album...' : 'Download Album'}
+                        </button>
+                    </div>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default AlbumDesigner;
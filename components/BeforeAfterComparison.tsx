@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import { createComparisonImage, COMPARISON_LAYOUTS, type ComparisonLayout } from '../lib/comparison';
+import { downloadImage, type ImageOrigin } from '../services/downloadService';
+
+interface BeforeAfterComparisonProps {
+    beforeUrl: string;
+    afterUrl: string;
+    /** The prompt and model that made the result, saved in the composite's metadata. */
+    origin: ImageOrigin;
+    /** The composite's file name, without the layout or extension. */
+    baseName: string;
+    className?: string;
+}
+
+// Arrow keys move the divider this many percent, or the large step with Shift.
+const KEY_STEP = 2;
+const LARGE_KEY_STEP = 10;
+
+const optionButtonClasses = "font-permanent-marker text-sm rounded-sm py-1 px-3 border transition-colors";
+const selectedOptionClasses = "bg-yellow-400 text-black border-yellow-400";
+const unselectedOptionClasses = "text-neutral-300 border-neutral-600 hover:bg-white hover:text-black";
+const labelClasses = "absolute top-2 font-permanent-marker text-sm text-white bg-black/60 rounded-sm py-0.5 px-2 pointer-events-none";
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+/**
+ * Shows a source photo and its result on top of each other, split by a divider that can be
+ * dragged or moved with the keyboard. Holding "Hold for Before" shows the whole source photo.
+ * Below it, the pair can be downloaded as a side-by-side or diagonal split composite.
+ */
+const BeforeAfterComparison: React.FC<BeforeAfterComparisonProps> = ({ beforeUrl, afterUrl, origin, baseName, className }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const isDraggingRef = useRef(false);
+    // How much of the before photo shows, as a percentage of the width from the left.
+    const [position, setPosition] = useState(50);
+    const [isHolding, setIsHolding] = useState(false);
+    const [layout, setLayout] = useState<ComparisonLayout>('side-by-side');
+    const [isExporting, setIsExporting] = useState(false);
+
+    const shown = isHolding ? 100 : position;
+
+    // The button's own handlers miss releases that happen elsewhere, e.g. a key let go after
+    // focus moved on or the window lost focus, so any release ends the hold while it lasts.
+    useEffect(() => {
+        if (!isHolding) return;
+        const release = () => setIsHolding(false);
+        const releaseKey = (e: KeyboardEvent) => {
+            if (e.key === ' ' || e.key === 'Enter') release();
+        };
+        window.addEventListener('pointerup', release);
+        window.addEventListener('pointercancel', release);
+        window.addEventListener('keyup', releaseKey);
+        window.addEventListener('blur', release);
+        return () => {
+            window.removeEventListener('pointerup', release);
+            window.removeEventListener('pointercancel', release);
+            window.removeEventListener('keyup', releaseKey);
+            window.removeEventListener('blur', release);
+        };
+    }, [isHolding]);
+
+    const moveTo = (clientX: number) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return;
+        setPosition(clamp((clientX - rect.left) / rect.width * 100));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        isDraggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        moveTo(e.clientX);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (isDraggingRef.current) moveTo(e.clientX);
+    };
+
+    const handlePointerUp = () => {
+        isDraggingRef.current = false;
+    };
+
+    const handleDividerKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const step = e.shiftKey ? LARGE_KEY_STEP : KEY_STEP;
+        const moves: Record<string, (value: number) => number> = {
+            ArrowLeft: value => value - step,
+            ArrowDown: value => value - step,
+            ArrowRight: value => value + step,
+            ArrowUp: value => value + step,
+            PageDown: value => value - LARGE_KEY_STEP,
+            PageUp: value => value + LARGE_KEY_STEP,
+            Home: () => 0,
+            End: () => 100,
+        };
+        const move = moves[e.key];
+        if (!move) return;
+        e.preventDefault();
+        setPosition(prev => clamp(move(prev)));
+    };
+
+    const handleHoldKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+        if (e.key !== ' ' && e.key !== 'Enter') return;
+        e.preventDefault();
+        setIsHolding(true);
+    };
+
+    const handleHoldKeyUp = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+        if (e.key !== ' ' && e.key !== 'Enter') return;
+        setIsHolding(false);
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const composite = await createComparisonImage(beforeUrl, afterUrl, layout);
+            await downloadImage(composite, origin, `${baseName}-${layout}`);
+        } catch (error) {
+            console.error("Failed to create the comparison image:", error);
+            alert("Sorry, there was an error creating your comparison. Please try again.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className={cn("flex flex-col items-center gap-4 w-full max-w-md", className)}>
+            <div
+                ref={containerRef}
+                className="relative w-full overflow-hidden rounded-md bg-neutral-950 cursor-ew-resize select-none touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                <img src={afterUrl} alt="After" draggable={false} className="block w-full h-auto" />
+                <img
+                    src={beforeUrl}
+                    alt="Before"
+                    draggable={false}
+                    className="absolute inset-0 w-full h-full object-cover"
+                    style={{ clipPath: `inset(0 ${100 - shown}% 0 0)` }}
+                />
+                {shown > 0 && <span className={cn(labelClasses, "left-2")}>Before</span>}
+                {shown < 100 && <span className={cn(labelClasses, "right-2")}>After</span>}
+                {!isHolding && (
+                    <div
+                        role="slider"
+                        tabIndex={0}
+                        aria-label="Comparison divider"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={Math.round(position)}
+                        aria-valuetext={`${Math.round(position)}% before`}
+                        onKeyDown={handleDividerKeyDown}
+                        className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)] focus:outline-none focus-visible:bg-yellow-400"
+                        style={{ left: `${position}%` }}
+                    >
+                        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-black flex items-center justify-center text-xs shadow-md">
+                            ◀▶
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <button
+                    onPointerDown={() => setIsHolding(true)}
+                    onPointerUp={() => setIsHolding(false)}
+                    onPointerLeave={() => setIsHolding(false)}
+                    onPointerCancel={() => setIsHolding(false)}
+                    onKeyDown={handleHoldKeyDown}
+                    onKeyUp={handleHoldKeyUp}
+                    onBlur={() => setIsHolding(false)}
+                    aria-pressed={isHolding}
+                    className={cn(optionButtonClasses, isHolding ? selectedOptionClasses : unselectedOptionClasses)}
+                >
+                    Hold for Before
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                {COMPARISON_LAYOUTS.map(l => (
+                    <button key={l.value} onClick={() => setLayout(l.value)} className={cn(optionButtonClasses, layout === l.value ? selectedOptionClasses : unselectedOptionClasses)}>
+                        {l.label}
+                    </button>
+                ))}
+                <button onClick={handleExport} disabled={isExporting} className={cn(optionButtonClasses, selectedOptionClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}>
+                    {isExporting ? 'Creating...' : 'Download Comparison'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default BeforeAfterComparison;
@@ -6,13 +6,15 @@ import React, { useState } from 'react';
 import { motion, type Variants } from 'framer-motion';
 import { Card3D } from './ui/Card3D';
 import type { CollectionItem } from './AdminPage';
+import { hasTemplateVariables } from '../lib/promptTemplates';
 
 // This data is now managed in App.tsx and passed as props
 // const styleCategories = [ ... ];
 
 interface CollectionPageProps {
     collectionItems: CollectionItem[];
-    onStyleSelect: (prompt: string) => void;
+    /** Opens the Create page with this style's prompt and, if it has one, its style reference. */
+    onStyleSelect: (prompt: string, referenceImageUrl?: string) => void;
 }
 
 const containerVariants: Variants = {
@@ -77,7 +79,7 @@ const CollectionPage: React.FC<CollectionPageProps> = ({ collectionItems, onStyl
                                 <Card3D 
                                     key={image.id} 
                                     className="aspect-square group cursor-pointer"
-                                    onClick={() => onStyleSelect(image.prompt)}
+                                    onClick={() => onStyleSelect(image.prompt, image.referenceImageUrl)}
                                 >
                                     <img
                                         src={image.url}
@@ -85,6 +87,20 @@ const CollectionPage: React.FC<CollectionPageProps> = ({ collectionItems, onStyl
                                         className="w-full h-full object-cover"
                                         loading="lazy"
                                     />
+                                    {hasTemplateVariables(image.prompt) && (
+                                        <span className="absolute top-3 left-3 z-10 font-permanent-marker text-xs text-black bg-yellow-400 py-1 px-2 rounded-sm pointer-events-none">
+                                            Customizable
+                                        </span>
+                                    )}
+                                    {image.referenceImageUrl && (
+                                        <img
+                                            src={image.referenceImageUrl}
+                                            alt="Style reference"
+                                            title="This style comes with a reference image"
+                                            className="absolute bottom-3 right-3 z-10 w-14 h-14 object-cover rounded-sm border-2 border-white shadow-lg pointer-events-none"
+                                            loading="lazy"
+                                        />
+                                    )}
                                     <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent p-4 flex flex-col justify-between text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                                         <div className="flex justify-end">
                                             <button
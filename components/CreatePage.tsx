@@ -2,11 +2,28 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
+import React, { useState, ChangeEvent, useRef, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { generateImageFromPrompt, GeminiError, GeminiErrorType } from '../services/geminiService';
+import { enhancePrompt, generateGroupImage, generateImageFromPrompt, screenGenerationPrompt, GeminiErrorType } from '../services/geminiService';
+import { enqueueGeneration, type GenerationJobPriority } from '../services/generationQueue';
 import PolaroidCard from './PolaroidCard';
+import BeforeAfterComparison from './BeforeAfterComparison';
 import { cn } from '../lib/utils';
+import { getFriendlyError } from '../lib/errorMessages';
+import { describePreprocessedImage, preprocessImageFile, ImagePreprocessError } from '../lib/imagePreprocessing';
+import { fetchImageAsDataUrl } from '../lib/imageUtils';
+import { readProvenance } from '../lib/imageMetadata';
+import { diffWords } from '../lib/textDiff';
+import { DEFAULT_SAFETY_CHAIN, createGroupSafetyChain } from '../lib/safetyRewrites';
+import { isPromptTemplate, parsePromptTemplate, renderPromptTemplate, PromptTemplateError } from '../lib/promptTemplates';
+import { addVersion, createVersionTree, getCurrentVersion, getVersionPrompt, joinVersionPrompts, selectVersion, type VersionKind, type VersionTree } from '../lib/versionTree';
+import { getGroupSubject, validateGroupPhotos, MAX_GROUP_PHOTOS, MIN_GROUP_PHOTOS, type GroupPhoto } from '../lib/groupPhotos';
+import VersionHistory from './VersionHistory';
+import GroupPhotoPicker from './GroupPhotoPicker';
+import { saveCreation } from '../lib/creations';
+import { downloadImage, prepareImageForSharing, type ImageOrigin } from '../services/downloadService';
+import type { ExportOptions } from '../lib/exportPresets';
+import type { ScreeningResult } from '../lib/promptScreening';
 
 const primaryButtonClasses = "font-permanent-marker text-xl text-center text-black bg-yellow-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:hover:bg-yellow-400";
 const secondaryButtonClasses = "font-permanent-marker text-xl text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-black";
@@ -20,19 +37,184 @@ const INSPIRING_PROMPTS = [
     "Illustrate this person as the main character in a children's storybook, with a soft, whimsical, and friendly art style."
 ];
 
-type ImageGenerationStatus = 'idle' | 'pending' | 'done' | 'error';
+const MAX_VARIANTS = 4;
+
+/** A follow-up generation from an existing version, kept so a failed step can be retried. */
+interface RefineStep {
+    parentId: number;
+    kind: Exclude<VersionKind, 'generate'>;
+    prompt: string;
+    /** Only set for area edits made with the mask editor. */
+    maskDataUrl?: string;
+    /** The chain of prompts that produced the parent, so the result is saved with its whole recipe. */
+    parentPrompt?: string;
+}
+
+interface GeneratedVariant {
+    status: 'pending' | 'done' | 'error';
+    url?: string;
+    error?: string;
+    retryAt?: number;
+    /** Set when a safety rewrite was needed to produce the image. */
+    notice?: string;
+    /** Every version of this variant. `url` always mirrors the current version. */
+    history?: VersionTree;
+    /** Set while (or after failing at) refining or editing this variant. */
+    step?: RefineStep;
+}
+
+/** Refined variants would lose their history, so only untouched ones can be regenerated. */
+const canRegenerate = (variant: GeneratedVariant) =>
+    variant.status === 'done' && !!variant.history && Object.keys(variant.history.versions).length === 1;
 
 interface CreatePageProps {
     initialPrompt?: string;
+    /** Set when `initialPrompt` is a Collection template rather than a saved, already rendered prompt. */
+    isInitialPromptTemplate?: boolean;
+    /** The hosted style reference of a Collection item, loaded into the reference slot. */
+    initialStyleReference?: string;
 }
 
-const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
+// Shows what "Enhance" changed: removed words struck through, added words highlighted.
+const PromptDiff: React.FC<{ before: string, after: string }> = ({ before, after }) => (
+    <p className="text-sm leading-relaxed text-neutral-300">
+        {diffWords(before, after).map((segment, index) => (
+            <span
+                key={index}
+                className={cn(
+                    segment.type === 'added' && "bg-green-500/20 text-green-300",
+                    segment.type === 'removed' && "bg-red-500/20 text-red-300 line-through",
+                )}
+            >
+                {segment.text}
+            </span>
+        ))}
+    </p>
+);
+
+// An optional example image whose look, but not content, every new variant copies.
+const StyleReferenceSlot: React.FC<{ imageUrl: string | null, onChange: (imageUrl: string | null) => void, disabled?: boolean }> = ({ imageUrl, onChange, disabled }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const image = await preprocessImageFile(file);
+            onChange(image.dataUrl);
+        } catch (error) {
+            console.error("Failed to process style reference:", error);
+            alert(error instanceof ImagePreprocessError ? error.message : "Please upload a valid image file (PNG, JPG, WEBP).");
+        }
+    };
+
+    return (
+        <div className="w-full flex items-center gap-4 p-3 bg-neutral-900 border-2 border-neutral-700 rounded-md">
+            <input ref={inputRef} type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleFile} />
+            {imageUrl ? (
+                <img src={imageUrl} alt="Style reference" className="w-16 h-16 object-cover rounded-sm shrink-0" />
+            ) : (
+                <div className="w-16 h-16 rounded-sm border-2 border-dashed border-neutral-700 shrink-0" aria-hidden="true" />
+            )}
+            <div className="flex-1 min-w-0">
+                <p className="font-permanent-marker text-neutral-300">Style Reference <span className="text-sm text-neutral-500">(optional)</span></p>
+                <p className="text-xs text-neutral-500">Have a picture of the look you want? Add it and the result will copy its style, not its content.</p>
+            </div>
+            <div className="flex flex-col gap-1">
+                <button
+                    onClick={() => inputRef.current?.click()}
+                    disabled={disabled}
+                    className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors disabled:opacity-50"
+                >
+                    {imageUrl ? 'Replace' : 'Add'}
+                </button>
+                {imageUrl && (
+                    <button
+                        onClick={() => onChange(null)}
+                        disabled={disabled}
+                        className="font-permanent-marker text-sm text-neutral-400 hover:text-white transition-colors disabled:opacity-50"
+                    >
+                        Remove
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '', isInitialPromptTemplate = false, initialStyleReference }) => {
     const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+    const [uploadSummary, setUploadSummary] = useState<string | null>(null);
+    // Set when the uploaded photo was downloaded from TrendSnap and its prompt was filled back in.
+    const [hasRestoredPrompt, setHasRestoredPrompt] = useState(false);
+    // 'group' puts the people from several labeled photos into one scene.
+    const [photoMode, setPhotoMode] = useState<'single' | 'group'>('single');
+    const [groupPhotos, setGroupPhotos] = useState<GroupPhoto[]>([]);
+    // A data URL, so it can be sent to the provider as is.
+    const [styleReference, setStyleReference] = useState<string | null>(null);
+    const [styleReferenceError, setStyleReferenceError] = useState<string | null>(null);
+    const [isEditingUpload, setIsEditingUpload] = useState(false);
+    const [uploadEditError, setUploadEditError] = useState<string | null>(null);
     const [prompt, setPrompt] = useState(initialPrompt);
-    const [generatedResult, setGeneratedResult] = useState<{ status: ImageGenerationStatus; url?: string; error?: string; }>({ status: 'idle' });
-    const [isLoading, setIsLoading] = useState(false);
+    // Values for the {placeholders} of a template prompt, keyed by variable name. Blank means "use the default".
+    const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+    const [templateError, setTemplateError] = useState<string | null>(null);
+    // Set when the prompt broke a safety rule; nothing was sent.
+    const [screening, setScreening] = useState<ScreeningResult | null>(null);
+    // An "Enhance" suggestion waiting for the user to accept or reject it.
+    const [enhancement, setEnhancement] = useState<{ original: string; enhanced: string } | null>(null);
+    const [isEnhancing, setIsEnhancing] = useState(false);
+    const [enhanceError, setEnhanceError] = useState<string | null>(null);
+    const enhanceControllerRef = useRef<AbortController | null>(null);
+    // The rendered prompt of the last generation, reused when retrying a variant.
+    const [submittedPrompt, setSubmittedPrompt] = useState('');
+    const [variantCount, setVariantCount] = useState(1);
+    const [variants, setVariants] = useState<GeneratedVariant[]>([]);
+    const [selectedVariant, setSelectedVariant] = useState<number | null>(null);
+    const [refinePrompt, setRefinePrompt] = useState('');
     const [isDragging, setIsDragging] = useState(false);
+    const [isComparing, setIsComparing] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // One controller per in-flight variant. Results from a controller that is no
+    // longer in this map (after "Start Over" or unmounting) are discarded.
+    const controllersRef = useRef<Record<number, AbortController>>({});
+    const uploadEditControllerRef = useRef<AbortController | null>(null);
+    const isLoading = isEditingUpload || variants.some(variant => variant.status === 'pending');
+    const groupError = validateGroupPhotos(groupPhotos);
+    // What a new generation starts from: the uploaded photo, or the whole group once it is valid.
+    const generationSource: string | GroupPhoto[] | null = photoMode === 'group' ? (groupError ? null : groupPhotos) : uploadedImage;
+
+    // A Collection template is always rendered as one, so its mistakes are reported.
+    // Anything else is only a template if its placeholders are valid; otherwise it is sent as written.
+    const isTemplate = (isInitialPromptTemplate && initialPrompt !== '' && prompt === initialPrompt) || isPromptTemplate(prompt);
+
+    const templateVariables = useMemo(() => {
+        if (!isTemplate) return [];
+        try {
+            return parsePromptTemplate(prompt).variables;
+        } catch {
+            // Not a valid template; the error is reported when the user hits Generate.
+            return [];
+        }
+    }, [prompt, isTemplate]);
+
+    // Stop any in-flight generation when the user leaves the page.
+    useEffect(() => {
+        return () => {
+            abortAllGenerations();
+            enhanceControllerRef.current?.abort();
+        };
+    }, []);
+
+    const abortAllGenerations = () => {
+        const controllers = controllersRef.current;
+        controllersRef.current = {};
+        Object.values(controllers).forEach(controller => controller.abort());
+        uploadEditControllerRef.current?.abort();
+        uploadEditControllerRef.current = null;
+        setIsEditingUpload(false);
+    };
 
     useEffect(() => {
         // If an initial prompt is passed from another page, update the state
@@ -41,17 +223,40 @@ const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
         }
     }, [initialPrompt]);
 
-    const processFile = (file: File) => {
-        if (file && (file.type === "image/png" || file.type === "image/jpeg" || file.type === "image/webp")) {
-             const reader = new FileReader();
-            reader.onloadend = () => {
-                setUploadedImage(reader.result as string);
-                setGeneratedResult({ status: 'idle' });
-            };
-            reader.readAsDataURL(file);
-        } else {
-            console.error("Invalid file type.");
-            alert("Please upload a valid image file (PNG, JPG, WEBP).");
+    useEffect(() => {
+        if (!initialStyleReference) return;
+        let isActive = true;
+        setStyleReferenceError(null);
+        fetchImageAsDataUrl(initialStyleReference)
+            .then(dataUrl => {
+                if (isActive) setStyleReference(dataUrl);
+            })
+            .catch(error => {
+                console.error("Failed to load the style reference:", error);
+                if (isActive) setStyleReferenceError("This look's style reference couldn't be loaded. You can add one yourself.");
+            });
+        return () => { isActive = false; };
+    }, [initialStyleReference]);
+
+    const processFile = async (file: File) => {
+        try {
+            // Preprocessing re-encodes the photo and drops its metadata, so provenance is read from the original file.
+            const [image, provenance] = await Promise.all([preprocessImageFile(file), readProvenance(file)]);
+            setUploadedImage(image.dataUrl);
+            setUploadSummary(describePreprocessedImage(image));
+            setHasRestoredPrompt(!!provenance?.prompt);
+            if (provenance?.prompt) {
+                setPrompt(provenance.prompt);
+                setEnhancement(null);
+                setScreening(null);
+            }
+            setUploadEditError(null);
+            abortAllGenerations();
+            setVariants([]);
+            setSelectedVariant(null);
+        } catch (error) {
+            console.error("Failed to process image:", error);
+            alert(error instanceof ImagePreprocessError ? error.message : "Please upload a valid image file (PNG, JPG, WEBP).");
         }
     };
 
@@ -61,7 +266,15 @@ const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
         }
     };
 
-     const handleReupload = () => {
+     const handlePhotoModeChange = (mode: 'single' | 'group') => {
+        if (mode === photoMode) return;
+        abortAllGenerations();
+        setPhotoMode(mode);
+        setVariants([]);
+        setSelectedVariant(null);
+    };
+
+    const handleReupload = () => {
         fileInputRef.current?.click();
     };
 
@@ -89,70 +302,283 @@ const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
     const handleInspireMe = () => {
         const randomPrompt = INSPIRING_PROMPTS[Math.floor(Math.random() * INSPIRING_PROMPTS.length)];
         setPrompt(randomPrompt);
+        setEnhancement(null);
     };
 
-    const handleGenerate = async () => {
-        if (!uploadedImage || !prompt.trim() || isLoading) return;
+    const handleEnhance = async () => {
+        const original = prompt.trim();
+        if (!original || isEnhancing) return;
+        enhanceControllerRef.current?.abort();
+        const controller = new AbortController();
+        enhanceControllerRef.current = controller;
+        setIsEnhancing(true);
+        setEnhanceError(null);
+        setEnhancement(null);
 
-        setIsLoading(true);
-        setGeneratedResult({ status: 'pending' });
+        try {
+            const enhanced = await enhancePrompt(original, { signal: controller.signal });
+            if (enhanceControllerRef.current !== controller) return;
+            setEnhancement({ original, enhanced });
+        } catch (err) {
+            if (enhanceControllerRef.current !== controller) return;
+            // A cancelled request means the user moved on; there is nothing to report.
+            const { message } = getFriendlyError(err, { [GeminiErrorType.CANCELLED]: '' }, "Couldn't enhance the prompt. Please try again.");
+            setEnhanceError(message || null);
+            console.error("Failed to enhance prompt:", err);
+        } finally {
+            if (enhanceControllerRef.current === controller) {
+                enhanceControllerRef.current = null;
+                setIsEnhancing(false);
+            }
+        }
+    };
+
+    const handleAcceptEnhancement = () => {
+        if (!enhancement) return;
+        setPrompt(enhancement.enhanced);
+        setEnhancement(null);
+    };
+
+    const getVariantLabel = (variantPrompt: string, index: number, total: number) => {
+        const label = variantPrompt.substring(0, 30) || 'Your Creation';
+        return total > 1 ? `${label} #${index + 1}` : label;
+    };
+
+    const updateVariant = (index: number, variant: GeneratedVariant) => {
+        setVariants(prev => prev.map((existing, i) => (i === index ? variant : existing)));
+    };
+
+    /**
+     * Generates one variant into the given slot from a photo or a group of photos. With a step,
+     * `source` is the parent version and the result is added to the variant's history instead of starting a new one.
+     * With `forceNew`, an identical earlier generation is not reused from the cache.
+     */
+    const processVariant = async (source: string | GroupPhoto[], variantPrompt: string, index: number, label: string, priority: GenerationJobPriority, step?: RefineStep, forceNew = false) => {
+        controllersRef.current[index]?.abort();
+        const controller = new AbortController();
+        controllersRef.current[index] = controller;
+        const isCurrent = () => controllersRef.current[index] === controller;
+        // Refinements and edits start from a result that already has the look.
+        const styleReferenceDataUrl = step ? undefined : styleReference ?? undefined;
+        // Each slot keeps its own cache entry so identical variants don't all come back as one image.
+        // Refining the same version twice is a request for another take, so steps always skip the cache.
+        const cacheOptions = { variant: index, forceNew: forceNew || !!step };
 
         try {
-            const resultUrl = await generateImageFromPrompt(uploadedImage, prompt);
-            setGeneratedResult({ status: 'done', url: resultUrl });
+            const { promise } = enqueueGeneration(
+                (signal) => typeof source === 'string'
+                    ? generateImageFromPrompt(source, variantPrompt, { signal, safetyChain: DEFAULT_SAFETY_CHAIN, maskDataUrl: step?.maskDataUrl, styleReferenceDataUrl, ...cacheOptions })
+                    : generateGroupImage(source, variantPrompt, { signal, safetyChain: createGroupSafetyChain(getGroupSubject(source)), styleReferenceDataUrl, ...cacheOptions }),
+                { label, source: 'create', priority, signal: controller.signal },
+            );
+            const result = await promise;
+            if (!isCurrent()) return;
+            // A refinement's prompt is only the change it asked for, e.g. "make the sky darker".
+            const creationPrompt = step?.parentPrompt ? joinVersionPrompts([step.parentPrompt, result.prompt]) : result.prompt;
+            // A cached result was saved when it was first generated.
+            if (!result.cached) void saveCreation({ source: 'create', prompt: creationPrompt, url: result.url, model: result.model, sourceImageUrl: typeof source === 'string' ? source : source[0].dataUrl });
+            const notice = result.rewrite?.label;
+            setVariants(prev => prev.map((existing, i) => {
+                if (i !== index) return existing;
+                const history = step && existing.history
+                    ? addVersion(existing.history, step.parentId, { kind: step.kind, url: result.url, prompt: step.prompt, notice, model: result.model })
+                    : createVersionTree({ kind: 'generate', url: result.url, prompt: variantPrompt, notice, model: result.model });
+                return { status: 'done', url: result.url, notice, history };
+            }));
+            // The first variant to finish becomes the pick until the user chooses another.
+            setSelectedVariant(prev => prev ?? index);
         } catch (err) {
-            let friendlyErrorMessage = "Generation failed. Please try again.";
-            if (err instanceof GeminiError) {
-                switch (err.type) {
-                    case GeminiErrorType.BLOCKED:
-                        friendlyErrorMessage = "Blocked for safety reasons. Try a different prompt or photo.";
-                        break;
-                    case GeminiErrorType.RATE_LIMIT:
-                        friendlyErrorMessage = "Too many requests. Please wait a moment.";
-                        break;
-                    case GeminiErrorType.SERVER_ERROR:
-                         friendlyErrorMessage = "The AI model is busy. Please try again.";
-                         break;
-                    default:
-                        friendlyErrorMessage = "An unexpected error occurred.";
-                        break;
+            // "Start Over" already reset the page; don't show a stale result.
+            if (!isCurrent()) return;
+            const { message, retryAt } = getFriendlyError(err, {
+                [GeminiErrorType.CANCELLED]: "Cancelled. Retry when you're ready.",
+            });
+            setVariants(prev => prev.map((existing, i) => (i === index ? { status: 'error', error: message, retryAt, history: existing.history, step } : existing)));
+            console.error(`Failed to generate variant ${index + 1}:`, err);
+        } finally {
+            if (isCurrent()) {
+                delete controllersRef.current[index];
+            }
+        }
+    };
+
+    const handleGenerate = () => {
+        if (!generationSource || !prompt.trim() || isLoading) return;
+
+        let finalPrompt = prompt;
+        if (isTemplate) {
+            try {
+                // In group mode a blank {subject} names everyone in the group rather than "the person in this photo".
+                const values = typeof generationSource === 'string'
+                    ? templateValues
+                    : { ...templateValues, subject: templateValues.subject?.trim() || getGroupSubject(generationSource) };
+                finalPrompt = renderPromptTemplate(prompt, values);
+            } catch (err) {
+                if (err instanceof PromptTemplateError) {
+                    setTemplateError(err.message);
+                    return;
                 }
+                throw err;
             }
-            setGeneratedResult({ status: 'error', error: friendlyErrorMessage });
-            console.error('Failed to generate image:', err);
+        }
+        setTemplateError(null);
+
+        // Checked here as well as in the service, so the user can fix the prompt before any slot starts.
+        const screeningResult = screenGenerationPrompt(finalPrompt);
+        setScreening(screeningResult);
+        if (screeningResult) return;
+        setSubmittedPrompt(finalPrompt);
+
+        abortAllGenerations();
+        setSelectedVariant(null);
+        setVariants(Array.from({ length: variantCount }, () => ({ status: 'pending' })));
+
+        // Every variant goes through the app-wide generation queue, which limits how many run at once.
+        for (let i = 0; i < variantCount; i++) {
+            processVariant(generationSource, finalPrompt, i, getVariantLabel(finalPrompt, i, variantCount), 'normal');
+        }
+    };
+
+    const handleRetryVariant = (index: number) => {
+        const variant = variants[index];
+        if (!variant || variant.status === 'pending') return;
+        if (selectedVariant === index) {
+            setSelectedVariant(null);
+        }
+        // User-initiated retries jump ahead of anything still waiting in the queue.
+        if (variant.step && variant.history) {
+            runStep(index, variant.history, variant.step);
+            return;
+        }
+        if (!generationSource) return;
+        updateVariant(index, { status: 'pending' });
+        processVariant(generationSource, submittedPrompt, index, getVariantLabel(submittedPrompt, index, variants.length), 'high');
+    };
+
+    /** Replaces an unrefined variant with a fresh generation instead of its cached result. */
+    const handleRegenerateVariant = (index: number) => {
+        if (!generationSource || variants[index]?.status !== 'done') return;
+        if (selectedVariant === index) {
+            setSelectedVariant(null);
+        }
+        updateVariant(index, { status: 'pending' });
+        processVariant(generationSource, submittedPrompt, index, getVariantLabel(submittedPrompt, index, variants.length), 'high', undefined, true);
+    };
+
+    /** Generates a child of `step.parentId` from that version's image. */
+    const runStep = (index: number, history: VersionTree, baseStep: RefineStep) => {
+        const parent = history.versions[baseStep.parentId];
+        const step = { ...baseStep, parentPrompt: getVersionPrompt(history, baseStep.parentId) };
+        updateVariant(index, { status: 'pending', history, step });
+        const label = `${step.kind === 'edit' ? 'Edit' : 'Refine'}: ${getVariantLabel(step.prompt, index, variants.length)}`;
+        processVariant(parent.url, step.prompt, index, label, 'high', step);
+    };
+
+    const handleEditVariant = (index: number, maskDataUrl: string, editPrompt: string) => {
+        const variant = variants[index];
+        if (variant?.status !== 'done' || !variant.history) return;
+        runStep(index, variant.history, { parentId: variant.history.currentId, kind: 'edit', prompt: editPrompt, maskDataUrl });
+    };
+
+    const handleRefine = () => {
+        if (selectedVariant === null) return;
+        const variant = variants[selectedVariant];
+        const instruction = refinePrompt.trim();
+        if (variant?.status !== 'done' || !variant.history || !instruction) return;
+        // Refining an older version forks a new branch from it.
+        runStep(selectedVariant, variant.history, { parentId: variant.history.currentId, kind: 'refine', prompt: instruction });
+        setRefinePrompt('');
+    };
+
+    const handleSelectVersion = (index: number, id: number) => {
+        const variant = variants[index];
+        if (!variant?.history || variant.status === 'pending') return;
+        const history = selectVersion(variant.history, id);
+        const version = getCurrentVersion(history);
+        updateVariant(index, { status: 'done', url: version.url, notice: version.notice, history });
+    };
+
+    const handleEditUpload = async (maskDataUrl: string, editPrompt: string) => {
+        if (!uploadedImage || isEditingUpload) return;
+        const controller = new AbortController();
+        uploadEditControllerRef.current = controller;
+        const isCurrent = () => uploadEditControllerRef.current === controller;
+        setIsEditingUpload(true);
+        setUploadEditError(null);
+
+        try {
+            const { promise } = enqueueGeneration(
+                (signal) => generateImageFromPrompt(uploadedImage, editPrompt, { signal, safetyChain: DEFAULT_SAFETY_CHAIN, maskDataUrl }),
+                { label: `Edit: ${editPrompt.substring(0, 30)}`, source: 'create', priority: 'high', signal: controller.signal },
+            );
+            const result = await promise;
+            if (!isCurrent()) return;
+            setUploadedImage(result.url);
+            // The edited photo is a lossless PNG, so the upload's size summary no longer applies.
+            setUploadSummary(result.rewrite ? `Edited (${result.rewrite.label.toLowerCase()})` : 'Edited');
+        } catch (err) {
+            if (!isCurrent()) return;
+            const { message } = getFriendlyError(err, {}, "The edit failed. Please try again.");
+            setUploadEditError(message);
+            console.error("Failed to edit the uploaded photo:", err);
         } finally {
-            setIsLoading(false);
+            if (isCurrent()) {
+                uploadEditControllerRef.current = null;
+                setIsEditingUpload(false);
+            }
         }
     };
+
+    const handleCancelUploadEdit = () => {
+        uploadEditControllerRef.current?.abort();
+    };
+
+    const handleCancelVariant = (index: number) => {
+        controllersRef.current[index]?.abort();
+    };
     
     const handleReset = () => {
+        abortAllGenerations();
         setUploadedImage(null);
+        setUploadSummary(null);
+        setHasRestoredPrompt(false);
+        setUploadEditError(null);
+        setGroupPhotos([]);
+        setStyleReference(null);
+        setStyleReferenceError(null);
+        setEnhancement(null);
+        setEnhanceError(null);
         setPrompt(initialPrompt || ''); // Reset to initial or empty
-        setGeneratedResult({ status: 'idle' });
-        setIsLoading(false);
+        setTemplateValues({});
+        setTemplateError(null);
+        setScreening(null);
+        setVariants([]);
+        setSelectedVariant(null);
+        setRefinePrompt('');
     };
 
-    const handleDownload = () => {
-        if (generatedResult.status === 'done' && generatedResult.url) {
-            const link = document.createElement('a');
-            link.href = generatedResult.url;
+    const selectedResult = selectedVariant !== null ? variants[selectedVariant] : undefined;
+    // What produced the selected image: its version's whole chain of prompts and its model,
+    // rather than whatever the prompt box says now.
+    const selectedHistory = selectedResult?.history;
+    const selectedOrigin: ImageOrigin = selectedHistory
+        ? { prompt: getVersionPrompt(selectedHistory, selectedHistory.currentId), model: getCurrentVersion(selectedHistory).model }
+        : { prompt: submittedPrompt || prompt };
+
+    const handleDownload = (_caption: string, options: ExportOptions) => {
+        if (selectedResult?.status === 'done' && selectedResult.url) {
             // Sanitize prompt for filename
-            const filename = (prompt.substring(0, 30) || 'creation').replace(/[^a-z0-9]/gi, '_').toLowerCase();
-            link.download = `trendsnap-creation-${filename}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            const filename = (selectedOrigin.prompt.substring(0, 30) || 'creation').replace(/[^a-z0-9]/gi, '_').toLowerCase();
+            void downloadImage(selectedResult.url, selectedOrigin, `trendsnap-creation-${filename}`, options);
         }
     };
     
     const handleShare = async () => {
-        const imageUrl = generatedResult.url;
-        if (generatedResult.status !== 'done' || !imageUrl || !navigator.share) return;
+        const imageUrl = selectedResult?.url;
+        if (selectedResult?.status !== 'done' || !imageUrl || !navigator.share) return;
 
         try {
-            const response = await fetch(imageUrl);
-            const blob = await response.blob();
-            const file = new File([blob], 'trendsnap-creation.jpg', { type: blob.type });
+            const file = await prepareImageForSharing(imageUrl, selectedOrigin, 'trendsnap-creation');
 
             const shareData = {
                 files: [file],
@@ -170,6 +596,9 @@ const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
         }
     };
 
+    const captionSource = submittedPrompt || prompt;
+    const resultCaption = captionSource.substring(0, 25) + (captionSource.length > 25 ? '...' : '') || 'Your Creation';
+
     return (
         <div className="z-10 flex flex-col items-center justify-start w-full h-full flex-1 min-h-0 p-4 overflow-y-auto">
             <input ref={fileInputRef} id="create-file-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleImageUpload} />
@@ -185,10 +614,32 @@ const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
                 {/* --- STEP 1: UPLOAD & RESULTS --- */}
                 <div className="w-full flex flex-col items-center">
                     <p className="font-permanent-marker text-yellow-400 text-2xl mb-4">
-                        Step 1: Upload Your Photo
+                        {photoMode === 'group' ? 'Step 1: Upload Everyone' : 'Step 1: Upload Your Photo'}
                     </p>
+                    <div className="flex gap-2 mb-6" role="radiogroup" aria-label="Photo mode">
+                        {(['single', 'group'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                role="radio"
+                                aria-checked={photoMode === mode}
+                                onClick={() => handlePhotoModeChange(mode)}
+                                disabled={isLoading}
+                                className={cn(
+                                    "font-permanent-marker text-sm py-1 px-3 rounded-sm border-2 transition-colors disabled:opacity-50",
+                                    photoMode === mode ? "bg-yellow-400 border-yellow-400 text-black" : "border-neutral-600 text-neutral-300 hover:border-white"
+                                )}
+                            >
+                                {mode === 'single' ? 'Just Me' : `Group (${MIN_GROUP_PHOTOS}–${MAX_GROUP_PHOTOS} photos)`}
+                            </button>
+                        ))}
+                    </div>
                     <div className="flex flex-col md:flex-row gap-4 md:gap-8 items-center justify-center">
-                        {!uploadedImage ? (
+                        {photoMode === 'group' ? (
+                            <div className="flex flex-col items-center gap-3">
+                                <GroupPhotoPicker photos={groupPhotos} onChange={setGroupPhotos} disabled={isLoading} />
+                                {groupPhotos.length > 0 && groupError && <p className="text-xs text-neutral-400">{groupError}</p>}
+                            </div>
+                        ) : !uploadedImage ? (
                              <label 
                                 htmlFor="create-file-upload" 
                                 onDragOver={handleDragOver}
@@ -212,27 +663,152 @@ const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
                                 </motion.div>
                             </label>
                         ) : (
-                             <PolaroidCard
-                                imageUrl={uploadedImage}
-                                caption="Your Photo"
-                                status="done"
-                                onReupload={handleReupload}
-                            />
+                            <div className="flex flex-col items-center gap-2">
+                                <PolaroidCard
+                                    imageUrl={uploadedImage}
+                                    caption="Your Photo"
+                                    status={isEditingUpload ? 'pending' : 'done'}
+                                    onReupload={handleReupload}
+                                    onCancel={handleCancelUploadEdit}
+                                    onApplyMask={(_, maskDataUrl, editPrompt) => handleEditUpload(maskDataUrl, editPrompt)}
+                                />
+                                {uploadSummary && <p className="text-xs text-neutral-500">{uploadSummary}</p>}
+                                {hasRestoredPrompt && <p className="text-xs text-yellow-400">Made with TrendSnap. Its prompt is filled in below.</p>}
+                                {uploadEditError && <p className="text-xs text-red-400">{uploadEditError}</p>}
+                            </div>
                         )}
                         
-                        {(uploadedImage && (generatedResult.status !== 'idle')) && (
+                        {variants.length === 1 && (
                             <PolaroidCard
-                                caption={prompt.substring(0, 25) + (prompt.length > 25 ? '...' : '') || 'Your Creation'}
-                                status={generatedResult.status}
-                                imageUrl={generatedResult.url}
-                                error={generatedResult.error}
+                                caption={resultCaption}
+                                status={variants[0].status}
+                                imageUrl={variants[0].url}
+                                error={variants[0].error}
+                                retryAt={variants[0].retryAt}
+                                notice={variants[0].notice}
+                                onCancel={() => handleCancelVariant(0)}
+                                onApplyMask={(_, maskDataUrl, editPrompt) => handleEditVariant(0, maskDataUrl, editPrompt)}
+                                onShake={canRegenerate(variants[0]) ? () => handleRegenerateVariant(0) : undefined}
                                 onDownload={handleDownload}
                                 onShare={handleShare}
                             />
                         )}
                     </div>
+
+                    {/* With several variants, lay them out in a grid and let the user pick a favorite. */}
+                    {variants.length > 1 && (
+                        <div className="mt-8 w-full flex flex-col items-center">
+                            <p className="font-permanent-marker text-neutral-300 text-lg mb-4">
+                                {selectedVariant !== null ? 'Your pick is ready to download or share.' : 'Pick your favorite.'}
+                            </p>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                                {variants.map((variant, index) => (
+                                    <div key={index} className="flex flex-col items-center gap-3">
+                                        <div className={cn(
+                                            "rounded-md transition-shadow duration-300",
+                                            selectedVariant === index && "ring-4 ring-yellow-400 ring-offset-4 ring-offset-black"
+                                        )}>
+                                            <PolaroidCard
+                                                caption={`${resultCaption} #${index + 1}`}
+                                                status={variant.status}
+                                                imageUrl={variant.url}
+                                                error={variant.error}
+                                                retryAt={variant.retryAt}
+                                                notice={variant.notice}
+                                                onCancel={() => handleCancelVariant(index)}
+                                                onApplyMask={(_, maskDataUrl, editPrompt) => handleEditVariant(index, maskDataUrl, editPrompt)}
+                                                onDownload={selectedVariant === index ? handleDownload : undefined}
+                                                onShare={selectedVariant === index ? handleShare : undefined}
+                                            />
+                                        </div>
+                                        {variant.status === 'done' && (
+                                            <button
+                                                onClick={() => setSelectedVariant(index)}
+                                                disabled={selectedVariant === index}
+                                                className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors disabled:bg-yellow-400 disabled:text-black disabled:border-yellow-400"
+                                            >
+                                                {selectedVariant === index ? 'Your Pick' : 'Pick This One'}
+                                            </button>
+                                        )}
+                                        {canRegenerate(variant) && (
+                                            <button
+                                                onClick={() => handleRegenerateVariant(index)}
+                                                className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors"
+                                            >
+                                                New Take
+                                            </button>
+                                        )}
+                                        {variant.status === 'error' && (
+                                            <button
+                                                onClick={() => handleRetryVariant(index)}
+                                                className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors"
+                                            >
+                                                Retry
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
 
+                {/* --- BEFORE / AFTER --- */}
+                {(photoMode === 'single' && uploadedImage && selectedResult?.status === 'done' && selectedResult.url) && (
+                    <div className="w-full flex flex-col items-center gap-4">
+                        <button
+                            onClick={() => setIsComparing(prev => !prev)}
+                            className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors"
+                        >
+                            {isComparing ? 'Hide Comparison' : 'Compare Before & After'}
+                        </button>
+                        {isComparing && (
+                            <BeforeAfterComparison
+                                beforeUrl={uploadedImage}
+                                afterUrl={selectedResult.url}
+                                origin={selectedOrigin}
+                                baseName="trendsnap-creation-comparison"
+                            />
+                        )}
+                    </div>
+                )}
+
+                {/* --- REFINE & VERSION HISTORY --- */}
+                {(selectedVariant !== null && selectedResult?.history) && (
+                    <div className="w-full max-w-3xl flex flex-col gap-4 items-center">
+                        <p className="font-permanent-marker text-yellow-400 text-2xl">Refine Your Pick</p>
+                        <div className="w-full flex flex-col sm:flex-row gap-3">
+                            <input
+                                type="text"
+                                value={refinePrompt}
+                                onChange={(e) => setRefinePrompt(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleRefine(); }}
+                                placeholder="Describe a change, e.g. 'make it night time'"
+                                className="flex-1 p-3 bg-neutral-900 border-2 border-neutral-700 rounded-md text-neutral-200 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent"
+                                aria-label="Refinement instruction"
+                            />
+                            <button
+                                onClick={handleRefine}
+                                disabled={selectedResult.status !== 'done' || !refinePrompt.trim()}
+                                className={primaryButtonClasses}
+                                style={{ fontSize: '1rem', padding: '0.75rem 1.5rem' }}
+                            >
+                                {selectedResult.status === 'pending' ? 'Refining...' : 'Refine'}
+                            </button>
+                        </div>
+                        {(selectedResult.status === 'error' && selectedResult.step) && (
+                            <button onClick={() => handleRetryVariant(selectedVariant)} className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors">
+                                Retry "{selectedResult.step.prompt}"
+                            </button>
+                        )}
+                        <VersionHistory
+                            tree={selectedResult.history}
+                            onSelect={(id) => handleSelectVersion(selectedVariant, id)}
+                            disabled={selectedResult.status === 'pending'}
+                        />
+                    </div>
+                )}
+
                 {/* --- STEP 2: PROMPT & GENERATE --- */}
                 <div className="w-full max-w-xl flex flex-col gap-4 items-center">
                     <p className="font-permanent-marker text-yellow-400 text-2xl mb-2">
@@ -240,18 +816,113 @@ const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
                     </p>
                     <textarea
                         value={prompt}
-                        onChange={(e) => setPrompt(e.target.value)}
+                        onChange={(e) => { setPrompt(e.target.value); setEnhancement(null); setScreening(null); }}
                         placeholder="Describe the image you want to create... e.g., 'A photo of the person as a space explorer on a red planet.'"
                         className="w-full h-24 p-3 bg-neutral-900 border-2 border-neutral-700 rounded-md text-neutral-200 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-colors"
                         aria-label="Image generation prompt"
                     />
+                    {templateVariables.length > 0 && (
+                        <div className="w-full grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {templateVariables.map(variable => (
+                                <label key={variable.name} className="flex flex-col gap-1">
+                                    <span className="font-permanent-marker text-neutral-300 text-sm">{variable.label}</span>
+                                    {variable.type === 'choice' ? (
+                                        <select
+                                            value={templateValues[variable.name] || variable.defaultValue || ''}
+                                            onChange={(e) => setTemplateValues(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                                            className="p-2 bg-neutral-900 border-2 border-neutral-700 rounded-md text-neutral-200 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                                        >
+                                            {variable.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                                        </select>
+                                    ) : (
+                                        <input
+                                            type="text"
+                                            value={templateValues[variable.name] ?? ''}
+                                            onChange={(e) => setTemplateValues(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                                            placeholder={variable.defaultValue ?? 'Required'}
+                                            className="p-2 bg-neutral-900 border-2 border-neutral-700 rounded-md text-neutral-200 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                                        />
+                                    )}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                    {templateError && <p className="text-sm text-red-400">{templateError}</p>}
+                    {screening && (
+                        <div className="w-full p-3 bg-neutral-900 border-2 border-red-500/60 rounded-md flex flex-col gap-3" role="alert">
+                            <p className="text-sm text-red-300">{screening.rule.reason}</p>
+                            {screening.suggestion ? (
+                                <>
+                                    <p className="text-sm text-neutral-300">Try this instead: <span className="text-neutral-100">"{screening.suggestion}"</span></p>
+                                    <div className="flex justify-end">
+                                        <button
+                                            onClick={() => { setPrompt(screening.suggestion!); setScreening(null); }}
+                                            className="font-permanent-marker text-sm text-black bg-yellow-400 rounded-sm py-1 px-3 hover:bg-yellow-300 transition-colors"
+                                        >
+                                            Use Suggestion
+                                        </button>
+                                    </div>
+                                </>
+                            ) : (
+                                <p className="text-sm text-neutral-400">Reword these parts of your prompt: {screening.matches.map(match => `"${match}"`).join(', ')}</p>
+                            )}
+                        </div>
+                    )}
+                    {enhancement && (
+                        <div className="w-full p-3 bg-neutral-900 border-2 border-yellow-400/60 rounded-md flex flex-col gap-3">
+                            <p className="font-permanent-marker text-yellow-400">Enhanced Prompt</p>
+                            <PromptDiff before={enhancement.original} after={enhancement.enhanced} />
+                            <div className="flex justify-end gap-2">
+                                <button onClick={() => setEnhancement(null)} className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors">
+                                    Keep Mine
+                                </button>
+                                <button onClick={handleAcceptEnhancement} className="font-permanent-marker text-sm text-black bg-yellow-400 rounded-sm py-1 px-3 hover:bg-yellow-300 transition-colors">
+                                    Use Enhanced
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                    {enhanceError && <p className="text-sm text-red-400">{enhanceError}</p>}
+                    <StyleReferenceSlot
+                        imageUrl={styleReference}
+                        onChange={(imageUrl) => { setStyleReference(imageUrl); setStyleReferenceError(null); }}
+                        disabled={isLoading}
+                    />
+                    {styleReferenceError && <p className="text-sm text-red-400">{styleReferenceError}</p>}
+                    <div className="flex items-center gap-3" role="radiogroup" aria-label="Number of variants">
+                        <span className="font-permanent-marker text-neutral-300">Variants:</span>
+                        {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                            <button
+                                key={count}
+                                role="radio"
+                                aria-checked={variantCount === count}
+                                onClick={() => setVariantCount(count)}
+                                disabled={isLoading}
+                                className={cn(
+                                    "font-permanent-marker w-10 h-10 rounded-sm border-2 transition-colors disabled:opacity-50",
+                                    variantCount === count ? "bg-yellow-400 border-yellow-400 text-black" : "border-neutral-600 text-neutral-300 hover:border-white"
+                                )}
+                            >
+                                {count}
+                            </button>
+                        ))}
+                    </div>
                     <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
                         <button onClick={handleInspireMe} className={secondaryButtonClasses} style={{fontSize: '1rem', padding: '0.75rem 1.5rem'}}>
                             Inspire Me
                         </button>
+                        <button
+                            onClick={handleEnhance}
+                            disabled={!prompt.trim() || isEnhancing || templateVariables.length > 0}
+                            title={templateVariables.length > 0 ? "Templates can't be enhanced. Fill in the fields above instead." : "Let AI add detail to your prompt"}
+                            className={cn(secondaryButtonClasses, "disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none")}
+                            style={{fontSize: '1rem', padding: '0.75rem 1.5rem'}}
+                        >
+                            {isEnhancing ? 'Enhancing...' : 'Enhance'}
+                        </button>
                         <button 
                             onClick={handleGenerate} 
-                            disabled={!uploadedImage || !prompt.trim() || isLoading} 
+                            disabled={!generationSource || !prompt.trim() || isLoading} 
                             className={primaryButtonClasses}
                         >
                             {isLoading ? 'Generating...' : 'Generate'}
@@ -259,7 +930,7 @@ const CreatePage: React.FC<CreatePageProps> = ({ initialPrompt = '' }) => {
                     </div>
                 </div>
 
-                {uploadedImage && (
+                {(uploadedImage || groupPhotos.length > 0) && (
                     <button onClick={handleReset} className={`${secondaryButtonClasses} mt-4`}>
                         Start Over
                     </button>
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, type Variants } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { deleteCreations, getCreations, type Creation, type CreationSource } from '../lib/creations';
+import { downloadImage } from '../services/downloadService';
+import ExportDialog from './ExportDialog';
+
+interface CreationsPageProps {
+    /** Opens the Create page with this prompt. */
+    onUsePrompt: (prompt: string) => void;
+}
+
+type SourceFilter = CreationSource | 'all';
+
+const SOURCE_LABELS: Record<CreationSource, string> = {
+    home: 'Home',
+    create: 'Create',
+    trending: 'Trending',
+};
+
+const containerVariants: Variants = {
+    hidden: { opacity: 0 },
+    visible: { opacity: 1, transition: { staggerChildren: 0.1 } },
+};
+
+const itemVariants: Variants = {
+    hidden: { y: 20, opacity: 0 },
+    visible: { y: 0, opacity: 1, transition: { type: 'spring', stiffness: 100 } },
+};
+
+const smallButtonClasses = "font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-neutral-300";
+
+
+const CreationsPage: React.FC<CreationsPageProps> = ({ onUsePrompt }) => {
+    const [creations, setCreations] = useState<Creation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+    const [isDeleting, setIsDeleting] = useState(false);
+    const [exportingCreation, setExportingCreation] = useState<Creation | null>(null);
+
+    useEffect(() => {
+        getCreations()
+            .then(setCreations)
+            .catch(error => {
+                console.error("Failed to load creations", error);
+                setLoadError("Your creations couldn't be loaded. This browser may not allow local storage.");
+            })
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const filteredCreations = useMemo(() => {
+        const term = searchTerm.trim().toLowerCase();
+        return creations.filter(creation =>
+            (sourceFilter === 'all' || creation.source === sourceFilter) &&
+            creation.prompt.toLowerCase().includes(term)
+        );
+    }, [creations, sourceFilter, searchTerm]);
+
+    const allVisibleSelected = filteredCreations.length > 0 && filteredCreations.every(creation => selectedIds.has(creation.id));
+
+    const toggleSelected = (id: number) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const handleToggleAll = () => {
+        setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredCreations.map(creation => creation.id)));
+    };
+
+    const handleDeleteSelected = async () => {
+        if (selectedIds.size === 0) return;
+        const count = selectedIds.size;
+        if (!window.confirm(`Delete ${count} ${count === 1 ? 'creation' : 'creations'}? This can't be undone.`)) return;
+
+        setIsDeleting(true);
+        try {
+            await deleteCreations([...selectedIds]);
+            setCreations(prev => prev.filter(creation => !selectedIds.has(creation.id)));
+            setSelectedIds(new Set());
+        } catch (error) {
+            console.error("Failed to delete creations", error);
+            alert("Couldn't delete the selected creations. Please try again.");
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    const renderContent = () => {
+        if (isLoading) {
+            return <p className="text-center text-neutral-500 font-permanent-marker text-xl py-12">Loading...</p>;
+        }
+        if (loadError) {
+            return <p className="text-center text-red-400 py-12">{loadError}</p>;
+        }
+        if (filteredCreations.length === 0) {
+            return (
+                <div className="text-center py-12">
+                    <p className="text-neutral-500 font-permanent-marker text-xl">
+                        {creations.length > 0 ? "No results found." : "Nothing here yet."}
+                    </p>
+                    <p className="text-neutral-600 mt-2">
+                        {creations.length > 0 ? "Try a different filter or search term." : "Every image you generate is saved here, in this browser."}
+                    </p>
+                </div>
+            );
+        }
+        return (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 md:gap-8">
+                {filteredCreations.map(creation => {
+                    const isSelected = selectedIds.has(creation.id);
+                    return (
+                        <div
+                            key={creation.id}
+                            className={cn(
+                                "bg-neutral-900/50 border rounded-lg overflow-hidden flex flex-col transition-colors",
+                                isSelected ? "border-yellow-400" : "border-neutral-800"
+                            )}
+                        >
+                            <div className="relative aspect-square">
+                                <img src={creation.url} alt={creation.prompt} className="w-full h-full object-cover" loading="lazy" />
+                                <label className="absolute top-3 left-3 flex items-center justify-center w-8 h-8 bg-black/60 rounded-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={isSelected}
+                                        onChange={() => toggleSelected(creation.id)}
+                                        className="w-4 h-4 accent-yellow-400 cursor-pointer"
+                                        aria-label={`Select creation from ${new Date(creation.createdAt).toLocaleString()}`}
+                                    />
+                                </label>
+                                {creation.sourceThumbnailUrl && (
+                                    <img
+                                        src={creation.sourceThumbnailUrl}
+                                        alt="Source photo"
+                                        title="The photo this was made from"
+                                        className="absolute bottom-3 right-3 w-14 h-14 object-cover rounded-sm border-2 border-white shadow-lg"
+                                    />
+                                )}
+                            </div>
+                            <div className="p-4 flex flex-col gap-3 flex-1">
+                                <div className="flex items-center justify-between text-xs text-neutral-500">
+                                    <span className="font-permanent-marker text-neutral-400">{SOURCE_LABELS[creation.source]}</span>
+                                    <time dateTime={new Date(creation.createdAt).toISOString()}>{new Date(creation.createdAt).toLocaleString()}</time>
+                                </div>
+                                <p className="text-sm text-neutral-200 line-clamp-3 flex-1" title={creation.prompt}>{creation.prompt}</p>
+                                <div className="flex gap-2">
+                                    <button onClick={() => setExportingCreation(creation)} className={smallButtonClasses}>Download</button>
+                                    <button onClick={() => onUsePrompt(creation.prompt)} className={smallButtonClasses}>Use This Prompt</button>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    return (
+        <div className="z-10 w-full h-full p-4 md:p-8 overflow-y-auto">
+            <motion.div
+                className="max-w-6xl mx-auto"
+                initial="hidden"
+                animate="visible"
+                variants={containerVariants}
+            >
+                <motion.div className="text-center mb-8" variants={itemVariants}>
+                    <h2 className="text-5xl md:text-8xl font-caveat font-bold text-neutral-100">My Creations</h2>
+                    <p className="font-permanent-marker text-neutral-300 mt-4 text-xl tracking-wide">
+                        Everything you've generated, saved in this browser.
+                    </p>
+                </motion.div>
+
+                <motion.div className="mb-8 flex flex-col sm:flex-row gap-4 items-stretch sm:items-center justify-between" variants={itemVariants}>
+                    <div className="flex flex-col sm:flex-row gap-3 flex-1">
+                        <input
+                            type="text"
+                            placeholder="Search prompts..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            className="flex-1 max-w-md p-2 bg-neutral-900 border-2 border-neutral-700 rounded-md text-neutral-200 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-colors"
+                        />
+                        <select
+                            value={sourceFilter}
+                            onChange={(e) => setSourceFilter(e.target.value as SourceFilter)}
+                            className="p-2 bg-neutral-900 border-2 border-neutral-700 rounded-md text-neutral-200 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                            aria-label="Filter by page"
+                        >
+                            <option value="all">All pages</option>
+                            {(Object.keys(SOURCE_LABELS) as CreationSource[]).map(source => (
+                                <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={handleToggleAll} disabled={filteredCreations.length === 0} className={smallButtonClasses}>
+                            {allVisibleSelected ? 'Select None' : 'Select All'}
+                        </button>
+                        <button
+                            onClick={handleDeleteSelected}
+                            disabled={selectedIds.size === 0 || isDeleting}
+                            className="text-sm font-bold text-white bg-red-600 py-1 px-3 rounded-sm transition-colors hover:bg-red-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-red-600"
+                        >
+                            {isDeleting ? 'Deleting...' : `Delete Selected (${selectedIds.size})`}
+                        </button>
+                    </div>
+                </motion.div>
+
+                <motion.section variants={itemVariants}>
+                    {renderContent()}
+                </motion.section>
+            </motion.div>
+
+            {exportingCreation && (
+                <ExportDialog
+                    imageUrl={exportingCreation.url}
+                    onExport={(options) => {
+                        void downloadImage(exportingCreation.url, { prompt: exportingCreation.prompt, model: exportingCreation.model }, `trendsnap-${exportingCreation.source}-${exportingCreation.id}`, options);
+                        setExportingCreation(null);
+                    }}
+                    onCancel={() => setExportingCreation(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default CreationsPage;
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { getUsageSnapshot, subscribeToUsage } from '../services/usageLedger';
+
+/**
+ * Tells the user up front that today's generations are used up, instead of only on each failed card.
+ */
+const DailyLimitBanner: React.FC = () => {
+    const [snapshot, setSnapshot] = useState(getUsageSnapshot);
+    useEffect(() => subscribeToUsage(setSnapshot), []);
+
+    return (
+        <AnimatePresence>
+            {snapshot.remaining === 0 && (
+                <motion.div
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    role="status"
+                    className="z-20 w-full max-w-3xl mb-4 p-3 text-center bg-red-600/20 border border-red-500/60 rounded-md text-red-200"
+                >
+                    You've used all {snapshot.dailyQuota} of today's generations. Your limit resets at midnight.
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default DailyLimitBanner;
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { loadImage } from '../lib/imageUtils';
+import {
+    clampCrop, getAspectCrop, DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, EXPORT_PRESETS,
+    type CropRect, type ExportFormat, type ExportOptions,
+} from '../lib/exportPresets';
+
+interface ExportDialogProps {
+    imageUrl: string;
+    /** Shown in the dialog's heading, e.g. the card's caption. */
+    title?: string;
+    onExport: (options: ExportOptions) => void;
+    onCancel: () => void;
+}
+
+const ORIGINAL_SIZE = 'original';
+const MAX_ZOOM = 3;
+// Arrow keys move the crop box by this share of the image.
+const KEYBOARD_STEP = 0.02;
+
+const optionButtonClasses = "font-permanent-marker text-sm rounded-sm py-1 px-3 border transition-colors";
+const selectedOptionClasses = "bg-yellow-400 text-black border-yellow-400";
+const unselectedOptionClasses = "text-neutral-300 border-neutral-600 hover:bg-white hover:text-black";
+
+/**
+ * Lets the user pick a format, quality and social media size before downloading,
+ * and drag a crop box to choose which part of the image the size keeps.
+ * It is rendered into the page body, so it can be opened from inside a draggable card.
+ */
+const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, title, onExport, onCancel }) => {
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const [format, setFormat] = useState<ExportFormat>(DEFAULT_EXPORT_OPTIONS.format);
+    const [quality, setQuality] = useState(DEFAULT_EXPORT_OPTIONS.quality);
+    const [presetId, setPresetId] = useState(ORIGINAL_SIZE);
+    const [zoom, setZoom] = useState(1);
+    const [crop, setCrop] = useState<CropRect | null>(null);
+    const previewRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number; crop: CropRect } | null>(null);
+
+    const preset = EXPORT_PRESETS.find(p => p.id === presetId);
+    const formatInfo = EXPORT_FORMATS.find(f => f.value === format)!;
+
+    useEffect(() => {
+        let isActive = true;
+        loadImage(imageUrl)
+            .then(img => {
+                if (isActive) setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+            })
+            .catch(error => console.error("Failed to load image for export:", error));
+        return () => { isActive = false; };
+    }, [imageUrl]);
+
+    // A new size or zoom keeps the crop centered where the user last dragged it.
+    useEffect(() => {
+        if (!imageSize || !preset) {
+            setCrop(null);
+            return;
+        }
+        setCrop(prev => getAspectCrop(
+            imageSize.width,
+            imageSize.height,
+            preset.width / preset.height,
+            zoom,
+            prev ? { x: prev.x + prev.width / 2, y: prev.y + prev.height / 2 } : undefined,
+        ));
+    }, [imageSize, presetId, zoom]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onCancel();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onCancel]);
+
+    const moveCrop = (from: CropRect, dx: number, dy: number) => {
+        if (!imageSize) return;
+        setCrop(clampCrop({ ...from, x: from.x + dx, y: from.y + dy }, imageSize.width, imageSize.height));
+    };
+
+    const handleCropPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!crop) return;
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { x: e.clientX, y: e.clientY, crop };
+    };
+
+    const handleCropPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        const preview = previewRef.current;
+        if (!drag || !preview || !imageSize) return;
+        // Pointer movement is in screen pixels; the crop is in image pixels.
+        const scale = imageSize.width / preview.getBoundingClientRect().width;
+        moveCrop(drag.crop, (e.clientX - drag.x) * scale, (e.clientY - drag.y) * scale);
+    };
+
+    const handleCropKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (!crop || !imageSize) return;
+        const step = Math.max(imageSize.width, imageSize.height) * KEYBOARD_STEP;
+        const moves: Record<string, [number, number]> = {
+            ArrowLeft: [-step, 0],
+            ArrowRight: [step, 0],
+            ArrowUp: [0, -step],
+            ArrowDown: [0, step],
+        };
+        const move = moves[e.key];
+        if (move) {
+            e.preventDefault();
+            moveCrop(crop, move[0], move[1]);
+        }
+    };
+
+    const handleExport = () => {
+        onExport({
+            format,
+            quality,
+            ...(preset && crop ? { crop, size: { width: preset.width, height: preset.height } } : {}),
+        });
+    };
+
+    const outputSize = preset ?? imageSize;
+
+    return createPortal(
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4"
+            onClick={onCancel}
+        >
+            <motion.div
+                initial={{ y: 50, scale: 0.95 }}
+                animate={{ y: 0, scale: 1 }}
+                role="dialog"
+                aria-modal="true"
+                aria-label="Export image"
+                className="bg-neutral-900 border border-neutral-700 rounded-lg p-6 w-full max-w-2xl space-y-5 max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h3 className="text-3xl font-permanent-marker text-yellow-400 truncate">Export {title || 'Image'}</h3>
+
+                <div className="flex justify-center">
+                    <div ref={previewRef} className="relative inline-block overflow-hidden select-none">
+                        <img src={imageUrl} alt="Export preview" className="block max-w-full max-h-[45vh]" draggable={false} />
+                        {crop && imageSize && (
+                            <div
+                                role="slider"
+                                tabIndex={0}
+                                aria-label="Crop area. Drag, or use the arrow keys, to move it."
+                                aria-valuetext={`${Math.round(crop.x)}, ${Math.round(crop.y)}`}
+                                onPointerDown={handleCropPointerDown}
+                                onPointerMove={handleCropPointerMove}
+                                onPointerUp={() => { dragRef.current = null; }}
+                                onPointerCancel={() => { dragRef.current = null; }}
+                                onKeyDown={handleCropKeyDown}
+                                className="absolute border-2 border-yellow-400 cursor-move touch-none shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] focus:outline-none focus-visible:border-white"
+                                style={{
+                                    left: `${(crop.x / imageSize.width) * 100}%`,
+                                    top: `${(crop.y / imageSize.height) * 100}%`,
+                                    width: `${(crop.width / imageSize.width) * 100}%`,
+                                    height: `${(crop.height / imageSize.height) * 100}%`,
+                                }}
+                            />
+                        )}
+                    </div>
+                </div>
+
+                <div>
+                    <p className="font-permanent-marker text-neutral-300 mb-2">Size</p>
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => setPresetId(ORIGINAL_SIZE)} className={cn(optionButtonClasses, !preset ? selectedOptionClasses : unselectedOptionClasses)}>
+                            Original
+                        </button>
+                        {EXPORT_PRESETS.map(p => (
+                            <button key={p.id} onClick={() => setPresetId(p.id)} className={cn(optionButtonClasses, presetId === p.id ? selectedOptionClasses : unselectedOptionClasses)}>
+                                {p.label}
+                            </button>
+                        ))}
+                    </div>
+                    {preset && (
+                        <label className="flex items-center gap-3 mt-3 text-sm text-neutral-400">
+                            Zoom
+                            <input
+                                type="range"
+                                min={1}
+                                max={MAX_ZOOM}
+                                step={0.05}
+                                value={zoom}
+                                onChange={(e) => setZoom(Number(e.target.value))}
+                                className="flex-1 accent-yellow-400"
+                            />
+                        </label>
+                    )}
+                </div>
+
+                <div>
+                    <p className="font-permanent-marker text-neutral-300 mb-2">Format</p>
+                    <div className="flex flex-wrap gap-2">
+                        {EXPORT_FORMATS.map(f => (
+                            <button key={f.value} onClick={() => setFormat(f.value)} className={cn(optionButtonClasses, format === f.value ? selectedOptionClasses : unselectedOptionClasses)}>
+                                {f.label}
+                            </button>
+                        ))}
+                    </div>
+                    {formatInfo.hasQuality && (
+                        <label className="flex items-center gap-3 mt-3 text-sm text-neutral-400">
+                            Quality
+                            <input
+                                type="range"
+                                min={0.5}
+                                max={1}
+                                step={0.01}
+                                value={quality}
+                                onChange={(e) => setQuality(Number(e.target.value))}
+                                className="flex-1 accent-yellow-400"
+                            />
+                            <span className="w-10 text-right">{Math.round(quality * 100)}%</span>
+                        </label>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-neutral-500">
+                        {outputSize ? `${outputSize.width} × ${outputSize.height} .${formatInfo.extension}` : 'Loading...'}
+                    </p>
+                    <div className="flex gap-2">
+                        <button onClick={onCancel} className={cn(optionButtonClasses, unselectedOptionClasses)}>Cancel</button>
+                        <button onClick={handleExport} disabled={!imageSize} className={cn(optionButtonClasses, selectedOptionClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}>
+                            Download
+                        </button>
+                    </div>
+                </div>
+            </motion.div>
+        </motion.div>,
+        document.body,
+    );
+};
+
+export default ExportDialog;
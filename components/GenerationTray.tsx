@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils';
+import { cancelGeneration, getGenerationJobs, subscribeToGenerationJobs, type GenerationJob, type GenerationJobStatus } from '../services/generationQueue';
+
+const STATUS_LABELS: Record<GenerationJobStatus, string> = {
+    queued: 'Waiting',
+    running: 'Generating',
+    done: 'Done',
+    error: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+const STATUS_CLASSES: Record<GenerationJobStatus, string> = {
+    queued: 'text-neutral-400',
+    running: 'text-yellow-400',
+    done: 'text-green-400',
+    error: 'text-red-400',
+    cancelled: 'text-neutral-500',
+};
+
+const useGenerationJobs = () => {
+    const [jobs, setJobs] = useState<GenerationJob[]>(getGenerationJobs);
+    useEffect(() => subscribeToGenerationJobs(setJobs), []);
+    return jobs;
+};
+
+/**
+ * A small floating tray listing every generation that is in flight across the app.
+ */
+const GenerationTray: React.FC = () => {
+    const jobs = useGenerationJobs();
+    const inFlightCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+
+    return (
+        <AnimatePresence>
+            {jobs.length > 0 && (
+                <motion.div
+                    initial={{ opacity: 0, y: 50 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 50 }}
+                    className="fixed bottom-4 right-4 z-40 w-72 bg-neutral-900/90 backdrop-blur-sm border border-neutral-700 rounded-lg shadow-lg p-3"
+                    onClick={(e) => e.stopPropagation()}
+                >
+                    <p className="font-permanent-marker text-yellow-400 mb-2">
+                        {inFlightCount > 0 ? `Generating ${inFlightCount}...` : 'All done'}
+                    </p>
+                    <ul className="space-y-1 max-h-48 overflow-y-auto">
+                        {jobs.map(job => (
+                            <li key={job.id} className="flex items-center justify-between gap-2 text-sm" title={job.error}>
+                                <span className="truncate text-neutral-200">{job.label}</span>
+                                <span className="flex items-center gap-2 shrink-0">
+                                    <span className={cn(STATUS_CLASSES[job.status], job.status === 'running' && 'animate-pulse')}>
+                                        {STATUS_LABELS[job.status]}
+                                    </span>
+                                    {(job.status === 'queued' || job.status === 'running') && (
+                                        <button
+                                            onClick={() => cancelGeneration(job.id)}
+                                            className="text-neutral-500 hover:text-white"
+                                            aria-label={`Cancel ${job.label}`}
+                                        >
+                                            &times;
+                                        </button>
+                                    )}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default GenerationTray;
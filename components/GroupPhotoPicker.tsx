@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { ChangeEvent, useId } from 'react';
+import { preprocessImageFile, ImagePreprocessError } from '../lib/imagePreprocessing';
+import { MAX_GROUP_PHOTOS, type GroupPhoto } from '../lib/groupPhotos';
+
+interface GroupPhotoPickerProps {
+    photos: GroupPhoto[];
+    onChange: (photos: GroupPhoto[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Collects the labeled photos of a group generation, one per person.
+ */
+const GroupPhotoPicker: React.FC<GroupPhotoPickerProps> = ({ photos, onChange, disabled }) => {
+    const inputId = useId();
+
+    const handleFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []).slice(0, MAX_GROUP_PHOTOS - photos.length);
+        e.target.value = ''; // Allow picking the same file again after removing it
+        if (files.length === 0) return;
+
+        try {
+            const processed = await Promise.all(files.map(file => preprocessImageFile(file)));
+            onChange([
+                ...photos,
+                // Start every label blank so the user names each person themselves.
+                ...processed.map(image => ({ dataUrl: image.dataUrl, label: '' })),
+            ]);
+        } catch (error) {
+            console.error("Failed to process group photo:", error);
+            alert(error instanceof ImagePreprocessError ? error.message : "Please upload a valid image file (PNG, JPG, WEBP).");
+        }
+    };
+
+    const updateLabel = (index: number, label: string) => {
+        onChange(photos.map((photo, i) => (i === index ? { ...photo, label } : photo)));
+    };
+
+    const removePhoto = (index: number) => {
+        onChange(photos.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {photos.map((photo, index) => (
+                <div key={index} className="flex flex-col gap-2 w-36">
+                    <div className="relative bg-neutral-100 p-2 pb-3 rounded-sm shadow-lg">
+                        <img src={photo.dataUrl} alt={photo.label || `Photo ${index + 1}`} className="w-full aspect-square object-cover" />
+                        <button
+                            onClick={() => removePhoto(index)}
+                            disabled={disabled}
+                            className="absolute top-1 right-1 w-7 h-7 bg-black/60 rounded-full text-white hover:bg-black/80 disabled:opacity-50"
+                            aria-label={`Remove photo ${index + 1}`}
+                        >
+                            &times;
+                        </button>
+                    </div>
+                    <input
+                        type="text"
+                        value={photo.label}
+                        onChange={(e) => updateLabel(index, e.target.value)}
+                        disabled={disabled}
+                        placeholder={`Name ${index + 1}`}
+                        maxLength={30}
+                        className="p-1.5 text-sm bg-neutral-900 border-2 border-neutral-700 rounded-md text-neutral-200 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                        aria-label={`Name of the person in photo ${index + 1}`}
+                    />
+                </div>
+            ))}
+            {photos.length < MAX_GROUP_PHOTOS && (
+                <label
+                    htmlFor={inputId}
+                    className="w-36 aspect-[3/4] flex flex-col items-center justify-center gap-1 border-2 border-dashed border-neutral-700 rounded-md text-neutral-500 cursor-pointer hover:border-neutral-500 hover:text-neutral-300 transition-colors"
+                >
+                    <span className="text-4xl leading-none">+</span>
+                    <span className="font-permanent-marker text-sm">Add Photo</span>
+                    <input id={inputId} type="file" multiple className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleFiles} disabled={disabled} />
+                </label>
+            )}
+        </div>
+    );
+};
+
+export default GroupPhotoPicker;
@@ -2,16 +2,27 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useRef } from 'react';
+import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { generateDecadeImage, GeminiError, GeminiErrorType } from '../services/geminiService';
+import { generateGroupImage, generateImageFromPrompt, GeminiErrorType } from '../services/geminiService';
+import { enqueueGeneration, type GenerationJobPriority } from '../services/generationQueue';
 import PolaroidCard from './PolaroidCard';
-import { createAlbumPage } from '../lib/albumUtils';
+import { getFriendlyError } from '../lib/errorMessages';
+import { describePreprocessedImage, preprocessImageFile, ImagePreprocessError } from '../lib/imagePreprocessing';
 import { cn } from '../lib/utils';
-
-const DECADES = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'];
-
-// Pre-defined positions for a scattered look on desktop
+import { TIME_TRAVEL_PACK, renderSeriesPrompt } from '../lib/seriesPacks';
+import { PromptTemplateError } from '../lib/promptTemplates';
+import type { SeriesPack } from '../services/types';
+import { DEFAULT_SAFETY_CHAIN, createGroupSafetyChain, createReplacementRewrite, type PromptRewrite } from '../lib/safetyRewrites';
+import { getGroupSubject, validateGroupPhotos, MAX_GROUP_PHOTOS, MIN_GROUP_PHOTOS, type GroupPhoto } from '../lib/groupPhotos';
+import GroupPhotoPicker from './GroupPhotoPicker';
+import AlbumDesigner from './AlbumDesigner';
+import SlideshowDialog from './SlideshowDialog';
+import { saveCreation } from '../lib/creations';
+import { downloadImage, prepareImageForSharing } from '../services/downloadService';
+import type { ExportOptions } from '../lib/exportPresets';
+
+// Pre-defined positions for a scattered look on desktop, hand-tuned for six photos
 const POSITIONS = [
     { top: '5%', left: '10%', rotate: -8 },
     { top: '15%', left: '60%', rotate: 5 },
@@ -21,6 +32,33 @@ const POSITIONS = [
     { top: '50%', left: '38%', rotate: -3 },
 ];
 
+const SCATTER_ROW_HEIGHT = 300;
+
+/**
+ * Spreads any number of polaroids over a loose grid for the desktop view.
+ * Six photos keep the original hand-tuned layout.
+ * @returns The position of each photo and the height the scatter area needs.
+ */
+function getScatterLayout(count: number): { positions: typeof POSITIONS; height: number } {
+    if (count === POSITIONS.length) {
+        return { positions: POSITIONS, height: 600 };
+    }
+    const cols = Math.min(4, Math.ceil(Math.sqrt(count * 2)));
+    const rows = Math.ceil(count / cols);
+    const positions = Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / cols);
+        const col = index % cols;
+        // Deterministic jitter so the layout doesn't jump around between renders
+        const jitter = ((index * 37) % 11) - 5;
+        return {
+            top: `${(row / rows) * 80 + (col % 2) * 4}%`,
+            left: `${2 + col * (68 / Math.max(1, cols - 1)) + jitter / 2}%`,
+            rotate: ((index * 53) % 21) - 10,
+        };
+    });
+    return { positions, height: Math.max(600, rows * SCATTER_ROW_HEIGHT + 150) };
+}
+
 const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "-150%", y: "-100%", rotate: -30 }, transition: { delay: 0.2 } },
   { initial: { x: "150%", y: "-80%", rotate: 25 }, transition: { delay: 0.4 } },
@@ -36,6 +74,13 @@ interface GeneratedImage {
     status: ImageStatus;
     url?: string;
     error?: string;
+    retryAt?: number;
+    /** Set when a safety rewrite was needed to produce the image. */
+    notice?: string;
+    /** The prompt that produced the image, embedded in downloads. */
+    prompt?: string;
+    /** The image model that generated it, embedded in downloads. */
+    model?: string;
 }
 
 const primaryButtonClasses = "font-permanent-marker text-xl text-center text-black bg-yellow-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)]";
@@ -43,31 +88,59 @@ const secondaryButtonClasses = "font-permanent-marker text-xl text-center text-w
 
 interface HomePageProps {
     isMobile: boolean;
+    /** Admin-managed packs, offered after the built-in Time Travel pack. */
+    seriesPacks: SeriesPack[];
 }
 
-const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
+const HomePage: React.FC<HomePageProps> = ({ isMobile, seriesPacks }) => {
     const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+    // The final size of the uploaded photo after preprocessing, e.g. "1536 × 1152 · 412 KB".
+    const [uploadSummary, setUploadSummary] = useState<string | null>(null);
+    // 'group' puts the people from several labeled photos into every picture of the series.
+    const [photoMode, setPhotoMode] = useState<'single' | 'group'>('single');
+    const [groupPhotos, setGroupPhotos] = useState<GroupPhoto[]>([]);
     const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
     const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [isDownloading, setIsDownloading] = useState<boolean>(false);
+    // The finished images, while the album designer is open.
+    const [albumImages, setAlbumImages] = useState<Record<string, string> | null>(null);
+    const [slideshowImages, setSlideshowImages] = useState<Record<string, string> | null>(null);
     const [appState, setAppState] = useState<'idle' | 'image-uploaded' | 'generating' | 'results-shown'>('idle');
     const [isDragging, setIsDragging] = useState(false);
+    const packs = [TIME_TRAVEL_PACK, ...seriesPacks];
+    const [selectedPackId, setSelectedPackId] = useState<SeriesPack['id']>(TIME_TRAVEL_PACK.id);
+    // The pack of the current results. It stays fixed even if the pick changes afterwards.
+    const [activePack, setActivePack] = useState<SeriesPack>(TIME_TRAVEL_PACK);
+    const selectedPack = packs.find(pack => pack.id === selectedPackId) ?? TIME_TRAVEL_PACK;
+    const items = activePack.itemLabels;
+    const groupError = validateGroupPhotos(groupPhotos);
+    const generationSource: string | GroupPhoto[] | null = photoMode === 'group' ? (groupError ? null : groupPhotos) : uploadedImage;
     const dragAreaRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // One controller per in-flight item. Results from a controller that is no
+    // longer in this map (after "Start Over" or unmounting) are discarded.
+    const controllersRef = useRef<Record<string, AbortController>>({});
+
+    useEffect(() => {
+        return () => abortAllGenerations();
+    }, []);
+
+    const abortAllGenerations = () => {
+        const controllers = controllersRef.current;
+        controllersRef.current = {};
+        Object.values(controllers).forEach(controller => controller.abort());
+    };
 
 
-    const processFile = (file: File) => {
-        if (file && (file.type === "image/png" || file.type === "image/jpeg" || file.type === "image/webp")) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setUploadedImage(reader.result as string);
-                setAppState('image-uploaded');
-                setGeneratedImages({}); // Clear previous results
-            };
-            reader.readAsDataURL(file);
-        } else {
-            console.error("Invalid file type.");
-            alert("Please upload a valid image file (PNG, JPG, WEBP).");
+    const processFile = async (file: File) => {
+        try {
+            const image = await preprocessImageFile(file);
+            setUploadedImage(image.dataUrl);
+            setUploadSummary(describePreprocessedImage(image));
+            setAppState('image-uploaded');
+            setGeneratedImages({}); // Clear previous results
+        } catch (error) {
+            console.error("Failed to process image:", error);
+            alert(error instanceof ImagePreprocessError ? error.message : "Please upload a valid image file (PNG, JPG, WEBP).");
         }
     };
 
@@ -102,151 +175,141 @@ const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
         }
     };
 
+    const processItem = async (source: string | GroupPhoto[], pack: SeriesPack, item: string, priority: GenerationJobPriority, forceNew = false) => {
+        controllersRef.current[item]?.abort();
+        const controller = new AbortController();
+        controllersRef.current[item] = controller;
+        const isCurrent = () => controllersRef.current[item] === controller;
+
+        try {
+            // A group is named in {subject}, so the templates work for one person or several.
+            const values: Record<string, string> = typeof source === 'string' ? {} : { subject: getGroupSubject(source) };
+            const prompt = renderSeriesPrompt(pack.promptTemplate, item, values);
+            const defaultChain = typeof source === 'string' ? DEFAULT_SAFETY_CHAIN : createGroupSafetyChain(values.subject);
+            // The pack's own fallback is the gentlest rewrite, so it goes first.
+            const safetyChain: PromptRewrite[] = pack.fallbackPrompt.trim()
+                ? [createReplacementRewrite('series-fallback', 'Used a safer wording', renderSeriesPrompt(pack.fallbackPrompt, item, values)), ...defaultChain]
+                : defaultChain;
+            const { promise } = enqueueGeneration(
+                (signal) => typeof source === 'string'
+                    ? generateImageFromPrompt(source, prompt, { signal, safetyChain, forceNew })
+                    : generateGroupImage(source, prompt, { signal, safetyChain, forceNew }),
+                { label: item, source: 'home', priority, signal: controller.signal },
+            );
+            const result = await promise;
+            if (!isCurrent()) return;
+            // A cached result was saved when it was first generated.
+            if (!result.cached) void saveCreation({ source: 'home', prompt: result.prompt, url: result.url, model: result.model, sourceImageUrl: typeof source === 'string' ? source : source[0].dataUrl });
+            setGeneratedImages(prev => ({
+                ...prev,
+                [item]: { status: 'done', url: result.url, notice: result.rewrite?.label, prompt: result.prompt, model: result.model },
+            }));
+        } catch (err) {
+            if (!isCurrent()) return;
+            // A pack saved before its placeholders were checked can still be missing a value.
+            const { message, retryAt } = err instanceof PromptTemplateError
+                ? { message: err.message, retryAt: undefined }
+                : getFriendlyError(err, {
+                    [GeminiErrorType.BLOCKED]: "Blocked for safety reasons. Try a different photo.",
+                    [GeminiErrorType.CANCELLED]: "Cancelled. Shake to try again.",
+                });
+            setGeneratedImages(prev => ({
+                ...prev,
+                [item]: { status: 'error', error: message, retryAt },
+            }));
+            console.error(`Failed to generate image for ${item}:`, err);
+        } finally {
+            if (isCurrent()) {
+                delete controllersRef.current[item];
+            }
+        }
+    };
+
     const handleGenerateClick = async () => {
-        if (!uploadedImage) return;
+        if (!generationSource) return;
 
         setIsLoading(true);
         setAppState('generating');
         
+        const pack = selectedPack;
+        setActivePack(pack);
         const initialImages: Record<string, GeneratedImage> = {};
-        DECADES.forEach(decade => {
-            initialImages[decade] = { status: 'pending' };
+        pack.itemLabels.forEach(item => {
+            initialImages[item] = { status: 'pending' };
         });
         setGeneratedImages(initialImages);
 
-        const concurrencyLimit = 2; // Process two decades at a time
-        const decadesQueue = [...DECADES];
-
-        const processDecade = async (decade: string) => {
-            try {
-                const prompt = `Reimagine the person in this photo in the style of the ${decade}. This includes clothing, hairstyle, photo quality, and the overall aesthetic of that decade. The output must be a photorealistic image showing the person clearly.`;
-                const resultUrl = await generateDecadeImage(uploadedImage, prompt);
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [decade]: { status: 'done', url: resultUrl },
-                }));
-            } catch (err) {
-                let friendlyErrorMessage = "Generation failed. Please try again.";
-                if (err instanceof GeminiError) {
-                    switch (err.type) {
-                        case GeminiErrorType.BLOCKED:
-                            friendlyErrorMessage = "Blocked for safety reasons. Try a different photo.";
-                            break;
-                        case GeminiErrorType.RATE_LIMIT:
-                            friendlyErrorMessage = "Too many requests. Please wait a moment.";
-                            break;
-                        case GeminiErrorType.SERVER_ERROR:
-                             friendlyErrorMessage = "The AI model is busy. Please try again.";
-                             break;
-                        default:
-                            friendlyErrorMessage = "An unexpected error occurred.";
-                            break;
-                    }
-                }
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [decade]: { status: 'error', error: friendlyErrorMessage },
-                }));
-                console.error(`Failed to generate image for ${decade}:`, err);
-            }
-        };
-
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (decadesQueue.length > 0) {
-                const decade = decadesQueue.shift();
-                if (decade) {
-                    await processDecade(decade);
-                }
-            }
-        });
-
-        await Promise.all(workers);
+        // Every item goes through the app-wide generation queue, which limits how many run at once.
+        const controllers = controllersRef.current;
+        await Promise.all(pack.itemLabels.map(item => processItem(generationSource, pack, item, 'normal')));
 
+        // "Start Over" swaps out the controller map; don't resurrect the results view.
+        if (controllersRef.current !== controllers) return;
         setIsLoading(false);
         setAppState('results-shown');
     };
 
-    const handleRegenerateDecade = async (decade: string) => {
-        if (!uploadedImage) return;
+    const handleRegenerateItem = async (item: string) => {
+        if (!generationSource) return;
 
         // Prevent re-triggering if a generation is already in progress
-        if (generatedImages[decade]?.status === 'pending') {
+        if (generatedImages[item]?.status === 'pending') {
             return;
         }
         
-        console.log(`Regenerating image for ${decade}...`);
+        console.log(`Regenerating image for ${item}...`);
 
-        // Set the specific decade to 'pending' to show the loading spinner
+        // Set the specific item to 'pending' to show the loading spinner
         setGeneratedImages(prev => ({
             ...prev,
-            [decade]: { status: 'pending' },
+            [item]: { status: 'pending' },
         }));
 
-        // Call the generation service for the specific decade
-        try {
-            const prompt = `Reimagine the person in this photo in the style of the ${decade}. This includes clothing, hairstyle, photo quality, and the overall aesthetic of that decade. The output must be a photorealistic image showing the person clearly.`;
-            const resultUrl = await generateDecadeImage(uploadedImage, prompt);
-            setGeneratedImages(prev => ({
-                ...prev,
-                [decade]: { status: 'done', url: resultUrl },
-            }));
-        } catch (err) {
-            let friendlyErrorMessage = "Regeneration failed. Please try again.";
-             if (err instanceof GeminiError) {
-                switch (err.type) {
-                    case GeminiErrorType.BLOCKED:
-                        friendlyErrorMessage = "Blocked for safety reasons. Try a different photo.";
-                        break;
-                    case GeminiErrorType.RATE_LIMIT:
-                        friendlyErrorMessage = "Too many requests. Please wait a moment.";
-                        break;
-                    case GeminiErrorType.SERVER_ERROR:
-                         friendlyErrorMessage = "The AI model is busy. Please try again.";
-                         break;
-                    default:
-                        friendlyErrorMessage = "An unexpected error occurred.";
-                        break;
-                }
-            }
-            setGeneratedImages(prev => ({
-                ...prev,
-                [decade]: { status: 'error', error: friendlyErrorMessage },
-            }));
-            console.error(`Failed to regenerate image for ${decade}:`, err);
-        }
+        // User-initiated regenerations jump ahead of anything still waiting in the queue,
+        // and skip the cache because the user asked for a new take.
+        await processItem(generationSource, activePack, item, 'high', true);
     };
     
+    const handleCancelItem = (item: string) => {
+        controllersRef.current[item]?.abort();
+    };
+
     const handleReset = () => {
+        abortAllGenerations();
+        setIsLoading(false);
         setUploadedImage(null);
+        setUploadSummary(null);
+        setPhotoMode('single');
+        setGroupPhotos([]);
         setGeneratedImages({});
         setAppState('idle');
     };
 
-    const handleDownloadIndividualImage = (decade: string) => {
-        const image = generatedImages[decade];
+    const handleStartGroup = () => {
+        setPhotoMode('group');
+        setAppState('image-uploaded');
+    };
+
+    const handleDownloadIndividualImage = (item: string, options: ExportOptions) => {
+        const image = generatedImages[item];
         if (image?.status === 'done' && image.url) {
-            const link = document.createElement('a');
-            link.href = image.url;
-            link.download = `trendsnap-${decade}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            void downloadImage(image.url, { prompt: image.prompt ?? item, model: image.model }, `trendsnap-${item}`, options);
         }
     };
 
-    const handleShareImage = async (decade: string) => {
-        const image = generatedImages[decade];
+    const handleShareImage = async (item: string) => {
+        const image = generatedImages[item];
         if (image?.status !== 'done' || !image.url || !navigator.share) return;
 
         try {
-            const response = await fetch(image.url);
-            const blob = await response.blob();
-            const file = new File([blob], `trendsnap-${decade}.jpg`, { type: blob.type });
+            const file = await prepareImageForSharing(image.url, { prompt: image.prompt ?? item, model: image.model }, `trendsnap-${item}`);
 
             const shareData = {
                 files: [file],
                 title: 'TrendSnap Creation',
-                text: `I traveled to the ${decade} with TrendSnap! #TrendSnapAI`,
+                text: activePack.id === TIME_TRAVEL_PACK.id
+                    ? `I traveled to the ${item} with TrendSnap! #TrendSnapAI`
+                    : `${activePack.name}: ${item}, made with TrendSnap! #TrendSnapAI`,
             };
 
             if (navigator.canShare && navigator.canShare(shareData)) {
@@ -259,47 +322,51 @@ const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
         }
     };
 
-    const handleDownloadAlbum = async () => {
-        setIsDownloading(true);
-        try {
-            // FIX: Explicitly type the destructured `image` parameter in the filter and reduce
-            // callbacks to resolve the 'property does not exist on type unknown' error.
-            const imageData = Object.entries(generatedImages)
-                .filter(([, image]: [string, GeneratedImage]) => image.status === 'done' && image.url)
-                .reduce((acc, [decade, image]: [string, GeneratedImage]) => {
-                    acc[decade] = image!.url!;
-                    return acc;
-                }, {} as Record<string, string>);
-
-            if (Object.keys(imageData).length < DECADES.length) {
-                alert("Please wait for all images to finish generating before downloading the album.");
-                return;
+    /**
+     * Collects the finished series, in series order, for an album or slideshow.
+     * @returns The captions mapped to image URLs, or null if some images are still missing.
+     */
+    const getCompletedImageData = (): Record<string, string> | null => {
+        const imageData = items.reduce((acc, item) => {
+            const image = generatedImages[item];
+            if (image?.status === 'done' && image.url) {
+                acc[item] = image.url;
             }
+            return acc;
+        }, {} as Record<string, string>);
 
-            const albumDataUrl = await createAlbumPage(imageData);
+        return Object.keys(imageData).length < items.length ? null : imageData;
+    };
 
-            const link = document.createElement('a');
-            link.href = albumDataUrl;
-            link.download = 'trendsnap-album.jpg';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+    const handleOpenAlbum = () => {
+        const imageData = getCompletedImageData();
+        if (!imageData) {
+            alert("Please wait for all images to finish generating before creating the album.");
+            return;
+        }
+        setAlbumImages(imageData);
+    };
 
-        } catch (error) {
-            console.error("Failed to create or download album:", error);
-            alert("Sorry, there was an error creating your album. Please try again.");
-        } finally {
-            setIsDownloading(false);
+    const handleOpenSlideshow = () => {
+        const imageData = getCompletedImageData();
+        if (!imageData) {
+            alert("Please wait for all images to finish generating before creating the slideshow.");
+            return;
         }
+        setSlideshowImages(imageData);
     };
     
+    const scatterLayout = getScatterLayout(items.length);
+
     return (
         <div className="z-10 flex flex-col items-center justify-center w-full h-full flex-1 min-h-0">
             <input ref={fileInputRef} id="file-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleImageUpload} />
             
             <div className="text-center mb-10">
                 <h1 className="text-5xl font-caveat font-bold text-neutral-100 md:hidden">TrendSnap</h1>
-                <p className="font-permanent-marker text-neutral-300 mt-2 text-xl tracking-wide">Generate yourself through the decades.</p>
+                <p className="font-permanent-marker text-neutral-300 mt-2 text-xl tracking-wide">
+                    {(appState === 'idle' || appState === 'image-uploaded' ? selectedPack : activePack).description || `Generate yourself: ${selectedPack.name}.`}
+                </p>
             </div>
 
             {appState === 'idle' && (
@@ -348,23 +415,55 @@ const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
                         <p className="mt-8 font-permanent-marker text-neutral-500 text-center max-w-xs text-lg">
                             Drag & drop an image, or click the polaroid to upload.
                         </p>
+                        <button onClick={handleStartGroup} className="mt-3 font-permanent-marker text-neutral-400 underline underline-offset-4 hover:text-white transition-colors">
+                            Bringing friends? Upload {MIN_GROUP_PHOTOS}–{MAX_GROUP_PHOTOS} photos
+                        </button>
                     </motion.div>
                 </div>
             )}
 
-            {appState === 'image-uploaded' && uploadedImage && (
+            {appState === 'image-uploaded' && (uploadedImage || photoMode === 'group') && (
                 <div className="flex flex-col items-center gap-6">
-                     <PolaroidCard 
-                        imageUrl={uploadedImage} 
-                        caption="Your Photo" 
-                        status="done"
-                        onReupload={handleReupload}
-                     />
+                     {photoMode === 'group' ? (
+                        <>
+                            <GroupPhotoPicker photos={groupPhotos} onChange={setGroupPhotos} />
+                            {groupError && <p className="text-xs text-neutral-400 -mt-2">{groupError}</p>}
+                        </>
+                     ) : uploadedImage && (
+                        <>
+                            <PolaroidCard 
+                                imageUrl={uploadedImage} 
+                                caption="Your Photo" 
+                                status="done"
+                                onReupload={handleReupload}
+                            />
+                            {uploadSummary && <p className="text-xs text-neutral-500 -mt-2">{uploadSummary}</p>}
+                        </>
+                     )}
+                     {packs.length > 1 && (
+                        <div className="flex flex-wrap justify-center gap-2 max-w-xl" role="radiogroup" aria-label="Series">
+                            {packs.map(pack => (
+                                <button
+                                    key={pack.id}
+                                    role="radio"
+                                    aria-checked={pack.id === selectedPack.id}
+                                    onClick={() => setSelectedPackId(pack.id)}
+                                    title={`${pack.itemLabels.length} photos: ${pack.itemLabels.join(', ')}`}
+                                    className={cn(
+                                        "font-permanent-marker text-sm py-1 px-3 rounded-sm border-2 transition-colors",
+                                        pack.id === selectedPack.id ? "bg-yellow-400 border-yellow-400 text-black" : "border-neutral-600 text-neutral-300 hover:border-white"
+                                    )}
+                                >
+                                    {pack.name}
+                                </button>
+                            ))}
+                        </div>
+                     )}
                      <div className="flex flex-col sm:flex-row items-center gap-4 mt-4">
                         <button onClick={handleReset} className={secondaryButtonClasses}>
-                            Different Photo
+                            {photoMode === 'group' ? 'Just Me' : 'Different Photo'}
                         </button>
-                        <button onClick={handleGenerateClick} className={primaryButtonClasses}>
+                        <button onClick={handleGenerateClick} disabled={!generationSource} className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}>
                             Generate
                         </button>
                      </div>
@@ -375,14 +474,17 @@ const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
                  <>
                     {isMobile ? (
                         <div className="w-full max-w-sm flex-1 overflow-y-auto mt-4 space-y-8 p-4">
-                            {DECADES.map((decade) => (
-                                <div key={decade} className="flex justify-center">
+                            {items.map((item) => (
+                                <div key={item} className="flex justify-center">
                                      <PolaroidCard
-                                        caption={decade}
-                                        status={generatedImages[decade]?.status || 'pending'}
-                                        imageUrl={generatedImages[decade]?.url}
-                                        error={generatedImages[decade]?.error}
-                                        onShake={handleRegenerateDecade}
+                                        caption={item}
+                                        status={generatedImages[item]?.status || 'pending'}
+                                        imageUrl={generatedImages[item]?.url}
+                                        error={generatedImages[item]?.error}
+                                        retryAt={generatedImages[item]?.retryAt}
+                                        notice={generatedImages[item]?.notice}
+                                        onShake={handleRegenerateItem}
+                                        onCancel={handleCancelItem}
                                         onDownload={handleDownloadIndividualImage}
                                         onShare={handleShareImage}
                                         isMobile={isMobile}
@@ -391,12 +493,12 @@ const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
                             ))}
                         </div>
                     ) : (
-                        <div ref={dragAreaRef} className="relative w-full max-w-5xl h-[600px] mt-4">
-                            {DECADES.map((decade, index) => {
-                                const { top, left, rotate } = POSITIONS[index];
+                        <div ref={dragAreaRef} className="relative w-full max-w-5xl mt-4" style={{ height: scatterLayout.height }}>
+                            {items.map((item, index) => {
+                                const { top, left, rotate } = scatterLayout.positions[index];
                                 return (
                                     <motion.div
-                                        key={decade}
+                                        key={item}
                                         className="absolute cursor-grab active:cursor-grabbing"
                                         style={{ top, left }}
                                         initial={{ opacity: 0, scale: 0.5, y: 100, rotate: 0 }}
@@ -410,11 +512,14 @@ const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
                                     >
                                         <PolaroidCard 
                                             dragConstraintsRef={dragAreaRef}
-                                            caption={decade}
-                                            status={generatedImages[decade]?.status || 'pending'}
-                                            imageUrl={generatedImages[decade]?.url}
-                                            error={generatedImages[decade]?.error}
-                                            onShake={handleRegenerateDecade}
+                                            caption={item}
+                                            status={generatedImages[item]?.status || 'pending'}
+                                            imageUrl={generatedImages[item]?.url}
+                                            error={generatedImages[item]?.error}
+                                            retryAt={generatedImages[item]?.retryAt}
+                                            notice={generatedImages[item]?.notice}
+                                            onShake={handleRegenerateItem}
+                                            onCancel={handleCancelItem}
                                             onDownload={handleDownloadIndividualImage}
                                             onShare={handleShareImage}
                                             isMobile={isMobile}
@@ -427,12 +532,11 @@ const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
                      <div className="h-20 mt-4 flex items-center justify-center">
                         {appState === 'results-shown' && (
                             <div className="flex flex-col sm:flex-row items-center gap-4">
-                                <button 
-                                    onClick={handleDownloadAlbum} 
-                                    disabled={isDownloading} 
-                                    className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
-                                >
-                                    {isDownloading ? 'Creating Album...' : 'Download Album'}
+                                <button onClick={handleOpenAlbum} className={primaryButtonClasses}>
+                                    Create Album
+                                </button>
+                                <button onClick={handleOpenSlideshow} className={primaryButtonClasses}>
+                                    Create Slideshow
                                 </button>
                                 <button onClick={handleReset} className={secondaryButtonClasses}>
                                     Start Over
@@ -442,6 +546,19 @@ const HomePage: React.FC<HomePageProps> = ({ isMobile }) => {
                     </div>
                 </>
             )}
+
+            {albumImages && (
+                <AlbumDesigner
+                    imageData={albumImages}
+                    people={photoMode === 'group' ? groupPhotos : undefined}
+                    initialTitle={activePack.id === TIME_TRAVEL_PACK.id ? undefined : activePack.name}
+                    onClose={() => setAlbumImages(null)}
+                />
+            )}
+
+            {slideshowImages && (
+                <SlideshowDialog imageData={slideshowImages} onClose={() => setSlideshowImages(null)} />
+            )}
         </div>
     );
 };
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import { loadImage } from '../lib/imageUtils';
+import { exportMask, hasMaskedPixels } from '../lib/maskUtils';
+
+type BrushMode = 'brush' | 'eraser';
+
+interface MaskEditorProps {
+    imageUrl: string;
+    /**
+     * Called with a black-and-white mask at the image's full resolution (white = edit)
+     * and the prompt describing what the painted area should become.
+     */
+    onApply: (maskDataUrl: string, prompt: string) => void;
+    onCancel: () => void;
+}
+
+const MIN_BRUSH_SIZE = 8;
+const MAX_BRUSH_SIZE = 80;
+
+const toolButtonClasses = "font-permanent-marker text-xs rounded-sm py-1 px-2 border transition-colors";
+
+/**
+ * A brush/eraser overlay for marking the part of an image to regenerate.
+ * It fills its (relatively positioned) parent, e.g. the image area of a PolaroidCard.
+ */
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onApply, onCancel }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const [mode, setMode] = useState<BrushMode>('brush');
+    const [brushSize, setBrushSize] = useState(32);
+    const [prompt, setPrompt] = useState('');
+    const [hasMask, setHasMask] = useState(false);
+    // Read from the native pointer handlers, which are attached once.
+    const toolRef = useRef({ mode, brushSize });
+    toolRef.current = { mode, brushSize };
+
+    useEffect(() => {
+        let isActive = true;
+        loadImage(imageUrl)
+            .then(img => {
+                if (isActive) setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+            })
+            .catch(error => console.error("Failed to load image for masking:", error));
+        return () => { isActive = false; };
+    }, [imageUrl]);
+
+    // Pointer handlers are attached natively so they can stop the event before
+    // it reaches a draggable card, which listens for pointerdown on itself.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !imageSize) return;
+
+        let lastPoint: { x: number; y: number } | null = null;
+
+        const toCanvasPoint = (event: PointerEvent) => {
+            const rect = canvas.getBoundingClientRect();
+            return {
+                x: (event.clientX - rect.left) * (canvas.width / rect.width),
+                y: (event.clientY - rect.top) * (canvas.height / rect.height),
+            };
+        };
+
+        const paintTo = (point: { x: number; y: number }) => {
+            const { mode: currentMode, brushSize: currentSize } = toolRef.current;
+            // The brush size is in screen pixels, so it feels the same on every image.
+            const scale = canvas.width / canvas.getBoundingClientRect().width;
+            ctx.globalCompositeOperation = currentMode === 'eraser' ? 'destination-out' : 'source-over';
+            ctx.strokeStyle = '#ef4444';
+            ctx.lineWidth = currentSize * scale;
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+            ctx.beginPath();
+            ctx.moveTo(lastPoint?.x ?? point.x, lastPoint?.y ?? point.y);
+            ctx.lineTo(point.x, point.y);
+            ctx.stroke();
+            lastPoint = point;
+        };
+
+        const handlePointerDown = (event: PointerEvent) => {
+            event.stopPropagation();
+            event.preventDefault();
+            canvas.setPointerCapture(event.pointerId);
+            lastPoint = null;
+            paintTo(toCanvasPoint(event));
+        };
+        const handlePointerMove = (event: PointerEvent) => {
+            if (!canvas.hasPointerCapture(event.pointerId)) return;
+            event.stopPropagation();
+            paintTo(toCanvasPoint(event));
+        };
+        const handlePointerUp = (event: PointerEvent) => {
+            if (!canvas.hasPointerCapture(event.pointerId)) return;
+            canvas.releasePointerCapture(event.pointerId);
+            lastPoint = null;
+            setHasMask(hasMaskedPixels(canvas));
+        };
+
+        canvas.addEventListener('pointerdown', handlePointerDown);
+        canvas.addEventListener('pointermove', handlePointerMove);
+        canvas.addEventListener('pointerup', handlePointerUp);
+        canvas.addEventListener('pointercancel', handlePointerUp);
+        return () => {
+            canvas.removeEventListener('pointerdown', handlePointerDown);
+            canvas.removeEventListener('pointermove', handlePointerMove);
+            canvas.removeEventListener('pointerup', handlePointerUp);
+            canvas.removeEventListener('pointercancel', handlePointerUp);
+        };
+    }, [imageSize]);
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const handleApply = () => {
+        const canvas = canvasRef.current;
+        if (!canvas || !imageSize || !hasMask || !prompt.trim()) return;
+        onApply(exportMask(canvas, imageSize.width, imageSize.height), prompt.trim());
+    };
+
+    // Keep clicks and drags inside the editor from reaching the card beneath it.
+    const stopPointer = (e: React.SyntheticEvent) => e.stopPropagation();
+
+    return (
+        <div
+            className="absolute inset-0 z-30 flex flex-col bg-black/90"
+            onPointerDown={stopPointer}
+            onClick={stopPointer}
+        >
+            <div className="flex items-center gap-1 p-1.5">
+                {(['brush', 'eraser'] as BrushMode[]).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setMode(option)}
+                        aria-pressed={mode === option}
+                        className={cn(
+                            toolButtonClasses,
+                            mode === option ? "bg-yellow-400 border-yellow-400 text-black" : "border-neutral-600 text-neutral-300 hover:border-white"
+                        )}
+                    >
+                        {option === 'brush' ? 'Brush' : 'Eraser'}
+                    </button>
+                ))}
+                <input
+                    type="range"
+                    min={MIN_BRUSH_SIZE}
+                    max={MAX_BRUSH_SIZE}
+                    value={brushSize}
+                    onChange={(e) => setBrushSize(Number(e.target.value))}
+                    className="flex-1 min-w-0 accent-yellow-400"
+                    aria-label="Brush size"
+                />
+                <button onClick={handleClear} className={cn(toolButtonClasses, "border-neutral-600 text-neutral-300 hover:border-white")}>
+                    Clear
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0 flex items-center justify-center">
+                {imageSize && (
+                    <div
+                        className="relative max-w-full max-h-full"
+                        style={{ aspectRatio: `${imageSize.width} / ${imageSize.height}`, height: imageSize.height >= imageSize.width ? '100%' : undefined, width: imageSize.width > imageSize.height ? '100%' : undefined }}
+                    >
+                        <img src={imageUrl} alt="Image being edited" className="w-full h-full select-none pointer-events-none" draggable={false} />
+                        <canvas
+                            ref={canvasRef}
+                            width={imageSize.width}
+                            height={imageSize.height}
+                            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                        />
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-col gap-1 p-1.5">
+                <input
+                    type="text"
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleApply(); }}
+                    placeholder={hasMask ? "What should the painted area become?" : "Paint the area to change..."}
+                    className="w-full p-1.5 text-xs bg-neutral-900 border border-neutral-700 rounded-sm text-neutral-200 placeholder-neutral-500 focus:outline-none focus:ring-1 focus:ring-yellow-400"
+                    aria-label="Edit prompt"
+                />
+                <div className="flex justify-end gap-1">
+                    <button onClick={onCancel} className={cn(toolButtonClasses, "border-neutral-600 text-neutral-300 hover:bg-white hover:text-black")}>
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={!hasMask || !prompt.trim()}
+                        className={cn(toolButtonClasses, "bg-yellow-400 border-yellow-400 text-black hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed")}
+                    >
+                        Apply Edit
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MaskEditor;
@@ -4,8 +4,11 @@
 */
 import React from 'react';
 import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card';
+import MaskEditor from './MaskEditor';
+import ExportDialog from './ExportDialog';
 import { cn } from '../lib/utils';
 import type { PanInfo } from 'framer-motion';
+import type { ExportOptions } from '../lib/exportPresets';
 
 type ImageStatus = 'pending' | 'done' | 'error';
 
@@ -16,27 +19,75 @@ interface PolaroidCardProps {
     error?: string;
     dragConstraintsRef?: React.RefObject<HTMLElement>;
     onShake?: (caption: string) => void;
-    onDownload?: (caption: string) => void;
+    /** Enables the download button, which asks for a format and size first. */
+    onDownload?: (caption: string, options: ExportOptions) => void;
     onShare?: (caption: string) => void; // New prop for sharing
     onReupload?: () => void;
+    onCancel?: (caption: string) => void;
+    /** Enables the mask editor. Called with a black-and-white mask (white = edit) and the edit prompt. */
+    onApplyMask?: (caption: string, maskDataUrl: string, prompt: string) => void;
+    /** Epoch milliseconds after which a retry makes sense; shown as a countdown on errors. */
+    retryAt?: number;
+    /** A short note shown over a finished image, e.g. which safety rewrite was used. */
+    notice?: string;
     isMobile?: boolean;
 }
 
-const LoadingSpinner = () => (
-    <div className="flex items-center justify-center h-full">
+const LoadingSpinner = ({ onCancel }: { onCancel?: () => void }) => (
+    <div className="flex flex-col items-center justify-center h-full gap-4">
         <svg className="animate-spin h-8 w-8 text-neutral-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
         </svg>
+        {onCancel && (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation(); // Prevent drag from starting on click
+                    onCancel();
+                }}
+                className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors"
+            >
+                Cancel
+            </button>
+        )}
     </div>
 );
 
-const ErrorDisplay = ({ message }: { message?: string }) => (
+// Daily limits reset hours away, so long waits are shown in hours and minutes.
+const formatWait = (seconds: number) => {
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.ceil(seconds / 60);
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const RetryCountdown = ({ retryAt }: { retryAt: number }) => {
+    const [now, setNow] = React.useState(Date.now());
+
+    React.useEffect(() => {
+        if (retryAt <= Date.now()) return;
+        const timer = setInterval(() => {
+            const current = Date.now();
+            setNow(current);
+            if (current >= retryAt) clearInterval(timer);
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [retryAt]);
+
+    const secondsLeft = Math.ceil((retryAt - now) / 1000);
+    if (secondsLeft <= 0) {
+        return <p className="text-xs text-neutral-400 mt-2">You can try again now.</p>;
+    }
+    return <p className="text-xs text-neutral-400 mt-2">Try again in {formatWait(secondsLeft)}</p>;
+};
+
+const ErrorDisplay = ({ message, retryAt }: { message?: string; retryAt?: number }) => (
     <div className="flex flex-col items-center justify-center h-full text-center p-4">
          <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400 mb-2 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
             <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
         </svg>
         <p className="text-sm font-medium text-red-500">{message || "An unknown error occurred."}</p>
+        {retryAt !== undefined && <RetryCountdown retryAt={retryAt} />}
     </div>
 );
 
@@ -51,8 +102,10 @@ const Placeholder = () => (
 );
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, dragConstraintsRef, onShake, onDownload, onShare, onReupload, isMobile }) => {
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, dragConstraintsRef, onShake, onDownload, onShare, onReupload, onCancel, onApplyMask, retryAt, notice, isMobile }) => {
     const [isDeveloped, setIsDeveloped] = React.useState(false);
+    const [isMasking, setIsMasking] = React.useState(false);
+    const [isExporting, setIsExporting] = React.useState(false);
     const [isImageLoaded, setIsImageLoaded] = React.useState(false);
     const lastShakeTime = React.useRef(0);
     const lastVelocity = React.useRef({ x: 0, y: 0 });
@@ -67,6 +120,8 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
             setIsDeveloped(false);
             setIsImageLoaded(false);
         }
+        setIsMasking(false);
+        setIsExporting(false);
     }, [imageUrl, status]);
 
     // When the image is loaded, start the developing animation.
@@ -111,10 +166,31 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
     const cardInnerContent = (
         <>
             <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group">
-                {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay message={error} />}
+                {status === 'pending' && <LoadingSpinner onCancel={onCancel ? () => onCancel(caption) : undefined} />}
+                {status === 'error' && <ErrorDisplay message={error} retryAt={retryAt} />}
                 {status === 'done' && imageUrl && (
                     <>
+                        {isMasking && onApplyMask && (
+                            <MaskEditor
+                                imageUrl={imageUrl}
+                                onApply={(maskDataUrl, prompt) => {
+                                    setIsMasking(false);
+                                    onApplyMask(caption, maskDataUrl, prompt);
+                                }}
+                                onCancel={() => setIsMasking(false)}
+                            />
+                        )}
+                        {isExporting && onDownload && (
+                            <ExportDialog
+                                imageUrl={imageUrl}
+                                title={caption}
+                                onExport={(options) => {
+                                    setIsExporting(false);
+                                    onDownload(caption, options);
+                                }}
+                                onCancel={() => setIsExporting(false)}
+                            />
+                        )}
                         <div className={cn(
                             "absolute top-2 right-2 z-20 flex flex-col gap-2 transition-opacity duration-300",
                             !isMobile && "opacity-0 group-hover:opacity-100",
@@ -134,11 +210,25 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                                     </svg>
                                 </button>
                             )}
+                            {onApplyMask && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setIsMasking(true);
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Edit part of the image for ${caption}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+                                    </svg>
+                                </button>
+                            )}
                             {onDownload && (
                                 <button
                                     onClick={(e) => {
                                         e.stopPropagation(); // Prevent drag from starting on click
-                                        onDownload(caption);
+                                        setIsExporting(true);
                                     }}
                                     className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
                                     aria-label={`Download image for ${caption}`}
@@ -179,6 +269,12 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                         </div>
 
 
+                        {notice && (
+                            <div className="absolute bottom-2 left-2 right-2 z-20 text-[11px] leading-tight text-white bg-black/60 rounded-sm px-2 py-1 pointer-events-none">
+                                {notice}
+                            </div>
+                        )}
+
                         {/* The developing chemical overlay - fades out */}
                         <div
                             className={`absolute inset-0 z-10 bg-[#3a322c] transition-opacity duration-[3500ms] ease-out ${
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { clearGenerationCache, getGenerationCacheStats, type GenerationCacheStats } from '../lib/generationCache';
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Shows how much the generation cache holds and lets the user empty it.
+ */
+const GenerationCachePanel = () => {
+    const [stats, setStats] = useState<GenerationCacheStats | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isClearing, setIsClearing] = useState(false);
+
+    const refreshStats = useCallback(async () => {
+        try {
+            setStats(await getGenerationCacheStats());
+            setError(null);
+        } catch (err) {
+            console.error("Failed to read the generation cache", err);
+            setError("This browser doesn't allow the cache, so every generation calls the model.");
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshStats();
+    }, [refreshStats]);
+
+    const handleClear = async () => {
+        setIsClearing(true);
+        try {
+            await clearGenerationCache();
+            await refreshStats();
+        } catch (err) {
+            console.error("Failed to clear the generation cache", err);
+            setError("Couldn't clear the cache. Please try again.");
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    return (
+        <section className="bg-neutral-900/50 border border-neutral-800 rounded-lg p-6">
+            <h3 className="font-permanent-marker text-2xl text-neutral-100">Generation Cache</h3>
+            <p className="text-neutral-400 mt-2 text-sm">
+                Generating the same photo with the same prompt again shows the saved result instead of calling the model.
+                Shake a card or choose "New Take" to get a fresh image. The oldest results are removed when the cache is full.
+            </p>
+            {error ? (
+                <p className="text-red-400 text-sm mt-4">{error}</p>
+            ) : (
+                <p className="text-neutral-300 mt-4">
+                    {stats
+                        ? `${stats.entries} ${stats.entries === 1 ? 'image' : 'images'}, ${formatMegabytes(stats.bytes)} of ${formatMegabytes(stats.budgetBytes)}`
+                        : 'Loading...'}
+                </p>
+            )}
+            <button
+                onClick={handleClear}
+                disabled={isClearing || !stats || stats.entries === 0}
+                className="mt-4 font-permanent-marker text-lg text-center text-white bg-red-600/80 py-2 px-6 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+            >
+                {isClearing ? 'Clearing...' : 'Clear Cache'}
+            </button>
+        </section>
+    );
+};
+
+const SettingsPage: React.FC = () => {
+    return (
+        <div className="z-10 w-full h-full p-4 md:p-8 overflow-y-auto">
+            <motion.div
+                className="max-w-3xl mx-auto"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+            >
+                <div className="text-center mb-8">
+                    <h2 className="text-5xl md:text-8xl font-caveat font-bold text-neutral-100">Settings</h2>
+                    <p className="font-permanent-marker text-neutral-300 mt-4 text-xl tracking-wide">
+                        Stored in this browser only.
+                    </p>
+                </div>
+                <GenerationCachePanel />
+            </motion.div>
+        </div>
+    );
+};
+
+export default SettingsPage;
@@ -0,0 +1,248 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import {
+    createSlideshowGif, createSlideshowWebm, drawSlideshowFrame, getSlideshowDuration, isWebmSupported, loadSlides,
+    DEFAULT_SLIDESHOW_OPTIONS, SLIDESHOW_TRANSITIONS,
+    type Slide, type SlideshowFormat, type SlideshowOptions,
+} from '../lib/slideshow';
+
+interface SlideshowDialogProps {
+    /** Captions mapped to image URLs, in slide order. */
+    imageData: Record<string, string>;
+    onClose: () => void;
+}
+
+const SLIDESHOW_FORMATS: { value: SlideshowFormat; label: string }[] = [
+    { value: 'gif', label: 'GIF' },
+    { value: 'webm', label: 'WebM' },
+];
+
+const MAX_LOOP_COUNT = 20;
+
+const optionButtonClasses = "font-permanent-marker text-sm rounded-sm py-1 px-3 border transition-colors";
+const selectedOptionClasses = "bg-yellow-400 text-black border-yellow-400";
+const unselectedOptionClasses = "text-neutral-300 border-neutral-600 hover:bg-white hover:text-black";
+
+/**
+ * Turns a finished series into an animated GIF or WebM slideshow, with a live preview
+ * of the transition, timing and captions.
+ */
+const SlideshowDialog: React.FC<SlideshowDialogProps> = ({ imageData, onClose }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [slides, setSlides] = useState<Slide[] | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [options, setOptions] = useState<SlideshowOptions>(DEFAULT_SLIDESHOW_OPTIONS);
+    const [format, setFormat] = useState<SlideshowFormat>('gif');
+    // Null while idle, otherwise how far the export has got, from 0 to 1.
+    const [exportProgress, setExportProgress] = useState<number | null>(null);
+    const canRecordWebm = isWebmSupported();
+
+    const updateOptions = (changes: Partial<SlideshowOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+    useEffect(() => {
+        let isActive = true;
+        loadSlides(imageData)
+            .then(loaded => {
+                if (isActive) setSlides(loaded);
+            })
+            .catch(error => {
+                if (!isActive) return;
+                console.error("Failed to load the slideshow photos:", error);
+                setLoadError("The photos couldn't be loaded.");
+            });
+        return () => {
+            isActive = false;
+        };
+    }, [imageData]);
+
+    // Plays the preview on a loop, restarting whenever an option changes.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || !slides || slides.length === 0) return;
+        const first = slides[0].image;
+        canvas.width = options.width;
+        canvas.height = Math.round(options.width * first.naturalHeight / first.naturalWidth);
+
+        const duration = getSlideshowDuration(slides.length, options);
+        const start = performance.now();
+        let frame = 0;
+        const draw = () => {
+            drawSlideshowFrame(ctx, slides, (performance.now() - start) % duration, options);
+            frame = requestAnimationFrame(draw);
+        };
+        draw();
+        return () => cancelAnimationFrame(frame);
+    }, [slides, options]);
+
+    const handleExport = async () => {
+        if (!slides) return;
+        setExportProgress(0);
+        try {
+            const blob = format === 'webm'
+                ? await createSlideshowWebm(slides, options, setExportProgress)
+                : await createSlideshowGif(slides, options, setExportProgress);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `trendsnap-slideshow.${format}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            setTimeout(() => URL.revokeObjectURL(url), 0);
+        } catch (error) {
+            console.error("Failed to create the slideshow:", error);
+            alert("Sorry, there was an error creating your slideshow. Please try again.");
+        } finally {
+            setExportProgress(null);
+        }
+    };
+
+    const isExporting = exportProgress !== null;
+    const exportLabel = format === 'webm' ? 'Recording' : 'Encoding';
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4"
+            onClick={isExporting ? undefined : onClose}
+        >
+            <motion.div
+                initial={{ y: 50, scale: 0.95 }}
+                animate={{ y: 0, scale: 1 }}
+                role="dialog"
+                aria-modal="true"
+                aria-label="Create a slideshow"
+                className="bg-neutral-900 border border-neutral-700 rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-center bg-neutral-950 rounded-md p-4 min-h-[300px]">
+                    {loadError ? (
+                        <p className="text-sm text-red-400">{loadError}</p>
+                    ) : slides ? (
+                        <canvas ref={canvasRef} className="max-w-full max-h-[70vh] shadow-lg" aria-label="Slideshow preview" />
+                    ) : (
+                        <p className="font-permanent-marker text-neutral-500">Loading photos...</p>
+                    )}
+                </div>
+
+                <div className="space-y-5">
+                    <h3 className="text-3xl font-permanent-marker text-yellow-400">Create Slideshow</h3>
+
+                    <div>
+                        <p className="font-permanent-marker text-neutral-300 mb-2">Format</p>
+                        <div className="flex flex-wrap gap-2">
+                            {SLIDESHOW_FORMATS.map(f => {
+                                const isUnavailable = f.value === 'webm' && !canRecordWebm;
+                                return (
+                                    <button
+                                        key={f.value}
+                                        onClick={() => setFormat(f.value)}
+                                        disabled={isUnavailable}
+                                        title={isUnavailable ? "This browser can't record WebM video." : undefined}
+                                        className={cn(optionButtonClasses, format === f.value ? selectedOptionClasses : unselectedOptionClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}
+                                    >
+                                        {f.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        {format === 'webm' && (
+                            <p className="text-xs text-neutral-500 mt-2">Videos are recorded as they play, so this takes as long as the slideshow.</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <p className="font-permanent-marker text-neutral-300 mb-2">Transition</p>
+                        <div className="flex flex-wrap gap-2">
+                            {SLIDESHOW_TRANSITIONS.map(t => (
+                                <button key={t.value} onClick={() => updateOptions({ transition: t.value })} className={cn(optionButtonClasses, options.transition === t.value ? selectedOptionClasses : unselectedOptionClasses)}>
+                                    {t.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-3">
+                        <label className="flex items-center gap-3 text-sm text-neutral-400">
+                            <span className="w-28">Each photo</span>
+                            <input
+                                type="range"
+                                min={500}
+                                max={5000}
+                                step={250}
+                                value={options.frameDuration}
+                                onChange={(e) => updateOptions({ frameDuration: Number(e.target.value) })}
+                                className="flex-1 accent-yellow-400"
+                            />
+                            <span className="w-12 text-right">{(options.frameDuration / 1000).toFixed(2)}s</span>
+                        </label>
+                        <label className="flex items-center gap-3 text-sm text-neutral-400">
+                            <span className="w-28">Transition</span>
+                            <input
+                                type="range"
+                                min={200}
+                                max={2000}
+                                step={100}
+                                value={options.transitionDuration}
+                                onChange={(e) => updateOptions({ transitionDuration: Number(e.target.value) })}
+                                className="flex-1 accent-yellow-400"
+                            />
+                            <span className="w-12 text-right">{(options.transitionDuration / 1000).toFixed(1)}s</span>
+                        </label>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-neutral-300">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={options.loopCount === 0}
+                                onChange={(e) => updateOptions({ loopCount: e.target.checked ? 0 : 1 })}
+                                className="w-4 h-4 accent-yellow-400"
+                            />
+                            Loop forever
+                        </label>
+                        {options.loopCount !== 0 && (
+                            <label className="flex items-center gap-2">
+                                Play
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_LOOP_COUNT}
+                                    value={options.loopCount}
+                                    onChange={(e) => updateOptions({ loopCount: Math.min(MAX_LOOP_COUNT, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+                                    className="w-16 p-1 bg-neutral-800 border-2 border-neutral-700 rounded-md text-neutral-200"
+                                />
+                                {options.loopCount === 1 ? 'time' : 'times'}
+                            </label>
+                        )}
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={options.showCaptions}
+                                onChange={(e) => updateOptions({ showCaptions: e.target.checked })}
+                                className="w-4 h-4 accent-yellow-400"
+                            />
+                            Captions
+                        </label>
+                    </div>
+
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button onClick={onClose} disabled={isExporting} className={cn(optionButtonClasses, unselectedOptionClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}>Close</button>
+                        <button onClick={handleExport} disabled={!slides || isExporting} className={cn(optionButtonClasses, selectedOptionClasses, "disabled:opacity-50 disabled:cursor-not-allowed")}>
+                            {isExporting ? `${exportLabel}... ${Math.round(exportProgress * 100)}%` : `Download ${format.toUpperCase()}`}
+                        </button>
+                    </div>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+};
+
+export default SlideshowDialog;
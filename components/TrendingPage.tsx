@@ -2,12 +2,21 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useRef } from 'react';
+import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
 import { motion, AnimatePresence, type Variants } from 'framer-motion';
 import PolaroidCard from './PolaroidCard';
+import BeforeAfterComparison from './BeforeAfterComparison';
 import { cn } from '../lib/utils';
-import { generateImageFromPrompt, GeminiError, GeminiErrorType } from '../services/geminiService';
+import { getFriendlyError } from '../lib/errorMessages';
+import { describePreprocessedImage, preprocessImageFile, ImagePreprocessError } from '../lib/imagePreprocessing';
+import { renderPromptTemplate } from '../lib/promptTemplates';
+import { DEFAULT_SAFETY_CHAIN } from '../lib/safetyRewrites';
+import { generateImageFromPrompt, GeminiErrorType } from '../services/geminiService';
+import { enqueueGeneration } from '../services/generationQueue';
 import { Card3D } from './ui/Card3D';
+import { saveCreation } from '../lib/creations';
+import { downloadImage, prepareImageForSharing } from '../services/downloadService';
+import type { ExportOptions } from '../lib/exportPresets';
 
 // Mock data for trending images. In a real app, this would come from an API.
 const trendingImages = [
@@ -47,20 +56,29 @@ type GenerationStatus = 'idle' | 'pending' | 'done' | 'error';
 
 const TrendingPage = () => {
     const [uploadedImageUrl, setUploadedImageUrl] = useState<string | null>(null);
+    const [uploadSummary, setUploadSummary] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
-    const [generationResult, setGenerationResult] = useState<{ status: GenerationStatus; url?: string; error?: string; prompt?: string }>({ status: 'idle' });
-    const [isGenerating, setIsGenerating] = useState(false);
+    const [generationResult, setGenerationResult] = useState<{ status: GenerationStatus; url?: string; error?: string; retryAt?: number; notice?: string; prompt?: string; model?: string }>({ status: 'idle' });
     const [copiedPromptId, setCopiedPromptId] = useState<number | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // Only the most recently selected style may update the result modal.
+    const abortControllerRef = useRef<AbortController | null>(null);
 
-    const processFile = (file: File) => {
-        if (file && (file.type === "image/png" || file.type === "image/jpeg" || file.type === "image/webp")) {
-            const reader = new FileReader();
-            reader.onloadend = () => setUploadedImageUrl(reader.result as string);
-            reader.readAsDataURL(file);
-        } else {
-            alert("Please upload a valid image file (PNG, JPG, WEBP).");
+    // Stop any in-flight generation when the user leaves the page.
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
+    const processFile = async (file: File) => {
+        try {
+            const image = await preprocessImageFile(file);
+            setUploadedImageUrl(image.dataUrl);
+            setUploadSummary(describePreprocessedImage(image));
+        } catch (error) {
+            console.error("Failed to process image:", error);
+            alert(error instanceof ImagePreprocessError ? error.message : "Please upload a valid image file (PNG, JPG, WEBP).");
         }
     };
 
@@ -99,41 +117,55 @@ const TrendingPage = () => {
             alert("Please upload your photo first!");
             return;
         }
-        if (isGenerating) return;
-
-        setIsGenerating(true);
         setGenerationResult({ status: 'pending', prompt });
 
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
-            const resultUrl = await generateImageFromPrompt(uploadedImageUrl, prompt);
-            setGenerationResult({ status: 'done', url: resultUrl, prompt });
+            // Trending styles are one-click, so any template placeholders take their defaults.
+            const finalPrompt = renderPromptTemplate(prompt);
+            const { promise } = enqueueGeneration(
+                (signal) => generateImageFromPrompt(uploadedImageUrl, finalPrompt, { signal, safetyChain: DEFAULT_SAFETY_CHAIN }),
+                { label: prompt.substring(0, 30), source: 'trending', signal: controller.signal },
+            );
+            const result = await promise;
+            if (abortControllerRef.current !== controller) return;
+            // A cached result was saved when it was first generated.
+            if (!result.cached) void saveCreation({ source: 'trending', prompt: result.prompt, url: result.url, model: result.model, sourceImageUrl: uploadedImageUrl });
+            setGenerationResult({ status: 'done', url: result.url, notice: result.rewrite?.label, prompt, model: result.model });
         } catch (err) {
-            let friendlyErrorMessage = "Generation failed. Please try again.";
-            if (err instanceof GeminiError) {
-                switch (err.type) {
-                    case GeminiErrorType.BLOCKED: friendlyErrorMessage = "Blocked for safety. Try a different prompt/photo."; break;
-                    case GeminiErrorType.RATE_LIMIT: friendlyErrorMessage = "Too many requests. Please wait a moment."; break;
-                    case GeminiErrorType.SERVER_ERROR: friendlyErrorMessage = "The AI model is busy. Please try again."; break;
-                    default: friendlyErrorMessage = "An unexpected error occurred."; break;
-                }
-            }
-            setGenerationResult({ status: 'error', error: friendlyErrorMessage, prompt });
+            if (abortControllerRef.current !== controller) return;
+            const { message, retryAt } = getFriendlyError(err, {
+                [GeminiErrorType.BLOCKED]: "Blocked for safety. Try a different prompt/photo.",
+                [GeminiErrorType.CANCELLED]: "Cancelled. Pick the style again to retry.",
+            });
+            setGenerationResult({ status: 'error', error: message, retryAt, prompt });
         } finally {
-            setIsGenerating(false);
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+            }
         }
     };
 
-    const handleCloseModal = () => setGenerationResult({ status: 'idle' });
+    const handleCancelGeneration = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleCloseModal = () => {
+        // Closing the modal abandons any generation that is still running.
+        const controller = abortControllerRef.current;
+        abortControllerRef.current = null;
+        controller?.abort();
+        setGenerationResult({ status: 'idle' });
+        setIsComparing(false);
+    };
     
-    const handleDownload = () => {
+    const handleDownload = (_caption: string, options: ExportOptions) => {
         if (generationResult.status === 'done' && generationResult.url) {
-            const link = document.createElement('a');
-            link.href = generationResult.url;
             const filename = (generationResult.prompt?.substring(0, 30) || 'creation').replace(/[^a-z0-9]/gi, '_').toLowerCase();
-            link.download = `trendsnap-trending-${filename}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            void downloadImage(generationResult.url, { prompt: generationResult.prompt ?? '', model: generationResult.model }, `trendsnap-trending-${filename}`, options);
         }
     };
 
@@ -142,10 +174,7 @@ const TrendingPage = () => {
         if (generationResult.status !== 'done' || !imageUrl || !navigator.share) return;
 
         try {
-            // Convert data URL to a File object
-            const response = await fetch(imageUrl);
-            const blob = await response.blob();
-            const file = new File([blob], 'trendsnap-creation.jpg', { type: blob.type });
+            const file = await prepareImageForSharing(imageUrl, { prompt: generationResult.prompt ?? '', model: generationResult.model }, 'trendsnap-creation');
 
             const shareData = {
                 files: [file],
@@ -196,6 +225,7 @@ const TrendingPage = () => {
                             <div className="flex flex-col items-center gap-4">
                                 <p className="text-center font-permanent-marker text-yellow-400 text-2xl">Step 2: Select a Style Below</p>
                                 <PolaroidCard imageUrl={uploadedImageUrl} caption="Your Photo" status="done" onReupload={handleReupload} />
+                                {uploadSummary && <p className="text-xs text-neutral-500">{uploadSummary}</p>}
                             </div>
                         )}
                     </motion.div>
@@ -212,9 +242,9 @@ const TrendingPage = () => {
                             filteredImages.map((image) => (
                                 <Card3D
                                     key={image.id}
-                                    className={cn("group aspect-w-1 aspect-h-1", isGenerating ? "cursor-not-allowed" : "cursor-pointer")}
+                                    className="group aspect-w-1 aspect-h-1 cursor-pointer"
                                     variants={itemVariants}
-                                    onClick={!isGenerating ? () => handleStyleSelect(image.prompt) : undefined}
+                                    onClick={() => handleStyleSelect(image.prompt)}
                                 >
                                     <img src={image.imageUrl} alt={image.prompt} className="w-full h-full object-cover" loading="lazy" />
                                     <div className="absolute inset-0 bg-black/70 p-4 flex flex-col justify-between text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300">
@@ -275,10 +305,31 @@ const TrendingPage = () => {
                                     status={generationResult.status}
                                     imageUrl={generationResult.url}
                                     error={generationResult.error}
+                                    retryAt={generationResult.retryAt}
+                                    notice={generationResult.notice}
+                                    onCancel={handleCancelGeneration}
                                     onDownload={handleDownload}
                                     onShare={() => handleShare()}
                                 />
                             </div>
+                            {generationResult.status === 'done' && generationResult.url && uploadedImageUrl && (
+                                <div className="flex flex-col items-center gap-4 mt-6">
+                                    <button
+                                        onClick={() => setIsComparing(prev => !prev)}
+                                        className="font-permanent-marker text-sm text-neutral-300 border border-neutral-600 rounded-sm py-1 px-3 hover:bg-white hover:text-black transition-colors"
+                                    >
+                                        {isComparing ? 'Hide Comparison' : 'Compare Before & After'}
+                                    </button>
+                                    {isComparing && (
+                                        <BeforeAfterComparison
+                                            beforeUrl={uploadedImageUrl}
+                                            afterUrl={generationResult.url}
+                                            origin={{ prompt: generationResult.prompt ?? '', model: generationResult.model }}
+                                            baseName="trendsnap-trending-comparison"
+                                        />
+                                    )}
+                                </div>
+                            )}
                         </motion.div>
                     </motion.div>
                 )}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { cn } from '../lib/utils';
+import { getChildVersions, getVersionChain, type ImageVersion, type VersionKind, type VersionTree } from '../lib/versionTree';
+
+interface VersionHistoryProps {
+    tree: VersionTree;
+    /** Makes a version current. Refining it afterwards forks a new branch. */
+    onSelect: (id: number) => void;
+    disabled?: boolean;
+}
+
+const KIND_LABELS: Record<VersionKind, string> = {
+    generate: 'Original',
+    refine: 'Refined',
+    edit: 'Area edit',
+};
+
+const describeChain = (tree: VersionTree, id: number) =>
+    getVersionChain(tree, id).map((version, i) => `${i + 1}. ${version.prompt}`).join('\n');
+
+const VersionNode = ({ tree, version, onSelect, disabled }: VersionHistoryProps & { version: ImageVersion }) => {
+    const children = getChildVersions(tree, version.id);
+    const isCurrent = tree.currentId === version.id;
+
+    return (
+        <li>
+            <button
+                onClick={() => onSelect(version.id)}
+                disabled={disabled}
+                aria-current={isCurrent}
+                title={describeChain(tree, version.id)}
+                className={cn(
+                    "w-full flex items-center gap-3 p-1.5 rounded-sm text-left border transition-colors disabled:cursor-not-allowed",
+                    isCurrent ? "border-yellow-400 bg-yellow-400/10" : "border-transparent hover:border-neutral-600"
+                )}
+            >
+                <img src={version.url} alt="" className="w-10 h-10 object-cover rounded-sm shrink-0" />
+                <span className="min-w-0">
+                    <span className="block font-permanent-marker text-xs text-neutral-400">{KIND_LABELS[version.kind]}</span>
+                    <span className="block text-sm text-neutral-200 truncate">{version.prompt}</span>
+                </span>
+            </button>
+            {children.length > 0 && (
+                <ul className="ml-5 pl-2 border-l border-neutral-700 space-y-1 mt-1">
+                    {children.map(child => (
+                        <VersionNode key={child.id} tree={tree} version={child} onSelect={onSelect} disabled={disabled} />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+};
+
+/**
+ * Shows a branching refinement history and the full chain of prompts behind the current version.
+ */
+const VersionHistory: React.FC<VersionHistoryProps> = ({ tree, onSelect, disabled }) => {
+    const chain = getVersionChain(tree, tree.currentId);
+
+    return (
+        <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+                <p className="font-permanent-marker text-neutral-300 mb-2">Versions</p>
+                <ul className="space-y-1 max-h-80 overflow-y-auto pr-1">
+                    <VersionNode tree={tree} version={tree.versions[tree.rootId]} onSelect={onSelect} disabled={disabled} />
+                </ul>
+            </div>
+            <div>
+                <p className="font-permanent-marker text-neutral-300 mb-2">How this version was made</p>
+                <ol className="space-y-2 list-decimal list-inside text-sm text-neutral-300">
+                    {chain.map(version => (
+                        <li key={version.id}>
+                            <span className="text-neutral-500">{KIND_LABELS[version.kind]}:</span> {version.prompt}
+                            {version.notice && <span className="block text-xs text-neutral-500 ml-5">{version.notice}</span>}
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        </div>
+    );
+};
+
+export default VersionHistory;
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createAlbumPage, getAlbumTemplate, DEFAULT_ALBUM_TITLE, type AlbumOptions } from './albumUtils';
+import { loadImage, parseImageDataUrl } from './imageUtils';
+import { A4_HEIGHT, A4_WIDTH, PdfWriter, type PdfColor, type PdfImage, type PdfRect } from './pdfWriter';
+
+// --- Page Layout (in points) ---
+
+const PAGE_MARGIN = 48;
+const FRAME_WIDTH = 10;
+const CAPTION_SIZE = 30;
+const CAPTION_AREA = 90;
+// Captions are traced at this resolution, so their edges stay sharp in print.
+const TRACE_DPI = 600;
+const POINTS_PER_INCH = 72;
+const JPEG_QUALITY = 0.92;
+const CAPTION_FONT = `'Permanent Marker', cursive`;
+
+// --- Helper Functions ---
+
+function hexToPdfColor(hex: string): PdfColor {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16 & 0xff) / 255, (value >> 8 & 0xff) / 255, (value & 0xff) / 255];
+}
+
+/**
+ * Fits an aspect ratio inside a box, centered.
+ */
+function fitRect(width: number, height: number, box: PdfRect): PdfRect {
+    const scale = Math.min(box.width / width, box.height / height);
+    return {
+        x: box.x + (box.width - width * scale) / 2,
+        y: box.y + (box.height - height * scale) / 2,
+        width: width * scale,
+        height: height * scale,
+    };
+}
+
+/**
+ * Adds an image to the PDF at its full resolution. JPEG data URLs are embedded as they are;
+ * anything else is re-encoded as JPEG, the only format the writer embeds.
+ */
+async function addImage(pdf: PdfWriter, url: string): Promise<PdfImage> {
+    const img = await loadImage(url);
+    const parsed = parseImageDataUrl(url);
+    if (parsed?.mimeType === 'image/jpeg') {
+        return pdf.addJpeg(Uint8Array.from(atob(parsed.data), char => char.charCodeAt(0)), img.naturalWidth, img.naturalHeight);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    // JPEG has no transparency, which would otherwise turn black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0);
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(result => result ? resolve(result) : reject(new Error("Failed to encode the image.")), 'image/jpeg', JPEG_QUALITY);
+    });
+    return pdf.addJpeg(new Uint8Array(await blob.arrayBuffer()), canvas.width, canvas.height);
+}
+
+/**
+ * Traces a caption in the handwritten font into rectangles, so the PDF can draw it as vector
+ * shapes without embedding the font. Runs of inked pixels are merged down the rows to keep
+ * the shape count low.
+ * @param text The caption.
+ * @param size The font size in points.
+ * @param maxWidth The widest the caption may be, in points; longer text is condensed to fit.
+ * @returns The traced shapes in points, relative to the caption's top-left corner, and its size.
+ */
+async function traceCaption(text: string, size: number, maxWidth: number): Promise<{ rects: PdfRect[]; width: number; height: number }> {
+    const pixelsPerPoint = TRACE_DPI / POINTS_PER_INCH;
+    const fontSize = size * pixelsPerPoint;
+    const font = `${fontSize}px ${CAPTION_FONT}`;
+    // The page already uses the font, but it may not have been needed yet.
+    await document.fonts?.load(font, text).catch(() => undefined);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.font = font;
+    const padding = fontSize * 0.1;
+    const textWidth = Math.min(ctx.measureText(text).width, maxWidth * pixelsPerPoint - padding * 2);
+    canvas.width = Math.max(1, Math.ceil(textWidth + padding * 2));
+    canvas.height = Math.ceil(fontSize * 1.4);
+    // Resizing the canvas resets its state.
+    ctx.font = font;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#000';
+    ctx.fillText(text, padding, canvas.height / 2, textWidth);
+
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const rects: PdfRect[] = [];
+    // Runs from the previous row, keyed by their start and end, which the next row can extend.
+    let open = new Map<string, PdfRect>();
+    for (let y = 0; y < height; y++) {
+        const next = new Map<string, PdfRect>();
+        let x = 0;
+        while (x < width) {
+            while (x < width && data[(y * width + x) * 4 + 3] < 128) x++;
+            const start = x;
+            while (x < width && data[(y * width + x) * 4 + 3] >= 128) x++;
+            if (x === start) continue;
+            const key = `${start}:${x}`;
+            let rect = open.get(key);
+            if (rect) {
+                rect.height++;
+            } else {
+                rect = { x: start, y, width: x - start, height: 1 };
+                rects.push(rect);
+            }
+            next.set(key, rect);
+        }
+        open = next;
+    }
+
+    return {
+        rects: rects.map(rect => ({
+            x: rect.x / pixelsPerPoint,
+            y: rect.y / pixelsPerPoint,
+            width: rect.width / pixelsPerPoint,
+            height: rect.height / pixelsPerPoint,
+        })),
+        width: width / pixelsPerPoint,
+        height: height / pixelsPerPoint,
+    };
+}
+
+// --- Public API ---
+
+/**
+ * Creates a printable A4 PDF album: the designed album page as the cover, then one page per
+ * photo at its full resolution, framed, with its caption traced as vector shapes.
+ * @param imageData A record mapping captions to their image URLs, in page order.
+ * @param options The same options as the album page; the cover is drawn with them.
+ * @returns A promise that resolves to the PDF file.
+ */
+export async function createAlbumPdf(imageData: Record<string, string>, options: AlbumOptions = {}): Promise<Blob> {
+    const template = getAlbumTemplate(options.template ?? 'classic-grid');
+    const theme = { ...template.theme, ...options.theme };
+    const background = hexToPdfColor(theme.background);
+    const fullPage: PdfRect = { x: 0, y: 0, width: A4_WIDTH, height: A4_HEIGHT };
+    const pdf = new PdfWriter(options.title || DEFAULT_ALBUM_TITLE);
+
+    const cover = await addImage(pdf, await createAlbumPage(imageData, { ...options, scale: 1 }));
+    const coverPage = pdf.addPage();
+    coverPage.fillRect(fullPage, background);
+    coverPage.drawImage(cover, fitRect(cover.width, cover.height, fullPage));
+
+    const photoArea: PdfRect = {
+        x: PAGE_MARGIN + FRAME_WIDTH,
+        y: PAGE_MARGIN + FRAME_WIDTH,
+        width: A4_WIDTH - (PAGE_MARGIN + FRAME_WIDTH) * 2,
+        height: A4_HEIGHT - (PAGE_MARGIN + FRAME_WIDTH) * 2 - CAPTION_AREA,
+    };
+    for (const [caption, url] of Object.entries(imageData)) {
+        const image = await addImage(pdf, url);
+        const page = pdf.addPage();
+        page.fillRect(fullPage, background);
+
+        const photo = fitRect(image.width, image.height, photoArea);
+        page.fillRect({ x: photo.x - FRAME_WIDTH, y: photo.y - FRAME_WIDTH, width: photo.width + FRAME_WIDTH * 2, height: photo.height + FRAME_WIDTH * 2 }, hexToPdfColor(theme.frame));
+        page.drawImage(image, photo);
+
+        const traced = await traceCaption(caption, CAPTION_SIZE, A4_WIDTH - PAGE_MARGIN * 2);
+        const left = (A4_WIDTH - traced.width) / 2;
+        const top = photo.y + photo.height + FRAME_WIDTH + (CAPTION_AREA - traced.height) / 2;
+        page.fillRects(traced.rects.map(rect => ({ ...rect, x: rect.x + left, y: rect.y + top })), hexToPdfColor(theme.title));
+    }
+
+    return pdf.toBlob();
+}
@@ -2,154 +2,561 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// Helper function to load an image and return it as an HTMLImageElement
-function loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Setting crossOrigin is good practice for canvas operations, even with data URLs
-        img.crossOrigin = 'anonymous';
-        img.onload = () => resolve(img);
-        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-        img.src = src;
+import { loadImage } from './imageUtils';
+import { describeGroup, type GroupPhoto } from './groupPhotos';
+
+// --- Type Definitions ---
+
+export type AlbumTemplateId = 'classic-grid' | 'scrapbook' | 'filmstrip' | 'magazine' | 'story';
+
+export interface AlbumTheme {
+    /** The page color. Film sprocket holes show it too. */
+    background: string;
+    /** Photo frames: the polaroid card, the film, or the border of an inset. */
+    frame: string;
+    /** Captions printed on the frames. */
+    caption: string;
+    title: string;
+    subtitle: string;
+    /** Decorations, such as scrapbook tape and the magazine's rule. */
+    accent: string;
+}
+
+export interface AlbumOptions {
+    /** The layout to use. Classic grid by default. */
+    template?: AlbumTemplateId;
+    /** The page title. Empty hides it. */
+    title?: string;
+    /** The line under the title. Empty hides it. */
+    subtitle?: string;
+    /** Overrides for the template's colors. */
+    theme?: Partial<AlbumTheme>;
+    /** Seeds every tilt and scatter, so the same seed always draws the same page. */
+    seed?: number;
+    /** Draws the page smaller, e.g. for a quick preview. 1 is full resolution. */
+    scale?: number;
+    /** The source photos of a group series, shown under the title with their names. */
+    people?: GroupPhoto[];
+}
+
+type FrameStyle = 'polaroid' | 'film' | 'border' | 'bleed';
+
+interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface PhotoPlacement {
+    /** The photo's position in the album. */
+    index: number;
+    /** The center of the frame, in page pixels. */
+    x: number;
+    y: number;
+    /** The frame's outer size. */
+    width: number;
+    height: number;
+    /** In radians. */
+    rotation: number;
+    frame: FrameStyle;
+    /** Draws a strip of tape over the top edge. */
+    tape?: boolean;
+}
+
+export interface AlbumTemplate {
+    id: AlbumTemplateId;
+    label: string;
+    /** The page size in pixels. */
+    width: number;
+    height: number;
+    theme: AlbumTheme;
+    header: {
+        /** The baseline of the title. */
+        top: number;
+        titleSize: number;
+        subtitleSize: number;
+        font: string;
+        uppercase?: boolean;
+        /** Darkens the top of the page so the title reads over a photo. */
+        scrim?: boolean;
+    };
+    /**
+     * Places the photos in the area under the header. Placements are drawn in order,
+     * so later ones overlap earlier ones.
+     */
+    layout: (count: number, area: Rect, page: Rect, random: () => number) => PhotoPlacement[];
+}
+
+export const DEFAULT_ALBUM_TITLE = 'Generated with TrendSnap';
+export const DEFAULT_ALBUM_SUBTITLE = 'on Google AI Studio';
+
+const PEOPLE_STRIP_HEIGHT = 260;
+// A polaroid is taller than wide, with room for a caption under the photo.
+const POLAROID_ASPECT = 1.2;
+const HANDWRITTEN_FONT = `'Caveat', cursive`;
+
+// --- Helper Functions ---
+
+/**
+ * A small seeded random number generator (mulberry32), so layouts are reproducible.
+ * @returns A function that returns numbers in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Picks a grid that fills an A4 portrait page for the given number of photos.
+ */
+function getAlbumGrid(count: number): { cols: number; rows: number } {
+    const cols = count <= 2 ? 1 : count <= 6 ? 2 : 3;
+    return { cols, rows: Math.max(1, Math.ceil(count / cols)) };
+}
+
+/**
+ * Splits an area into grid cells, one per photo. A partly filled last row is centered.
+ */
+function getGridCells(count: number, area: Rect, cols: number, padding: number): Rect[] {
+    const rows = Math.max(1, Math.ceil(count / cols));
+    const width = (area.width - padding * (cols + 1)) / cols;
+    const height = (area.height - padding * (rows + 1)) / rows;
+    return Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / cols);
+        const col = index % cols;
+        const inRow = Math.min(cols, count - row * cols);
+        const offset = (cols - inRow) * (width + padding) / 2;
+        return {
+            x: area.x + offset + padding * (col + 1) + width * col,
+            y: area.y + padding * (row + 1) + height * row,
+            width,
+            height,
+        };
     });
 }
 
 /**
- * Creates a single "photo album" page image from a collection of decade images.
- * @param imageData A record mapping decade strings to their image data URLs.
- * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ * Finds the largest frame of an aspect ratio (height / width) that fits a share of a cell.
  */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
-    const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        throw new Error('Could not get 2D canvas context');
+function fitFrame(cell: Rect, aspect: number, fill: number): { width: number; height: number } {
+    let width = cell.width * fill;
+    let height = width * aspect;
+    if (height > cell.height * fill) {
+        height = cell.height * fill;
+        width = height / aspect;
     }
+    return { width, height };
+}
 
-    // 1. Draw the album page background
-    ctx.fillStyle = '#fdf5e6'; // A warm, parchment-like color
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+/**
+ * Lays out polaroids in a grid with a slight hand-placed tilt.
+ * Bottom rows are drawn first, so the rows above overlap them.
+ */
+function layoutPolaroidGrid(count: number, area: Rect, cols: number, padding: number, tilt: number, random: () => number): PhotoPlacement[] {
+    return getGridCells(count, area, cols, padding)
+        .map((cell, index) => ({
+            index,
+            x: cell.x + cell.width / 2,
+            y: cell.y + cell.height / 2,
+            ...fitFrame(cell, POLAROID_ASPECT, 0.9),
+            rotation: (random() - 0.5) * tilt,
+            frame: 'polaroid' as const,
+        }))
+        .reverse();
+}
 
-    // 2. Draw the title
-    ctx.fillStyle = '#333';
-    ctx.textAlign = 'center';
+function layoutScrapbook(count: number, area: Rect, _page: Rect, random: () => number): PhotoPlacement[] {
+    const { cols } = getAlbumGrid(count);
+    const placements = getGridCells(count, area, cols, 60).map((cell, index) => {
+        // Frames spill past their cells and overlap, like photos pasted in by hand.
+        const { width, height } = fitFrame(cell, POLAROID_ASPECT, 0.95 + random() * 0.15);
+        return {
+            index,
+            x: cell.x + cell.width / 2 + (random() - 0.5) * cell.width * 0.2,
+            y: cell.y + cell.height / 2 + (random() - 0.5) * cell.height * 0.15,
+            width,
+            height,
+            rotation: (random() - 0.5) * 0.4,
+            frame: 'polaroid' as const,
+            tape: true,
+            order: random(),
+        };
+    });
+    return placements.sort((a, b) => a.order - b.order).map(({ order, ...placement }) => placement);
+}
 
-    ctx.font = `bold 100px 'Caveat', cursive`;
-    ctx.fillText('Generated with TrendSnap', canvasWidth / 2, 150);
+/**
+ * Stacks frames into vertical strips of film. Frames touch, so each strip reads as one piece.
+ */
+function layoutFilmstrip(count: number, area: Rect): PhotoPlacement[] {
+    const maxPerStrip = 5;
+    const strips = Math.max(1, Math.ceil(count / maxPerStrip));
+    const perStrip = Math.ceil(count / strips);
+    const margin = 80;
+    const stripWidth = Math.min((area.width - margin * (strips + 1)) / strips, 1100);
+    const frameHeight = Math.min((area.height - margin * 2) / perStrip, stripWidth * 0.85);
+    const gap = (area.width - stripWidth * strips) / (strips + 1);
+    const top = area.y + (area.height - frameHeight * perStrip) / 2;
 
-    ctx.font = `50px 'Roboto', sans-serif`;
-    ctx.fillStyle = '#555';
-    ctx.fillText('on Google AI Studio', canvasWidth / 2, 220);
+    return Array.from({ length: count }, (_, index) => {
+        const strip = Math.floor(index / perStrip);
+        const position = index % perStrip;
+        return {
+            index,
+            x: area.x + gap * (strip + 1) + stripWidth * strip + stripWidth / 2,
+            y: top + frameHeight * position + frameHeight / 2,
+            width: stripWidth,
+            height: frameHeight,
+            rotation: 0,
+            frame: 'film' as const,
+        };
+    });
+}
 
-    // 3. Load all the polaroid images concurrently
-    const decades = Object.keys(imageData);
-    const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
-    );
+/**
+ * Fills the page with the first photo as a cover, with the rest as small insets along the bottom.
+ */
+function layoutMagazine(count: number, _area: Rect, page: Rect, random: () => number): PhotoPlacement[] {
+    if (count === 0) return [];
+    const placements: PhotoPlacement[] = [{
+        index: 0,
+        x: page.x + page.width / 2,
+        y: page.y + page.height / 2,
+        width: page.width,
+        height: page.height,
+        rotation: 0,
+        frame: 'bleed',
+    }];
 
-    const imagesWithDecades = decades.map((decade, index) => ({
-        decade,
-        img: loadedImages[index],
-    }));
-
-    // 4. Define grid layout and draw each polaroid
-    const grid = { cols: 2, rows: 3, padding: 100 };
-    const contentTopMargin = 300; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
-
-    // Calculate polaroid dimensions to fit inside the grid cell with a margin
-    const polaroidAspectRatio = 1.2; // height is 1.2 times width
-    const maxPolaroidWidth = cellWidth * 0.9;
-    const maxPolaroidHeight = cellHeight * 0.9;
-
-    let polaroidWidth = maxPolaroidWidth;
-    let polaroidHeight = polaroidWidth * polaroidAspectRatio;
-
-    if (polaroidHeight > maxPolaroidHeight) {
-        polaroidHeight = maxPolaroidHeight;
-        polaroidWidth = polaroidHeight / polaroidAspectRatio;
+    const insets = count - 1;
+    const perRow = Math.min(insets, 4);
+    const margin = 120;
+    const gap = 60;
+    const width = Math.min((page.width - margin * 2 - gap * (perRow - 1)) / perRow, page.height * 0.16);
+    const height = width * 1.15;
+    for (let i = 0; i < insets; i++) {
+        // Rows fill from the bottom of the page up.
+        const row = Math.floor(i / perRow);
+        const inRow = Math.min(perRow, insets - row * perRow);
+        const col = i % perRow;
+        const rowWidth = inRow * width + (inRow - 1) * gap;
+        placements.push({
+            index: i + 1,
+            x: page.x + (page.width - rowWidth) / 2 + col * (width + gap) + width / 2,
+            y: page.y + page.height - margin - height / 2 - row * (height + gap),
+            width,
+            height,
+            rotation: (random() - 0.5) * 0.08,
+            frame: 'border',
+        });
+    }
+    return placements;
+}
+
+export const ALBUM_TEMPLATES: AlbumTemplate[] = [
+    {
+        id: 'classic-grid',
+        label: 'Classic Grid',
+        width: 2480,
+        height: 3508,
+        theme: { background: '#fdf5e6', frame: '#ffffff', caption: '#222222', title: '#333333', subtitle: '#555555', accent: '#f5d76e' },
+        header: { top: 150, titleSize: 100, subtitleSize: 50, font: HANDWRITTEN_FONT },
+        layout: (count, area, _page, random) => layoutPolaroidGrid(count, area, getAlbumGrid(count).cols, 100, 0.1, random),
+    },
+    {
+        id: 'scrapbook',
+        label: 'Scrapbook',
+        width: 2480,
+        height: 3508,
+        theme: { background: '#d9c7a3', frame: '#fffdf7', caption: '#2b2b2b', title: '#3b2f2f', subtitle: '#5c4b3b', accent: '#f3e7a1' },
+        header: { top: 170, titleSize: 120, subtitleSize: 55, font: HANDWRITTEN_FONT },
+        layout: layoutScrapbook,
+    },
+    {
+        id: 'filmstrip',
+        label: 'Filmstrip',
+        width: 2480,
+        height: 3508,
+        theme: { background: '#efe9df', frame: '#141414', caption: '#f5a742', title: '#1c1c1c', subtitle: '#555555', accent: '#f5a742' },
+        header: { top: 150, titleSize: 100, subtitleSize: 50, font: `'Permanent Marker', cursive` },
+        layout: layoutFilmstrip,
+    },
+    {
+        id: 'magazine',
+        label: 'Magazine Cover',
+        width: 2480,
+        height: 3508,
+        theme: { background: '#111111', frame: '#ffffff', caption: '#111111', title: '#ffffff', subtitle: '#ffd166', accent: '#e63946' },
+        header: { top: 300, titleSize: 280, subtitleSize: 80, font: `'Roboto', sans-serif`, uppercase: true, scrim: true },
+        layout: layoutMagazine,
+    },
+    {
+        id: 'story',
+        label: 'Story',
+        width: 1080,
+        height: 1920,
+        theme: { background: '#1f1b2e', frame: '#ffffff', caption: '#222222', title: '#ffffff', subtitle: '#c9b8ff', accent: '#c9b8ff' },
+        header: { top: 170, titleSize: 90, subtitleSize: 40, font: HANDWRITTEN_FONT },
+        layout: (count, area, _page, random) => layoutPolaroidGrid(count, area, count <= 3 ? 1 : 2, 50, 0.12, random),
+    },
+];
+
+/**
+ * Looks up a template by id.
+ * @throws {Error} If there is no such template.
+ */
+export function getAlbumTemplate(id: AlbumTemplateId): AlbumTemplate {
+    const template = ALBUM_TEMPLATES.find(t => t.id === id);
+    if (!template) {
+        throw new Error(`Unknown album template "${id}".`);
     }
+    return template;
+}
 
-    const imageContainerWidth = polaroidWidth * 0.9;
-    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
-
-    // Reverse the drawing order: draw bottom rows first so top rows are rendered on top
-    const reversedImages = [...imagesWithDecades].reverse();
-    reversedImages.forEach(({ decade, img }, reversedIndex) => {
-        // Calculate the original index to determine grid position
-        const index = imagesWithDecades.length - 1 - reversedIndex;
-
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
-
-        // Calculate top-left corner of the polaroid within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - polaroidHeight) / 2;
-        
-        ctx.save();
-        
-        // Translate context to the center of the polaroid for rotation
-        ctx.translate(x + polaroidWidth / 2, y + polaroidHeight / 2);
-        
-        // Apply a slight, random rotation for a hand-placed look
-        const rotation = (Math.random() - 0.5) * 0.1; // Radians (approx. +/- 2.8 degrees)
-        ctx.rotate(rotation);
-        
-        // Draw a soft shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-        ctx.shadowBlur = 35;
-        ctx.shadowOffsetX = 5;
-        ctx.shadowOffsetY = 10;
-        
-        // Draw the white polaroid frame (centered at the new origin)
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
-        
-        // Remove shadow for subsequent drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Calculate image dimensions to fit while maintaining aspect ratio
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
+/**
+ * Draws an image scaled to fit inside a box, centered.
+ */
+function drawContained(ctx: CanvasRenderingContext2D, img: HTMLImageElement, box: Rect): void {
+    const scale = Math.min(box.width / img.naturalWidth, box.height / img.naturalHeight);
+    const width = img.naturalWidth * scale;
+    const height = img.naturalHeight * scale;
+    ctx.drawImage(img, box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height);
+}
+
+/**
+ * Draws an image scaled to cover a box, cropping what sticks out.
+ */
+function drawCovered(ctx: CanvasRenderingContext2D, img: HTMLImageElement, box: Rect): void {
+    const scale = Math.max(box.width / img.naturalWidth, box.height / img.naturalHeight);
+    const sourceWidth = box.width / scale;
+    const sourceHeight = box.height / scale;
+    ctx.drawImage(
+        img,
+        (img.naturalWidth - sourceWidth) / 2, (img.naturalHeight - sourceHeight) / 2, sourceWidth, sourceHeight,
+        box.x, box.y, box.width, box.height,
+    );
+}
+
+function setFrameShadow(ctx: CanvasRenderingContext2D, size: number): void {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowBlur = size * 0.05;
+    ctx.shadowOffsetX = size * 0.007;
+    ctx.shadowOffsetY = size * 0.015;
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, text: string, font: string, color: string, y: number, maxWidth: number): void {
+    ctx.fillStyle = color;
+    ctx.font = font;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, 0, y, maxWidth);
+}
+
+/**
+ * Draws one photo in its frame, centered on its placement.
+ */
+function drawPhoto(ctx: CanvasRenderingContext2D, img: HTMLImageElement, caption: string, placement: PhotoPlacement, theme: AlbumTheme): void {
+    const { width, height } = placement;
+    const left = -width / 2;
+    const top = -height / 2;
+
+    ctx.save();
+    ctx.translate(placement.x, placement.y);
+    ctx.rotate(placement.rotation);
+
+    switch (placement.frame) {
+        case 'polaroid': {
+            setFrameShadow(ctx, width);
+            ctx.fillStyle = theme.frame;
+            ctx.fillRect(left, top, width, height);
+            ctx.shadowColor = 'transparent';
+            // A square photo area with an even margin on three sides, and the caption below it.
+            const side = width * 0.9;
+            const margin = (width - side) / 2;
+            drawContained(ctx, img, { x: -side / 2, y: top + margin, width: side, height: side });
+            const captionTop = top + margin + side;
+            // Scales with the polaroid; 60px at the classic 2x3 layout.
+            drawCaption(ctx, caption, `${Math.round(width * 0.085)}px 'Permanent Marker', cursive`, theme.caption, captionTop + (height / 2 - captionTop) / 2, side);
+            break;
+        }
+        case 'border': {
+            setFrameShadow(ctx, width);
+            ctx.fillStyle = theme.frame;
+            ctx.fillRect(left, top, width, height);
+            ctx.shadowColor = 'transparent';
+            const inset = width * 0.04;
+            const side = width - inset * 2;
+            drawCovered(ctx, img, { x: left + inset, y: top + inset, width: side, height: side });
+            const captionTop = top + inset + side;
+            drawCaption(ctx, caption, `bold ${Math.round((height / 2 - captionTop) * 0.45)}px 'Roboto', sans-serif`, theme.caption, captionTop + (height / 2 - captionTop) / 2, side);
+            break;
+        }
+        case 'film': {
+            ctx.fillStyle = theme.frame;
+            ctx.fillRect(left, top, width, height);
+            // Sprocket holes down both edges.
+            const edge = width * 0.12;
+            const hole = { width: edge * 0.45, height: edge * 0.3 };
+            const holes = Math.max(3, Math.round(height / (hole.height * 3)));
+            ctx.fillStyle = theme.background;
+            for (let i = 0; i < holes; i++) {
+                const y = top + (height / holes) * (i + 0.5) - hole.height / 2;
+                ctx.fillRect(left + (edge - hole.width) / 2, y, hole.width, hole.height);
+                ctx.fillRect(width / 2 - (edge + hole.width) / 2, y, hole.width, hole.height);
+            }
+            const photo = { x: left + edge, y: top + height * 0.06, width: width - edge * 2, height: height * 0.74 };
+            drawCovered(ctx, img, photo);
+            drawCaption(ctx, caption, `${Math.round(height * 0.07)}px 'Roboto', sans-serif`, theme.caption, photo.y + photo.height + height * 0.1, photo.width);
+            break;
         }
+        case 'bleed':
+            drawCovered(ctx, img, { x: left, y: top, width, height });
+            break;
+    }
+
+    if (placement.tape) {
+        ctx.globalAlpha = 0.75;
+        ctx.fillStyle = theme.accent;
+        ctx.rotate(-0.04);
+        ctx.fillRect(-width * 0.18, top - width * 0.035, width * 0.36, width * 0.08);
+        ctx.globalAlpha = 1;
+    }
+
+    ctx.restore();
+}
+
+/**
+ * Draws the source photos of a group as a row of small labeled snapshots, centered on `top`.
+ */
+async function drawPeopleStrip(ctx: CanvasRenderingContext2D, people: GroupPhoto[], canvasWidth: number, top: number, theme: AlbumTheme): Promise<void> {
+    const photos = await Promise.all(people.map(person => loadImage(person.dataUrl)));
+    const size = 150;
+    const gap = 60;
+    const totalWidth = photos.length * size + (photos.length - 1) * gap;
+    let x = (canvasWidth - totalWidth) / 2;
 
-        // Calculate position to center the image within its container area
-        const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
-        const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
-        
-        const imgX = -drawWidth / 2; // Horizontally centered due to context translation
-        const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // Draw the handwritten caption
-        ctx.fillStyle = '#222';
-        ctx.font = `60px 'Permanent Marker', cursive`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-
-        const captionAreaTop = imageContainerY + imageContainerHeight;
-        const captionAreaBottom = polaroidHeight / 2;
-        const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
-
-        ctx.fillText(decade, 0, captionY);
-        
-        ctx.restore(); // Restore context to pre-transformation state
+    ctx.font = `40px 'Permanent Marker', cursive`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    photos.forEach((photo, index) => {
+        // Crop each photo to a centered square.
+        const side = Math.min(photo.naturalWidth, photo.naturalHeight);
+        ctx.fillStyle = theme.frame;
+        ctx.fillRect(x - 10, top - 10, size + 20, size + 20);
+        ctx.drawImage(photo, (photo.naturalWidth - side) / 2, (photo.naturalHeight - side) / 2, side, side, x, top, size, size);
+        ctx.fillStyle = theme.subtitle;
+        ctx.fillText(people[index].label, x + size / 2, top + size + 20, size + gap);
+        x += size + gap;
     });
+}
+
+/**
+ * Draws the title block and, for a group, the people in it.
+ * @returns Where the photo area starts.
+ */
+async function drawHeader(ctx: CanvasRenderingContext2D, template: AlbumTemplate, theme: AlbumTheme, title: string, subtitle: string, people: GroupPhoto[]): Promise<number> {
+    const { header, width, height } = template;
+    const subtitleTop = header.top + header.subtitleSize * 1.4;
+    const headerBottom = subtitleTop + header.subtitleSize * 1.6;
+    const maxWidth = width * 0.9;
+
+    if (header.scrim) {
+        const scrim = ctx.createLinearGradient(0, 0, 0, height * 0.4);
+        scrim.addColorStop(0, 'rgba(0, 0, 0, 0.6)');
+        scrim.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        ctx.fillStyle = scrim;
+        ctx.fillRect(0, 0, width, height * 0.4);
+    }
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    if (title) {
+        ctx.fillStyle = theme.title;
+        ctx.font = `bold ${header.titleSize}px ${header.font}`;
+        ctx.fillText(header.uppercase ? title.toUpperCase() : title, width / 2, header.top, maxWidth);
+    }
+    if (subtitle) {
+        ctx.fillStyle = theme.subtitle;
+        ctx.font = `${header.subtitleSize}px 'Roboto', sans-serif`;
+        ctx.fillText(subtitle, width / 2, subtitleTop, maxWidth);
+    }
+    if (header.scrim && (title || subtitle)) {
+        ctx.fillStyle = theme.accent;
+        ctx.fillRect(width * 0.3, subtitleTop + header.subtitleSize * 0.5, width * 0.4, header.subtitleSize * 0.12);
+    }
+
+    if (people.length === 0) return headerBottom;
+    ctx.fillStyle = theme.subtitle;
+    ctx.font = `${header.subtitleSize}px 'Roboto', sans-serif`;
+    ctx.fillText(`Featuring ${describeGroup(people)}`, width / 2, headerBottom, maxWidth);
+    await drawPeopleStrip(ctx, people, width, headerBottom + 40, theme);
+    return headerBottom + PEOPLE_STRIP_HEIGHT;
+}
+
+// --- Public API ---
+
+/**
+ * Creates a single "photo album" page image from a series of generated images.
+ * @param imageData A record mapping captions (e.g. decades) to their image data URLs, in page order.
+ * @param options The template, text, colors and seed of the page, and extras such as the people of a group series.
+ * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ */
+export async function createAlbumPage(imageData: Record<string, string>, options: AlbumOptions = {}): Promise<string> {
+    const template = getAlbumTemplate(options.template ?? 'classic-grid');
+    const theme = { ...template.theme, ...options.theme };
+    const people = options.people ?? [];
+    const scale = options.scale ?? 1;
+    const random = createRandom(options.seed ?? 0);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(template.width * scale);
+    canvas.height = Math.round(template.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    // Everything below is drawn in full-size page pixels.
+    ctx.scale(scale, scale);
+
+    const captions = Object.keys(imageData);
+    const images = await Promise.all(Object.values(imageData).map(url => loadImage(url)));
+    const page: Rect = { x: 0, y: 0, width: template.width, height: template.height };
+
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, page.width, page.height);
+
+    // The header only needs its height to lay out the photos; it is drawn after them so it stays on top of a cover photo.
+    const headerCanvas = document.createElement('canvas');
+    headerCanvas.width = canvas.width;
+    headerCanvas.height = canvas.height;
+    const headerCtx = headerCanvas.getContext('2d');
+    if (!headerCtx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    headerCtx.scale(scale, scale);
+    const contentTop = await drawHeader(
+        headerCtx,
+        template,
+        theme,
+        options.title ?? DEFAULT_ALBUM_TITLE,
+        options.subtitle ?? DEFAULT_ALBUM_SUBTITLE,
+        people,
+    );
+
+    const area: Rect = { x: 0, y: contentTop, width: page.width, height: page.height - contentTop };
+    for (const placement of template.layout(images.length, area, page, random)) {
+        drawPhoto(ctx, images[placement.index], captions[placement.index], placement, theme);
+    }
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(headerCanvas, 0, 0);
 
     // Convert canvas to a high-quality JPEG and return the data URL
     return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+}
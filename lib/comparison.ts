@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './imageUtils';
+
+// --- Type Definitions ---
+
+export type ComparisonLayout = 'side-by-side' | 'split-diagonal';
+
+export interface ComparisonOptions {
+    /** Labels the photos, e.g. 'Before' and 'After'. Empty strings hide them. */
+    beforeLabel?: string;
+    afterLabel?: string;
+}
+
+// --- Constants ---
+
+export const COMPARISON_LAYOUTS: { value: ComparisonLayout; label: string }[] = [
+    { value: 'side-by-side', label: 'Side by Side' },
+    { value: 'split-diagonal', label: 'Diagonal Split' },
+];
+
+// Composites are capped at this height, which is plenty for sharing.
+const MAX_HEIGHT = 1080;
+const JPEG_QUALITY = 0.92;
+
+// --- Drawing ---
+
+/**
+ * Draws an image filling a box, cropped to its aspect ratio around the center.
+ */
+function drawCover(ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    ctx.drawImage(
+        image,
+        (image.naturalWidth - sourceWidth) / 2, (image.naturalHeight - sourceHeight) / 2, sourceWidth, sourceHeight,
+        x, y, width, height,
+    );
+}
+
+/**
+ * Draws a label in a dark rounded badge.
+ * @param align Which side of the badge x refers to.
+ */
+function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, align: 'left' | 'right', fontSize: number) {
+    if (!text) return;
+    ctx.save();
+    ctx.font = `${fontSize}px 'Permanent Marker', cursive`;
+    const padding = fontSize * 0.4;
+    const width = ctx.measureText(text).width + padding * 2;
+    const height = fontSize * 1.5;
+    const left = align === 'left' ? x : x - width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.beginPath();
+    ctx.roundRect(left, y, width, height, height / 4);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, left + padding, y + height / 2);
+    ctx.restore();
+}
+
+// --- Public API ---
+
+/**
+ * Renders a before/after composite for sharing.
+ * Side by side puts the photos next to each other at the same height; a diagonal split shows
+ * the before photo above the diagonal and the after photo below it, in the after photo's frame.
+ * @param beforeUrl The source photo.
+ * @param afterUrl The generated photo.
+ * @param layout How the photos are combined.
+ * @param options The labels to draw.
+ * @returns A promise that resolves to the composite as a JPEG data URL.
+ */
+export async function createComparisonImage(
+    beforeUrl: string,
+    afterUrl: string,
+    layout: ComparisonLayout,
+    { beforeLabel = 'Before', afterLabel = 'After' }: ComparisonOptions = {},
+): Promise<string> {
+    const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)]);
+    const height = Math.min(MAX_HEIGHT, after.naturalHeight);
+    const afterWidth = Math.round(after.naturalWidth * height / after.naturalHeight);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    const fontSize = Math.round(height * 0.04);
+    const inset = fontSize;
+
+    if (layout === 'side-by-side') {
+        const beforeWidth = Math.round(before.naturalWidth * height / before.naturalHeight);
+        const gap = Math.round(height * 0.01);
+        canvas.width = beforeWidth + gap + afterWidth;
+        canvas.height = height;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(before, 0, 0, beforeWidth, height);
+        ctx.drawImage(after, beforeWidth + gap, 0, afterWidth, height);
+        drawLabel(ctx, beforeLabel, inset, inset, 'left', fontSize);
+        drawLabel(ctx, afterLabel, canvas.width - inset, inset, 'right', fontSize);
+    } else {
+        canvas.width = afterWidth;
+        canvas.height = height;
+        ctx.drawImage(after, 0, 0, afterWidth, height);
+
+        // The upper-left triangle, cut from the top-right corner to the bottom-left.
+        ctx.save();
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(afterWidth, 0);
+        ctx.lineTo(0, height);
+        ctx.closePath();
+        ctx.clip();
+        drawCover(ctx, before, 0, 0, afterWidth, height);
+        ctx.restore();
+
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = Math.max(2, Math.round(height * 0.006));
+        ctx.beginPath();
+        ctx.moveTo(afterWidth, 0);
+        ctx.lineTo(0, height);
+        ctx.stroke();
+
+        drawLabel(ctx, beforeLabel, inset, inset, 'left', fontSize);
+        drawLabel(ctx, afterLabel, afterWidth - inset, height - inset - fontSize * 1.5, 'right', fontSize);
+    }
+
+    return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { openDatabase, promisify, transactionDone } from './indexedDb';
+import { createThumbnail } from './imageUtils';
+
+// --- Type Definitions ---
+
+/** The page a creation was generated on. */
+export type CreationSource = 'home' | 'create' | 'trending';
+
+export interface Creation {
+    id: number;
+    source: CreationSource;
+    /** The prompt that produced the image, after any template rendering and safety rewrites. */
+    prompt: string;
+    /** A data URL of the generated image. */
+    url: string;
+    /** The image model that generated it. Missing on creations saved before it was recorded. */
+    model?: string;
+    /** A small preview of the photo the image was generated from. */
+    sourceThumbnailUrl?: string;
+    createdAt: number;
+}
+
+export interface NewCreation {
+    source: CreationSource;
+    prompt: string;
+    url: string;
+    model: string;
+    /** The photo the image was generated from. Only a thumbnail of it is kept. */
+    sourceImageUrl?: string;
+}
+
+const DB_NAME = 'trendsnap-creations';
+const DB_VERSION = 1;
+const STORE_NAME = 'creations';
+
+/** Once the saved creations are larger than this, the oldest ones are deleted. */
+export const CREATIONS_BUDGET_BYTES = 100 * 1024 * 1024;
+
+// --- Helper Functions ---
+
+function openCreationsDatabase(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, db => {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    });
+}
+
+// Data URLs are ASCII, so their length is their size in bytes.
+function getCreationSize(creation: Creation): number {
+    return creation.url.length + (creation.sourceThumbnailUrl?.length ?? 0);
+}
+
+/**
+ * Visits every creation in id order, which is oldest first, one at a time so a large store never loads at once.
+ * @param visit Called with each creation; return false to stop early.
+ */
+function forEachCreation(store: IDBObjectStore, visit: (creation: Creation, cursor: IDBCursorWithValue) => boolean | void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const request = store.openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || visit(cursor.value as Creation, cursor) === false) {
+                resolve();
+                return;
+            }
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Deletes the oldest creations until the store fits its budget.
+ * @param store The object store, inside a read-write transaction.
+ */
+async function evictToBudget(store: IDBObjectStore): Promise<void> {
+    let bytes = 0;
+    await forEachCreation(store, creation => {
+        bytes += getCreationSize(creation);
+    });
+    if (bytes <= CREATIONS_BUDGET_BYTES) return;
+
+    await forEachCreation(store, (creation, cursor) => {
+        if (bytes <= CREATIONS_BUDGET_BYTES) return false;
+        cursor.delete();
+        bytes -= getCreationSize(creation);
+    });
+}
+
+// --- Public API ---
+
+/**
+ * Adds a generated image to "My Creations", deleting the oldest creations if the store is over budget.
+ * Saving is best-effort: errors are logged so a full or unavailable store never fails a generation.
+ */
+export async function saveCreation(creation: NewCreation): Promise<void> {
+    try {
+        const { sourceImageUrl, ...rest } = creation;
+        const sourceThumbnailUrl = sourceImageUrl ? await createThumbnail(sourceImageUrl) : undefined;
+        const db = await openCreationsDatabase();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        // The id is assigned by the store.
+        const store = transaction.objectStore(STORE_NAME);
+        store.add({ ...rest, sourceThumbnailUrl, createdAt: Date.now() });
+        await evictToBudget(store);
+        await transactionDone(transaction);
+    } catch (error) {
+        console.error("Failed to save the creation", error);
+    }
+}
+
+/**
+ * Loads every saved creation.
+ * @returns The creations, newest first.
+ */
+export async function getCreations(): Promise<Creation[]> {
+    const db = await openCreationsDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const creations = await promisify(store.getAll() as IDBRequest<Creation[]>);
+    return creations.reverse();
+}
+
+/**
+ * Deletes creations by id. Unknown ids are ignored.
+ */
+export async function deleteCreations(ids: number[]): Promise<void> {
+    const db = await openCreationsDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeminiError, GeminiErrorType } from '../services/imageProvider';
+import { PromptScreenedError } from './promptScreening';
+
+const DEFAULT_MESSAGES: Record<GeminiErrorType, string> = {
+    [GeminiErrorType.BLOCKED]: "Blocked for safety reasons. Try a different prompt or photo.",
+    [GeminiErrorType.RATE_LIMIT]: "Too many requests. Please wait a moment.",
+    [GeminiErrorType.SERVER_ERROR]: "The AI model is busy. Please try again.",
+    [GeminiErrorType.UNKNOWN]: "An unexpected error occurred.",
+    [GeminiErrorType.CANCELLED]: "Cancelled.",
+    [GeminiErrorType.QUOTA_EXHAUSTED]: "Today's generation limit has been reached. Please come back later.",
+    [GeminiErrorType.INVALID_INPUT]: "This photo couldn't be processed. Try a smaller JPG or PNG.",
+    [GeminiErrorType.NETWORK]: "Can't reach the server. Check your connection and try again.",
+    [GeminiErrorType.TIMEOUT]: "The AI model took too long. Please try again.",
+    [GeminiErrorType.MODEL_UNAVAILABLE]: "The AI model is temporarily unavailable. Please try again soon.",
+    [GeminiErrorType.DAILY_LIMIT]: "You've used all of today's generations. Your limit resets at midnight.",
+};
+
+export interface FriendlyError {
+    message: string;
+    /** Epoch milliseconds after which retrying makes sense, when the service told us. */
+    retryAt?: number;
+}
+
+/**
+ * Maps a generation error to a short message for the UI.
+ * @param err The error thrown by the generation service.
+ * @param overrides Page-specific wording for particular error types.
+ * @param fallback The message for errors that are not a `GeminiError`.
+ * @returns The message, plus a retry time for countdowns when the service sent a Retry-After hint.
+ */
+export function getFriendlyError(
+    err: unknown,
+    overrides: Partial<Record<GeminiErrorType, string>> = {},
+    fallback = "Generation failed. Please try again.",
+): FriendlyError {
+    if (!(err instanceof GeminiError)) {
+        return { message: fallback };
+    }
+    // The admin's own reason is more useful than any page's generic wording.
+    if (err instanceof PromptScreenedError) {
+        const { rule, suggestion } = err.screening;
+        return { message: suggestion ? `${rule.reason} Try: "${suggestion}"` : `${rule.reason} Try rewording your prompt.` };
+    }
+    return {
+        message: overrides[err.type] ?? DEFAULT_MESSAGES[err.type],
+        retryAt: err.retryAfterMs !== undefined ? Date.now() + err.retryAfterMs : undefined,
+    };
+}
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+/** A rectangle in the source image's pixels. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** A social media size. Exports are cropped to its aspect ratio and scaled to exactly its size. */
+export interface ExportPreset {
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+}
+
+/** How to crop, scale and encode an image on download. */
+export interface ExportOptions {
+    format: ExportFormat;
+    /** Between 0 and 1. Ignored for PNG. */
+    quality: number;
+    /** The part of the image to keep. The whole image when omitted. */
+    crop?: CropRect;
+    /** The output size in pixels. The crop's size when omitted. */
+    size?: { width: number; height: number };
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; hasQuality: boolean }[] = [
+    { value: 'image/png', label: 'PNG', extension: 'png', hasQuality: false },
+    { value: 'image/jpeg', label: 'JPEG', extension: 'jpg', hasQuality: true },
+    { value: 'image/webp', label: 'WebP', extension: 'webp', hasQuality: true },
+];
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+    { id: 'instagram-square', label: 'Instagram Square', width: 1080, height: 1080 },
+    { id: 'instagram-portrait', label: 'Instagram Portrait (4:5)', width: 1080, height: 1350 },
+    { id: 'story', label: 'Story (9:16)', width: 1080, height: 1920 },
+    { id: 'x-header', label: 'X Header', width: 1500, height: 500 },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'image/png', quality: 0.92 };
+
+// --- Public API ---
+
+/**
+ * Returns the file extension for an image MIME type, without the dot.
+ * @param mimeType e.g. 'image/jpeg'. Unknown types are treated as PNG.
+ */
+export function getFileExtension(mimeType: string): string {
+    return EXPORT_FORMATS.find(format => format.value === mimeType)?.extension ?? 'png';
+}
+
+/**
+ * Finds the largest crop of an aspect ratio that fits the image, shrunk by a zoom factor.
+ * @param imageWidth The source width in pixels.
+ * @param imageHeight The source height in pixels.
+ * @param aspect The crop's width divided by its height.
+ * @param zoom 1 for the largest crop; 2 for half its width and height.
+ * @param center The point to center the crop on. The image's center when omitted.
+ * @returns The crop, moved inside the image if it would stick out.
+ */
+export function getAspectCrop(
+    imageWidth: number,
+    imageHeight: number,
+    aspect: number,
+    zoom = 1,
+    center: { x: number; y: number } = { x: imageWidth / 2, y: imageHeight / 2 },
+): CropRect {
+    let width = imageWidth;
+    let height = width / aspect;
+    if (height > imageHeight) {
+        height = imageHeight;
+        width = height * aspect;
+    }
+    width /= zoom;
+    height /= zoom;
+    return clampCrop({ x: center.x - width / 2, y: center.y - height / 2, width, height }, imageWidth, imageHeight);
+}
+
+/**
+ * Moves a crop so that it lies inside the image, keeping its size.
+ */
+export function clampCrop(crop: CropRect, imageWidth: number, imageHeight: number): CropRect {
+    return {
+        ...crop,
+        x: Math.min(Math.max(0, crop.x), imageWidth - crop.width),
+        y: Math.min(Math.max(0, crop.y), imageHeight - crop.height),
+    };
+}
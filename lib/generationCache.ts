@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { openDatabase, promisify, transactionDone } from './indexedDb';
+
+// --- Type Definitions ---
+
+interface CacheEntry {
+    /** A SHA-256 hash of everything that went into the request. */
+    key: string;
+    /** A data URL of the generated image. */
+    url: string;
+    /** The approximate size of the entry in bytes. */
+    size: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface GenerationCacheStats {
+    entries: number;
+    bytes: number;
+    budgetBytes: number;
+}
+
+const DB_NAME = 'trendsnap-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'generations';
+const LAST_USED_INDEX = 'lastUsedAt';
+
+/** Once the cache is larger than this, the least recently used images are evicted. */
+export const GENERATION_CACHE_BUDGET_BYTES = 50 * 1024 * 1024;
+
+// --- Helper Functions ---
+
+function openCacheDatabase(): Promise<IDBDatabase> {
+    return openDatabase(DB_NAME, DB_VERSION, db => {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex(LAST_USED_INDEX, 'lastUsedAt');
+    });
+}
+
+/**
+ * Visits every entry of a store or index in key order, one at a time, so large caches never load at once.
+ * @param source The store, or an index to visit in that index's order.
+ * @param visit Called with each entry; return false to stop early.
+ */
+function forEachEntry(source: IDBObjectStore | IDBIndex, visit: (entry: CacheEntry, cursor: IDBCursorWithValue) => boolean | void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const request = source.openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || visit(cursor.value as CacheEntry, cursor) === false) {
+                resolve();
+                return;
+            }
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** Counts the entries of a store and adds up their sizes. */
+async function getTotalSize(store: IDBObjectStore): Promise<{ entries: number; bytes: number }> {
+    let entries = 0;
+    let bytes = 0;
+    await forEachEntry(store, entry => {
+        entries++;
+        bytes += entry.size;
+    });
+    return { entries, bytes };
+}
+
+/**
+ * Deletes the least recently used entries until the cache fits its budget.
+ * @param store The object store, inside a read-write transaction.
+ */
+async function evictToBudget(store: IDBObjectStore): Promise<void> {
+    let { bytes } = await getTotalSize(store);
+    if (bytes <= GENERATION_CACHE_BUDGET_BYTES) return;
+
+    await forEachEntry(store.index(LAST_USED_INDEX), (entry, cursor) => {
+        if (bytes <= GENERATION_CACHE_BUDGET_BYTES) return false;
+        cursor.delete();
+        bytes -= entry.size;
+    });
+}
+
+// --- Public API ---
+
+/**
+ * Hashes the inputs of a generation into a cache key.
+ * @param parts Everything that affects the result, e.g. the model, the prompt and the image data.
+ * @returns A hex SHA-256 digest, or null if the browser can't hash (e.g. outside a secure context).
+ */
+export async function createCacheKey(parts: string[]): Promise<string | null> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+    // The separator can't appear in base64 data or typed prompts, so distinct inputs never collide by concatenation.
+    const bytes = new TextEncoder().encode(parts.join('\u0000'));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Looks up a cached image and marks it as recently used.
+ * The cache is best-effort: storage errors are logged and reported as a miss.
+ * @returns The cached data URL, or null on a miss.
+ */
+export async function getCachedImage(key: string): Promise<string | null> {
+    try {
+        const db = await openCacheDatabase();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const entry = await promisify(store.get(key) as IDBRequest<CacheEntry | undefined>);
+        if (!entry) return null;
+        store.put({ ...entry, lastUsedAt: Date.now() });
+        await transactionDone(transaction);
+        return entry.url;
+    } catch (error) {
+        console.warn("Failed to read from the generation cache", error);
+        return null;
+    }
+}
+
+/**
+ * Stores a generated image, evicting the least recently used ones if the cache is over budget.
+ * Storage errors are logged and otherwise ignored.
+ */
+export async function putCachedImage(key: string, url: string): Promise<void> {
+    // A data URL is ASCII, so its length is its size in bytes.
+    const size = url.length;
+    if (size > GENERATION_CACHE_BUDGET_BYTES) return;
+    try {
+        const db = await openCacheDatabase();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const now = Date.now();
+        store.put({ key, url, size, createdAt: now, lastUsedAt: now } satisfies CacheEntry);
+        await evictToBudget(store);
+        await transactionDone(transaction);
+    } catch (error) {
+        console.warn("Failed to write to the generation cache", error);
+    }
+}
+
+/**
+ * Counts the cached images and their total size.
+ */
+export async function getGenerationCacheStats(): Promise<GenerationCacheStats> {
+    const db = await openCacheDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return { ...(await getTotalSize(store)), budgetBytes: GENERATION_CACHE_BUDGET_BYTES };
+}
+
+/**
+ * Deletes every cached image.
+ */
+export async function clearGenerationCache(): Promise<void> {
+    const db = await openCacheDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+}
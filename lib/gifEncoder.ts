@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+export interface GifFrame {
+    /** The frame's pixels, e.g. from `getImageData`. Every frame must have the GIF's size. */
+    image: ImageData;
+    /** How long the frame shows, in milliseconds. */
+    delay: number;
+}
+
+export interface GifOptions {
+    /** How many times the animation plays. 0 loops forever. */
+    loopCount?: number;
+}
+
+// --- Constants ---
+
+// 5 bits per channel: fine enough for photos, small enough to histogram every frame quickly.
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SIZE = 1 << (HISTOGRAM_BITS * 3);
+const MAX_COLORS = 256;
+// Palette indices take 8 bits, the starting LZW code size.
+const MIN_CODE_SIZE = 8;
+// LZW codes never grow past 12 bits.
+const MAX_CODE = 4096;
+// Browsers show shorter delays as 100ms, so 20ms is the fastest a GIF can reliably play.
+const MIN_DELAY_CS = 2;
+
+const histogramKey = (r: number, g: number, b: number) =>
+    ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// --- Color Quantization ---
+
+/**
+ * Reduces a frame to a 256-color palette with median cut, splitting the histogram box
+ * with the most pixels times the widest channel range until the palette is full.
+ * @returns The palette as RGB triplets and each pixel's palette index.
+ */
+function quantize(data: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } {
+    const counts = new Uint32Array(HISTOGRAM_SIZE);
+    // The real colors in each bucket are averaged, so the palette isn't limited to 5 bits.
+    const sums = new Float64Array(HISTOGRAM_SIZE * 3);
+    for (let i = 0; i < data.length; i += 4) {
+        const key = histogramKey(data[i], data[i + 1], data[i + 2]);
+        counts[key]++;
+        sums[key * 3] += data[i];
+        sums[key * 3 + 1] += data[i + 1];
+        sums[key * 3 + 2] += data[i + 2];
+    }
+
+    const keys = new Int32Array(HISTOGRAM_SIZE);
+    let keyCount = 0;
+    for (let key = 0; key < HISTOGRAM_SIZE; key++) {
+        if (counts[key] > 0) keys[keyCount++] = key;
+    }
+
+    const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 0x1f;
+    const describe = (start: number, end: number) => {
+        const min = [31, 31, 31];
+        const max = [0, 0, 0];
+        let pixels = 0;
+        for (let i = start; i < end; i++) {
+            pixels += counts[keys[i]];
+            for (let c = 0; c < 3; c++) {
+                const value = channel(keys[i], c);
+                if (value < min[c]) min[c] = value;
+                if (value > max[c]) max[c] = value;
+            }
+        }
+        const ranges = max.map((value, c) => value - min[c]);
+        const widest = ranges.indexOf(Math.max(...ranges));
+        return { start, end, pixels, widest, score: end - start > 1 ? pixels * ranges[widest] : 0 };
+    };
+
+    const boxes = [describe(0, keyCount)];
+    while (boxes.length < MAX_COLORS) {
+        let best = 0;
+        for (let i = 1; i < boxes.length; i++) {
+            if (boxes[i].score > boxes[best].score) best = i;
+        }
+        const box = boxes[best];
+        if (box.score === 0) break;
+
+        keys.subarray(box.start, box.end).sort((a, b) => channel(a, box.widest) - channel(b, box.widest));
+        // Split at the pixel median, keeping at least one bucket on each side.
+        let split = box.start + 1;
+        for (let seen = counts[keys[box.start]]; split < box.end - 1 && seen < box.pixels / 2; split++) {
+            seen += counts[keys[split]];
+        }
+        boxes.splice(best, 1, describe(box.start, split), describe(split, box.end));
+    }
+
+    const palette = new Uint8Array(MAX_COLORS * 3);
+    const bucketIndex = new Uint8Array(HISTOGRAM_SIZE);
+    boxes.forEach((box, index) => {
+        const total = [0, 0, 0];
+        for (let i = box.start; i < box.end; i++) {
+            const key = keys[i];
+            bucketIndex[key] = index;
+            for (let c = 0; c < 3; c++) total[c] += sums[key * 3 + c];
+        }
+        for (let c = 0; c < 3; c++) palette[index * 3 + c] = Math.round(total[c] / Math.max(1, box.pixels));
+    });
+
+    const indices = new Uint8Array(data.length / 4);
+    for (let i = 0; i < indices.length; i++) {
+        indices[i] = bucketIndex[histogramKey(data[i * 4], data[i * 4 + 1], data[i * 4 + 2])];
+    }
+    return { palette, indices };
+}
+
+// --- LZW Compression ---
+
+/**
+ * Compresses palette indices with GIF's variable-width LZW.
+ * @param indices The pixels' palette indices.
+ * @param minCodeSize The number of bits a palette index needs, at least 2.
+ * @returns The compressed bytes, before they are split into sub-blocks.
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+    let buffer = 0;
+    let bufferBits = 0;
+    const writeCode = (code: number, size: number) => {
+        buffer |= code << bufferBits;
+        bufferBits += size;
+        while (bufferBits >= 8) {
+            output.push(buffer & 0xff);
+            buffer >>>= 8;
+            bufferBits -= 8;
+        }
+    };
+
+    // Maps a prefix code and the next index to their code, plus one so 0 means no entry.
+    const table = new Uint16Array(MAX_CODE << 8);
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    writeCode(clearCode, codeSize);
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const key = (prefix << 8) | indices[i];
+        const code = table[key];
+        if (code) {
+            prefix = code - 1;
+            continue;
+        }
+        writeCode(prefix, codeSize);
+        if (nextCode === MAX_CODE) {
+            writeCode(clearCode, codeSize);
+            table.fill(0);
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            // The decoder widens its codes one entry later than it adds them, so widen before adding.
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table[key] = ++nextCode;
+        }
+        prefix = indices[i];
+    }
+    writeCode(prefix, codeSize);
+    writeCode(endCode, codeSize);
+    if (bufferBits > 0) output.push(buffer & 0xff);
+    return output;
+}
+
+// --- Public API ---
+
+/**
+ * Encodes frames as an animated GIF. Each frame gets its own 256-color palette,
+ * which keeps photos looking right as a crossfade moves between them.
+ * @param width The GIF width in pixels.
+ * @param height The GIF height in pixels.
+ * @param frames The frames, in order.
+ * @param options How the animation loops.
+ * @param onProgress Called after each frame is encoded, with the number done so far.
+ * @returns A promise that resolves to the GIF file.
+ * @throws {Error} If there are no frames or a frame has the wrong size.
+ */
+export async function encodeGif(
+    width: number,
+    height: number,
+    frames: GifFrame[],
+    options: GifOptions = {},
+    onProgress?: (done: number) => void,
+): Promise<Blob> {
+    if (frames.length === 0) {
+        throw new Error("A GIF needs at least one frame.");
+    }
+
+    // Written a frame at a time, so a long animation never sits in one huge array of numbers.
+    const parts: Uint8Array<ArrayBuffer>[] = [];
+    let bytes: number[] = [];
+    const flush = () => {
+        parts.push(new Uint8Array(bytes));
+        bytes = [];
+    };
+    const writeShort = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+    const writeString = (value: string) => {
+        for (let i = 0; i < value.length; i++) bytes.push(value.charCodeAt(i));
+    };
+
+    writeString('GIF89a');
+    writeShort(width);
+    writeShort(height);
+    // No global color table, 8-bit color resolution; every frame brings its own palette.
+    bytes.push(0x70, 0, 0);
+
+    const loopCount = options.loopCount ?? 0;
+    if (loopCount !== 1) {
+        // The NETSCAPE2.0 extension counts repeats after the first play; 0 repeats forever.
+        writeString('\x21\xff\x0bNETSCAPE2.0');
+        bytes.push(3, 1);
+        writeShort(loopCount === 0 ? 0 : loopCount - 1);
+        bytes.push(0);
+    }
+
+    for (const [index, frame] of frames.entries()) {
+        if (frame.image.width !== width || frame.image.height !== height) {
+            throw new Error(`Frame ${index + 1} is ${frame.image.width}×${frame.image.height}, not ${width}×${height}.`);
+        }
+        const { palette, indices } = quantize(frame.image.data);
+
+        // Graphic control extension: the delay, in hundredths of a second, and no transparency.
+        bytes.push(0x21, 0xf9, 4, 0x04);
+        writeShort(Math.max(MIN_DELAY_CS, Math.round(frame.delay / 10)));
+        bytes.push(0, 0);
+
+        // Image descriptor with a 256-entry local color table.
+        bytes.push(0x2c);
+        writeShort(0);
+        writeShort(0);
+        writeShort(width);
+        writeShort(height);
+        bytes.push(0x87);
+        for (const value of palette) bytes.push(value);
+
+        bytes.push(MIN_CODE_SIZE);
+        const data = lzwEncode(indices, MIN_CODE_SIZE);
+        for (let i = 0; i < data.length; i += 255) {
+            const block = data.slice(i, i + 255);
+            bytes.push(block.length, ...block);
+        }
+        bytes.push(0);
+        flush();
+
+        onProgress?.(index + 1);
+        // Yield between frames so the page stays responsive and can show the progress.
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    bytes.push(0x3b);
+    flush();
+    return new Blob(parts, { type: 'image/gif' });
+}
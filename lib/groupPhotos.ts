@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+/** One photo of a group generation, with the name the prompt uses for the person in it. */
+export interface GroupPhoto {
+    dataUrl: string;
+    label: string;
+}
+
+export const MIN_GROUP_PHOTOS = 2;
+export const MAX_GROUP_PHOTOS = 4;
+
+// --- Public API ---
+
+/**
+ * Checks a group before it is sent for generation.
+ * @returns A human-readable problem, or null when the group is ready.
+ */
+export function validateGroupPhotos(photos: GroupPhoto[]): string | null {
+    if (photos.length < MIN_GROUP_PHOTOS || photos.length > MAX_GROUP_PHOTOS) {
+        return `Add between ${MIN_GROUP_PHOTOS} and ${MAX_GROUP_PHOTOS} photos.`;
+    }
+    const labels = photos.map(photo => photo.label.trim());
+    if (labels.some(label => !label)) {
+        return "Give every photo a name.";
+    }
+    if (new Set(labels.map(label => label.toLowerCase())).size !== labels.length) {
+        return "Every photo needs a different name.";
+    }
+    return null;
+}
+
+/**
+ * Joins the names of a group for use in prompts and captions, e.g. "Alex, Sam and Jo".
+ */
+export function describeGroup(photos: GroupPhoto[]): string {
+    const labels = photos.map(photo => photo.label.trim());
+    if (labels.length <= 1) return labels[0] ?? '';
+    return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+/**
+ * The value of a template's `{subject}` for a group, e.g. "Alex and Sam from these photos".
+ */
+export function getGroupSubject(photos: GroupPhoto[]): string {
+    return `${describeGroup(photos)} from these photos`;
+}
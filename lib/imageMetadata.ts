@@ -0,0 +1,361 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+/** Where a downloaded image came from, embedded in the file as XMP. */
+export interface ProvenanceMetadata {
+    prompt: string;
+    model: string;
+    /** An ISO 8601 timestamp. */
+    createdAt: string;
+    aiGenerated: boolean;
+}
+
+const CREATOR_TOOL = 'TrendSnap';
+// The IPTC term for media created by a generative model, understood by photo libraries and content-credential tools.
+const TRAINED_ALGORITHMIC_MEDIA = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+
+const NS = {
+    x: 'adobe:ns:meta/',
+    rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    dc: 'http://purl.org/dc/elements/1.1/',
+    xmp: 'http://ns.adobe.com/xap/1.0/',
+    iptcExt: 'http://iptc.org/std/Iptc4xmpExt/2008-02-29/',
+    trendsnap: 'http://ns.trendsnap.app/1.0/',
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// PNG stores XMP in an iTXt chunk with this keyword.
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+// JPEG stores XMP in an APP1 segment that starts with this header.
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+// A JPEG segment length is 16 bits and counts itself.
+const MAX_JPEG_SEGMENT_DATA = 0xffff - 2;
+// The VP8X header flag that says a WebP has an 'XMP ' chunk.
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_ALPHA_FLAG = 0x10;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// --- Helper Functions ---
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function buildXmp(metadata: ProvenanceMetadata): string {
+    return `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="${NS.x}">
+ <rdf:RDF xmlns:rdf="${NS.rdf}">
+  <rdf:Description rdf:about=""
+    xmlns:dc="${NS.dc}"
+    xmlns:xmp="${NS.xmp}"
+    xmlns:Iptc4xmpExt="${NS.iptcExt}"
+    xmlns:trendsnap="${NS.trendsnap}"
+    xmp:CreatorTool="${CREATOR_TOOL}"
+    xmp:CreateDate="${escapeXml(metadata.createdAt)}"
+    ${metadata.aiGenerated ? `Iptc4xmpExt:DigitalSourceType="${TRAINED_ALGORITHMIC_MEDIA}"` : ''}
+    trendsnap:Model="${escapeXml(metadata.model)}"
+    trendsnap:AIGenerated="${metadata.aiGenerated ? 'True' : 'False'}">
+   <dc:description>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li>
+    </rdf:Alt>
+   </dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * Reads TrendSnap provenance from an XMP packet.
+ * @returns The metadata, or null if the packet was not written by TrendSnap.
+ */
+function parseXmp(xmp: string): ProvenanceMetadata | null {
+    const doc = new DOMParser().parseFromString(xmp.replace(/<\?xpacket[^>]*\?>/g, '').trim(), 'application/xml');
+    const description = Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'))
+        .find(element => element.getAttributeNS(NS.xmp, 'CreatorTool') === CREATOR_TOOL);
+    if (!description) return null;
+
+    const prompt = description.getElementsByTagNameNS(NS.rdf, 'li')[0]?.textContent ?? '';
+    return {
+        prompt,
+        model: description.getAttributeNS(NS.trendsnap, 'Model') ?? '',
+        createdAt: description.getAttributeNS(NS.xmp, 'CreateDate') ?? '',
+        aiGenerated: description.getAttributeNS(NS.trendsnap, 'AIGenerated') === 'True',
+    };
+}
+
+let crcTable: Uint32Array | null = null;
+
+/** The CRC-32 every PNG chunk ends with, computed over its type and data. */
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(encoder.encode(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+/** An uncompressed iTXt chunk, which holds UTF-8 text unlike the Latin-1 tEXt chunk. */
+function createItxtChunk(keyword: string, text: string): Uint8Array {
+    // keyword \0, compression flag 0, compression method 0, empty language tag \0, empty translated keyword \0
+    const header = concatBytes([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0])]);
+    return createPngChunk('iTXt', concatBytes([header, encoder.encode(text)]));
+}
+
+function isPng(bytes: Uint8Array): boolean {
+    return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+function isJpeg(bytes: Uint8Array): boolean {
+    return bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+function isWebp(bytes: Uint8Array): boolean {
+    return decoder.decode(bytes.subarray(0, 4)) === 'RIFF' && decoder.decode(bytes.subarray(8, 12)) === 'WEBP';
+}
+
+/**
+ * Visits the chunks of a PNG.
+ * @param visit Called with each chunk's type, data and start offset; return false to stop.
+ */
+function forEachPngChunk(bytes: Uint8Array, visit: (type: string, data: Uint8Array, offset: number) => boolean | void): void {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (visit(type, data, offset) === false) return;
+        offset += 12 + length;
+    }
+}
+
+function embedInPng(bytes: Uint8Array, metadata: ProvenanceMetadata): Uint8Array<ArrayBuffer> {
+    let iendOffset = -1;
+    forEachPngChunk(bytes, (type, _, offset) => {
+        if (type === 'IEND') {
+            iendOffset = offset;
+            return false;
+        }
+    });
+    if (iendOffset === -1) {
+        throw new Error("The PNG has no IEND chunk.");
+    }
+    // Plain-text chunks too, for tools that show PNG text but don't read XMP.
+    const chunks = [
+        createItxtChunk(PNG_XMP_KEYWORD, buildXmp(metadata)),
+        createItxtChunk('Description', metadata.prompt),
+        createItxtChunk('Software', CREATOR_TOOL),
+        createItxtChunk('Creation Time', metadata.createdAt),
+    ];
+    return concatBytes([bytes.subarray(0, iendOffset), ...chunks, bytes.subarray(iendOffset)]);
+}
+
+function readFromPng(bytes: Uint8Array): ProvenanceMetadata | null {
+    let xmp: string | null = null;
+    forEachPngChunk(bytes, (type, data) => {
+        if (type !== 'iTXt') return;
+        const keywordEnd = data.indexOf(0);
+        if (decoder.decode(data.subarray(0, keywordEnd)) !== PNG_XMP_KEYWORD) return;
+        // Skip the compression flag and method, then the language tag and translated keyword.
+        if (data[keywordEnd + 1] !== 0) return; // TrendSnap never compresses its XMP.
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        xmp = decoder.decode(data.subarray(translatedEnd + 1));
+        return false;
+    });
+    return xmp ? parseXmp(xmp) : null;
+}
+
+function embedInJpeg(bytes: Uint8Array, metadata: ProvenanceMetadata): Uint8Array<ArrayBuffer> {
+    const payload = concatBytes([encoder.encode(JPEG_XMP_HEADER), encoder.encode(buildXmp(metadata))]);
+    if (payload.length > MAX_JPEG_SEGMENT_DATA) {
+        throw new Error("The metadata is too large for a JPEG segment.");
+    }
+    const segment = new Uint8Array(4 + payload.length);
+    segment.set([0xff, 0xe1], 0);
+    new DataView(segment.buffer).setUint16(2, payload.length + 2);
+    segment.set(payload, 4);
+
+    // Keep a JFIF header first, as some readers expect it straight after the start marker.
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+        insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    }
+    return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+}
+
+function readFromJpeg(bytes: Uint8Array): ProvenanceMetadata | null {
+    const header = encoder.encode(JPEG_XMP_HEADER);
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // The image data starts at SOS; metadata always comes before it.
+        if (marker === 0xda || marker === 0xd9) break;
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const data = bytes.subarray(offset + 4, offset + 2 + length);
+        if (marker === 0xe1 && header.every((byte, i) => data[i] === byte)) {
+            return parseXmp(decoder.decode(data.subarray(header.length)));
+        }
+        offset += 2 + length;
+    }
+    return null;
+}
+
+function createRiffChunk(type: string, data: Uint8Array): Uint8Array {
+    // Chunks are padded to an even length; the size doesn't count the padding.
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(encoder.encode(type), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+}
+
+function getWebpChunks(bytes: Uint8Array): { type: string; data: Uint8Array }[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: { type: string; data: Uint8Array }[] = [];
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset + 4, true);
+        chunks.push({ type: decoder.decode(bytes.subarray(offset, offset + 4)), data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset += 8 + length + (length % 2);
+    }
+    return chunks;
+}
+
+/**
+ * Builds the extended-format header a simple WebP needs before it can hold metadata.
+ * The canvas size is read from the VP8 (lossy) or VP8L (lossless) bitstream header.
+ */
+function createVp8xChunk(image: { type: string; data: Uint8Array }): Uint8Array {
+    const { type, data } = image;
+    let width: number;
+    let height: number;
+    let flags = WEBP_XMP_FLAG;
+    if (type === 'VP8L') {
+        const bits = new DataView(data.buffer, data.byteOffset + 1, 4).getUint32(0, true);
+        width = (bits & 0x3fff) + 1;
+        height = ((bits >>> 14) & 0x3fff) + 1;
+        if ((bits >>> 28) & 1) flags |= WEBP_ALPHA_FLAG;
+    } else if (type === 'VP8 ') {
+        width = ((data[7] << 8) | data[6]) & 0x3fff;
+        height = ((data[9] << 8) | data[8]) & 0x3fff;
+    } else {
+        throw new Error(`Unexpected WebP chunk "${type}".`);
+    }
+    const header = new Uint8Array(10);
+    header[0] = flags;
+    // The canvas width and height minus one, as 24-bit little-endian numbers.
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+    return createRiffChunk('VP8X', header);
+}
+
+function embedInWebp(bytes: Uint8Array, metadata: ProvenanceMetadata): Uint8Array<ArrayBuffer> {
+    const chunks = getWebpChunks(bytes).filter(chunk => chunk.type !== 'XMP ');
+    if (chunks.length === 0) {
+        throw new Error("The WebP has no image data.");
+    }
+    let encoded: Uint8Array[];
+    if (chunks[0].type === 'VP8X') {
+        const header = chunks[0].data.slice();
+        header[0] |= WEBP_XMP_FLAG;
+        encoded = [createRiffChunk('VP8X', header), ...chunks.slice(1).map(chunk => createRiffChunk(chunk.type, chunk.data))];
+    } else {
+        encoded = [createVp8xChunk(chunks[0]), ...chunks.map(chunk => createRiffChunk(chunk.type, chunk.data))];
+    }
+    // XMP goes after the image data, as the container spec orders it.
+    encoded.push(createRiffChunk('XMP ', encoder.encode(buildXmp(metadata))));
+
+    const body = concatBytes([encoder.encode('WEBP'), ...encoded]);
+    const header = new Uint8Array(8);
+    header.set(encoder.encode('RIFF'), 0);
+    new DataView(header.buffer).setUint32(4, body.length, true);
+    return concatBytes([header, body]);
+}
+
+function readFromWebp(bytes: Uint8Array): ProvenanceMetadata | null {
+    const xmp = getWebpChunks(bytes).find(chunk => chunk.type === 'XMP ');
+    return xmp ? parseXmp(decoder.decode(xmp.data)) : null;
+}
+
+// --- Public API ---
+
+/**
+ * Embeds provenance metadata as XMP: an iTXt chunk in a PNG, an APP1 segment in a JPEG,
+ * or an 'XMP ' chunk in a WebP.
+ * @param image A PNG, JPEG or WebP image.
+ * @param metadata The prompt, model, timestamp and AI-generated flag to embed.
+ * @returns A new blob of the same type with the metadata added.
+ * @throws {Error} If the image is not a PNG, JPEG or WebP.
+ */
+export async function embedProvenance(image: Blob, metadata: ProvenanceMetadata): Promise<Blob> {
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    if (isPng(bytes)) {
+        return new Blob([embedInPng(bytes, metadata)], { type: 'image/png' });
+    }
+    if (isJpeg(bytes)) {
+        return new Blob([embedInJpeg(bytes, metadata)], { type: 'image/jpeg' });
+    }
+    if (isWebp(bytes)) {
+        return new Blob([embedInWebp(bytes, metadata)], { type: 'image/webp' });
+    }
+    throw new Error("Only PNG, JPEG and WebP images can carry provenance metadata.");
+}
+
+/**
+ * Reads the provenance metadata of an image downloaded from TrendSnap.
+ * @param image Any image file.
+ * @returns The metadata, or null if the image has none, e.g. because it came from elsewhere.
+ */
+export async function readProvenance(image: Blob): Promise<ProvenanceMetadata | null> {
+    try {
+        const bytes = new Uint8Array(await image.arrayBuffer());
+        if (isPng(bytes)) return readFromPng(bytes);
+        if (isJpeg(bytes)) return readFromJpeg(bytes);
+        if (isWebp(bytes)) return readFromWebp(bytes);
+    } catch (error) {
+        // Corrupt metadata should never stop an upload.
+        console.warn("Failed to read image metadata", error);
+    }
+    return null;
+}
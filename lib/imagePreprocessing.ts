@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './imageUtils';
+
+// --- Type Definitions ---
+
+export interface PreprocessOptions {
+    /** The longest edge of the output, in pixels. Smaller images are never upscaled. */
+    maxEdge?: number;
+    /** The preferred output format. Falls back to JPEG where the browser can't encode it. */
+    mimeType?: 'image/webp' | 'image/jpeg';
+    /** Encoder quality between 0 and 1. */
+    quality?: number;
+}
+
+export interface PreprocessedImage {
+    /** The re-encoded image, ready for `uploadImage`. */
+    file: File;
+    /** The same image as a data URL, ready for generation. */
+    dataUrl: string;
+    width: number;
+    height: number;
+    mimeType: string;
+    byteSize: number;
+    originalByteSize: number;
+}
+
+export class ImagePreprocessError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImagePreprocessError';
+    }
+}
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Large enough for the model to see detail, small enough to keep requests fast.
+export const DEFAULT_MAX_EDGE = 1536;
+
+// --- Helper Functions ---
+
+/**
+ * Decodes the file with its EXIF orientation applied, so sideways phone photos come out upright.
+ */
+async function decodeUpright(file: File): Promise<ImageBitmap | HTMLImageElement> {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            return await createImageBitmap(file, { imageOrientation: 'from-image' });
+        } catch (error) {
+            console.warn("createImageBitmap failed, falling back to an <img> element.", error);
+        }
+    }
+    // <img> applies EXIF orientation by default in every current browser.
+    const objectUrl = URL.createObjectURL(file);
+    try {
+        return await loadImage(objectUrl);
+    } finally {
+        URL.revokeObjectURL(objectUrl);
+    }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob | null> {
+    return new Promise(resolve => canvas.toBlob(resolve, mimeType, quality));
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+// --- Public API ---
+
+/**
+ * Prepares a user's photo for generation or upload: applies EXIF orientation,
+ * downsizes it to `maxEdge`, and re-encodes it. Drawing through a canvas drops
+ * every piece of metadata, including GPS coordinates.
+ * @param file The file picked or dropped by the user.
+ * @param options The size and format of the output.
+ * @returns The processed image with its final dimensions and byte size.
+ * @throws {ImagePreprocessError} If the file is not a supported image or can't be decoded.
+ */
+export async function preprocessImageFile(file: File, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+    const { maxEdge = DEFAULT_MAX_EDGE, mimeType = 'image/webp', quality = 0.9 } = options;
+
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+        throw new ImagePreprocessError("Please upload a valid image file (PNG, JPG, WEBP).");
+    }
+
+    let source: ImageBitmap | HTMLImageElement;
+    try {
+        source = await decodeUpright(file);
+    } catch (error) {
+        console.error("Failed to decode image:", error);
+        throw new ImagePreprocessError("This image couldn't be read. Please try a different file.");
+    }
+
+    const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+    const scale = Math.min(1, maxEdge / Math.max(sourceWidth, sourceHeight));
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new ImagePreprocessError('Could not get 2D canvas context');
+    }
+    ctx.imageSmoothingQuality = 'high';
+
+    const draw = (background?: string) => {
+        ctx.clearRect(0, 0, width, height);
+        if (background) {
+            // JPEG has no alpha channel; transparent areas would otherwise turn black.
+            ctx.fillStyle = background;
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.drawImage(source, 0, 0, width, height);
+    };
+
+    draw(mimeType === 'image/jpeg' ? '#fff' : undefined);
+    let blob = await canvasToBlob(canvas, mimeType, quality);
+    // Browsers that can't encode the requested type silently return a PNG instead.
+    if (!blob || blob.type !== mimeType) {
+        draw('#fff');
+        blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+    }
+    if ('close' in source) {
+        source.close();
+    }
+    if (!blob) {
+        throw new ImagePreprocessError("This image couldn't be processed. Please try a different file.");
+    }
+
+    const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'photo';
+    const processedFile = new File([blob], `${baseName}.${extension}`, { type: blob.type });
+
+    return {
+        file: processedFile,
+        dataUrl: await blobToDataUrl(blob),
+        width,
+        height,
+        mimeType: blob.type,
+        byteSize: blob.size,
+        originalByteSize: file.size,
+    };
+}
+
+/**
+ * Formats a byte count for display, e.g. "412 KB" or "3.1 MB".
+ */
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Describes a processed image for the user, e.g. "1536 × 1152 · 412 KB (was 4.2 MB)".
+ */
+export function describePreprocessedImage(image: PreprocessedImage): string {
+    const summary = `${image.width} × ${image.height} · ${formatBytes(image.byteSize)}`;
+    return image.originalByteSize > image.byteSize ? `${summary} (was ${formatBytes(image.originalByteSize)})` : summary;
+}
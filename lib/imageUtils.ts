@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Loads an image and returns it as an HTMLImageElement once it has decoded.
+ * @param src The image URL or data URL.
+ * @returns A promise that resolves to the loaded image element.
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        // Setting crossOrigin is good practice for canvas operations, even with data URLs
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+}
+
+/**
+ * Splits a base64 data URL into its MIME type and payload.
+ * @param dataUrl A data URL string, e.g. 'data:image/png;base64,...'.
+ * @returns The MIME type and base64 data, or null if the string is not a base64 image data URL.
+ */
+export function parseImageDataUrl(dataUrl: string): { mimeType: string; data: string } | null {
+    const match = dataUrl.match(/^data:(image\/[\w.+-]+);base64,(.*)$/);
+    return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
+/**
+ * Downloads an image and returns it as a base64 data URL, e.g. to send a hosted image for generation.
+ * Data URLs are returned unchanged.
+ * @param url The image URL.
+ * @returns A promise that resolves to the data URL.
+ * @throws {Error} If the image can't be fetched, e.g. because its host blocks cross-origin requests.
+ */
+export async function fetchImageAsDataUrl(url: string): Promise<string> {
+    if (url.startsWith('data:')) return url;
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch image (${response.status}): ${url.substring(0, 50)}...`);
+    }
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Draws a small square JPEG preview of an image, cropped to its center.
+ * @param src The image URL or data URL.
+ * @param size The width and height of the thumbnail in pixels.
+ * @returns A promise that resolves to the thumbnail as a data URL.
+ */
+export async function createThumbnail(src: string, size = 160): Promise<string> {
+    const img = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Could not get 2D canvas context");
+    }
+    const side = Math.min(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, (img.naturalWidth - side) / 2, (img.naturalHeight - side) / 2, side, side, 0, 0, size, size);
+    return canvas.toDataURL('image/jpeg', 0.8);
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Small promise wrappers shared by the stores that keep data in this browser.
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Opens a database once and reuses the connection for later calls.
+ * @param name The database name.
+ * @param version The schema version. Raising it runs `upgrade`.
+ * @param upgrade Creates the object stores and indexes of the schema.
+ * @throws {Error} If IndexedDB is unavailable, e.g. in some private browsing modes.
+ */
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+    let connection = connections.get(name);
+    if (!connection) {
+        connection = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available."));
+                return;
+            }
+            const request = indexedDB.open(name, version);
+            request.onupgradeneeded = () => upgrade(request.result);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again instead of caching the failure forever.
+        connection.catch(() => connections.delete(name));
+        connections.set(name, connection);
+    }
+    return connection;
+}
+
+/** Wraps an IndexedDB request in a promise. */
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** Resolves once a transaction has committed. */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './imageUtils';
+
+// --- Helper Functions ---
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    return { canvas, ctx };
+}
+
+// --- Public API ---
+
+/**
+ * Returns true if any pixel of the mask is marked for editing.
+ * @param mask A canvas whose painted (opaque) pixels mark the area to edit.
+ */
+export function hasMaskedPixels(mask: HTMLCanvasElement): boolean {
+    const ctx = mask.getContext('2d');
+    if (!ctx) return false;
+    const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) return true;
+    }
+    return false;
+}
+
+/**
+ * Converts a painted overlay into the black-and-white mask sent to the provider.
+ * Any painted pixel becomes white (edit); everything else becomes black (keep).
+ * @param overlay The canvas the user painted on. Its alpha channel is the mask.
+ * @param width The width of the source image; the mask is scaled to match.
+ * @param height The height of the source image.
+ * @returns A PNG data URL of the mask.
+ */
+export function exportMask(overlay: HTMLCanvasElement, width: number, height: number): string {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(overlay, 0, 0, width, height);
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        const value = data[i + 3] > 0 ? 255 : 0;
+        data[i] = value;
+        data[i + 1] = value;
+        data[i + 2] = value;
+        data[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Copies the generated pixels onto the source only where the mask is white, so
+ * every pixel outside the mask stays identical to the source image.
+ * @param sourceUrl A data URL of the original image.
+ * @param generatedUrl A data URL of the provider's output. It is resized to the source if needed.
+ * @param maskUrl A black-and-white data URL the size of the source image.
+ * @returns A PNG data URL of the composited image.
+ */
+export async function compositeWithMask(sourceUrl: string, generatedUrl: string, maskUrl: string): Promise<string> {
+    const [source, generated, mask] = await Promise.all([loadImage(sourceUrl), loadImage(generatedUrl), loadImage(maskUrl)]);
+    const width = source.naturalWidth;
+    const height = source.naturalHeight;
+
+    // Turn the mask's luminance into alpha, then keep the generated pixels only where it is opaque.
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.drawImage(mask, 0, 0, width, height);
+    const maskData = maskCtx.getImageData(0, 0, width, height);
+    for (let i = 0; i < maskData.data.length; i += 4) {
+        // Thresholded rather than blended, so no partially edited pixels leak outside the mask.
+        maskData.data[i + 3] = maskData.data[i] >= 128 ? 255 : 0;
+    }
+    maskCtx.putImageData(maskData, 0, 0);
+
+    const { canvas: patchCanvas, ctx: patchCtx } = createCanvas(width, height);
+    patchCtx.drawImage(generated, 0, 0, width, height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(maskCanvas, 0, 0);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(source, 0, 0);
+    ctx.drawImage(patchCanvas, 0, 0);
+    // PNG is lossless, so the unmasked pixels survive the encode unchanged.
+    return canvas.toDataURL('image/png');
+}
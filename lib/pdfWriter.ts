@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+/** A color as red, green and blue, each between 0 and 1. */
+export type PdfColor = [number, number, number];
+
+/** A rectangle in points, measured from the top-left corner of the page like a canvas. */
+export interface PdfRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** An image added to the document, which any page can draw. */
+export interface PdfImage {
+    readonly name: string;
+    readonly width: number;
+    readonly height: number;
+}
+
+interface StoredImage extends PdfImage {
+    data: Uint8Array<ArrayBuffer>;
+    /** The color space and, for inverted Adobe CMYK, the decode array to declare. */
+    colorSpace: string;
+}
+
+/** An A4 page, in points. */
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const encoder = new TextEncoder();
+
+// --- Helper Functions ---
+
+/** Formats a number for a content stream, without exponents or needless digits. */
+const num = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const rgb = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)} rg`;
+
+/**
+ * Encodes text as a PDF string in UTF-16, so titles in any language survive.
+ */
+function textString(value: string): string {
+    let hex = 'FEFF';
+    for (let i = 0; i < value.length; i++) {
+        hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+}
+
+/** Formats a date as a PDF date string, e.g. D:20240131120000Z. */
+function pdfDate(date: Date): string {
+    return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/**
+ * Reads the color space of a JPEG from its frame header, so grayscale and CMYK photos
+ * aren't drawn as if they were RGB.
+ * @returns The PDF color space entries for the image dictionary.
+ * @throws {Error} If the data isn't a JPEG or has an unsupported number of components.
+ */
+function getJpegColorSpace(data: Uint8Array): string {
+    if (data[0] !== 0xff || data[1] !== 0xd8) {
+        throw new Error("The image is not a JPEG.");
+    }
+    let isAdobe = false;
+    let offset = 2;
+    while (offset + 4 <= data.length) {
+        if (data[offset] !== 0xff) {
+            throw new Error("The JPEG is malformed.");
+        }
+        const marker = data[offset + 1];
+        // Fill bytes may pad a marker.
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        const length = (data[offset + 2] << 8) | data[offset + 3];
+        // Adobe's APP14 segment marks CMYK data that is stored inverted.
+        if (marker === 0xee && String.fromCharCode(...data.subarray(offset + 4, offset + 9)) === 'Adobe') {
+            isAdobe = true;
+        }
+        // SOF0 to SOF15, except DHT (C4), JPG (C8) and DAC (CC), which share the range.
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            const components = data[offset + 9];
+            if (components === 1) return '/ColorSpace /DeviceGray';
+            if (components === 3) return '/ColorSpace /DeviceRGB';
+            if (components === 4) return `/ColorSpace /DeviceCMYK${isAdobe ? ' /Decode [1 0 1 0 1 0 1 0]' : ''}`;
+            throw new Error(`JPEGs with ${components} color components are not supported.`);
+        }
+        offset += 2 + length;
+    }
+    throw new Error("The JPEG has no frame header.");
+}
+
+/**
+ * Compresses a content stream when the browser can, which shrinks traced captions considerably.
+ * @returns The bytes and the filter to declare, or null when they are left uncompressed.
+ */
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<{ data: Uint8Array<ArrayBuffer>; filter: string | null }> {
+    if (typeof CompressionStream === 'undefined') return { data, filter: null };
+    // 'deflate' produces the zlib format that FlateDecode expects.
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return { data: new Uint8Array(await new Response(stream).arrayBuffer()), filter: '/FlateDecode' };
+}
+
+// --- Public API ---
+
+/**
+ * One page of a PDF. Drawing calls take canvas-style coordinates in points,
+ * with the origin in the top-left corner.
+ */
+export class PdfPage {
+    /** @internal The content stream operators, in drawing order. */
+    readonly operations: string[] = [];
+    /** @internal The names of the images the page draws. */
+    readonly imageNames = new Set<string>();
+
+    constructor(readonly width: number, readonly height: number) {}
+
+    /** Converts a top-left based rectangle to PDF's bottom-left based coordinates. */
+    private toPdf(rect: PdfRect): string {
+        return `${num(rect.x)} ${num(this.height - rect.y - rect.height)} ${num(rect.width)} ${num(rect.height)}`;
+    }
+
+    fillRect(rect: PdfRect, color: PdfColor): void {
+        this.fillRects([rect], color);
+    }
+
+    /**
+     * Fills many rectangles in one color, as a single path.
+     */
+    fillRects(rects: PdfRect[], color: PdfColor): void {
+        if (rects.length === 0) return;
+        this.operations.push(rgb(color), ...rects.map(rect => `${this.toPdf(rect)} re`), 'f');
+    }
+
+    /**
+     * Draws an image stretched to a rectangle.
+     */
+    drawImage(image: PdfImage, rect: PdfRect): void {
+        this.imageNames.add(image.name);
+        const [x, y, width, height] = this.toPdf(rect).split(' ');
+        this.operations.push('q', `${width} 0 0 ${height} ${x} ${y} cm`, `/${image.name} Do`, 'Q');
+    }
+}
+
+/**
+ * Builds a PDF without any dependencies. It supports what albums need: JPEG images and filled shapes.
+ */
+export class PdfWriter {
+    private readonly images: StoredImage[] = [];
+    private readonly pages: PdfPage[] = [];
+
+    constructor(private readonly title?: string) {}
+
+    /**
+     * Adds a JPEG to the document. Its bytes are stored once, however many pages draw it.
+     * Grayscale, RGB and CMYK JPEGs are supported.
+     * @param data The JPEG file's bytes. They are embedded as they are, without re-encoding.
+     * @param width The image width in pixels.
+     * @param height The image height in pixels.
+     * @throws {Error} If the data isn't a JPEG the PDF can embed.
+     */
+    addJpeg(data: Uint8Array<ArrayBuffer>, width: number, height: number): PdfImage {
+        const image = { name: `Im${this.images.length + 1}`, width, height, data, colorSpace: getJpegColorSpace(data) };
+        this.images.push(image);
+        return image;
+    }
+
+    /**
+     * Adds a blank page at the end of the document.
+     * @param width The page width in points. A4 by default.
+     * @param height The page height in points.
+     */
+    addPage(width = A4_WIDTH, height = A4_HEIGHT): PdfPage {
+        const page = new PdfPage(width, height);
+        this.pages.push(page);
+        return page;
+    }
+
+    /**
+     * Serializes the document.
+     * @returns The PDF file.
+     */
+    async toBlob(): Promise<Blob> {
+        // Fixed object numbers: 1 catalog, 2 page tree, 3 info, then images, then a page and its content per page.
+        const imageObject = (index: number) => 4 + index;
+        const pageObject = (index: number) => 4 + this.images.length + index * 2;
+        const objects: Uint8Array<ArrayBuffer>[][] = [];
+        const dictionary = (body: string) => [encoder.encode(body)];
+        const stream = (header: string, data: Uint8Array<ArrayBuffer>) => [
+            encoder.encode(`<< ${header} /Length ${data.length} >>\nstream\n`),
+            data,
+            encoder.encode('\nendstream'),
+        ];
+
+        objects.push(dictionary('<< /Type /Catalog /Pages 2 0 R >>'));
+        objects.push(dictionary(`<< /Type /Pages /Kids [${this.pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ')}] /Count ${this.pages.length} >>`));
+        objects.push(dictionary(`<< ${this.title ? `/Title ${textString(this.title)} ` : ''}/Producer ${textString('TrendSnap')} /CreationDate (${pdfDate(new Date())}) >>`));
+
+        for (const image of this.images) {
+            objects.push(stream(`/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`, image.data));
+        }
+
+        for (const [index, page] of this.pages.entries()) {
+            const xObjects = [...page.imageNames]
+                .map(name => `/${name} ${imageObject(this.images.findIndex(image => image.name === name))} 0 R`)
+                .join(' ');
+            objects.push(dictionary(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << /XObject << ${xObjects} >> >> /Contents ${pageObject(index) + 1} 0 R >>`));
+            const content = await deflate(encoder.encode(page.operations.join('\n')));
+            objects.push(stream(content.filter ? `/Filter ${content.filter}` : '', content.data));
+        }
+
+        // The second line holds bytes above 127, which tells transfer tools the file is binary.
+        const parts: Uint8Array<ArrayBuffer>[] = [encoder.encode('%PDF-1.4\n'), new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])];
+        let offset = parts.reduce((sum, part) => sum + part.length, 0);
+        const offsets: number[] = [];
+        objects.forEach((body, index) => {
+            offsets.push(offset);
+            const object = [encoder.encode(`${index + 1} 0 obj\n`), ...body, encoder.encode('\nendobj\n')];
+            parts.push(...object);
+            offset += object.reduce((sum, part) => sum + part.length, 0);
+        });
+
+        // Every cross-reference entry is exactly 20 bytes, including its two-byte line ending.
+        const xref = [
+            'xref',
+            `0 ${objects.length + 1}`,
+            '0000000000 65535 f ',
+            ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+        ].join('\n');
+        parts.push(encoder.encode(`${xref}\ntrailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${offset}\n%%EOF\n`));
+
+        return new Blob(parts, { type: 'application/pdf' });
+    }
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { SafetyRule } from '../services/types';
+import { GeminiError, GeminiErrorType } from '../services/imageProvider';
+
+// --- Type Definitions ---
+
+export interface ScreeningResult {
+    /** The first rule the prompt broke. */
+    rule: SafetyRule;
+    /** The parts of the prompt that matched it. */
+    matches: string[];
+    /** The prompt with every match of every rule replaced, or null if no clean rewrite exists. */
+    suggestion: string | null;
+}
+
+/**
+ * Thrown when a prompt is stopped before it is sent. It is a BLOCKED error, so
+ * pages that already handle blocked prompts keep working.
+ */
+export class PromptScreenedError extends GeminiError {
+    constructor(public screening: ScreeningResult) {
+        super(`The prompt broke the "${screening.rule.reason}" rule before it was sent.`, GeminiErrorType.BLOCKED);
+        this.name = 'PromptScreenedError';
+    }
+}
+
+// Rules are compiled once; admins edit them rarely and prompts are screened often.
+const compiledRules = new WeakMap<SafetyRule, RegExp | null>();
+
+// --- Helper Functions ---
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds one case-insensitive, global pattern for a rule.
+ * Terms only match whole words, so "gun" does not flag "burgundy".
+ * @returns The pattern, or null if the rule has nothing valid to match.
+ */
+function compileRule(rule: SafetyRule): RegExp | null {
+    if (compiledRules.has(rule)) return compiledRules.get(rule)!;
+
+    const patterns = rule.patterns.map(pattern => pattern.trim()).filter(Boolean);
+    let regex: RegExp | null = null;
+    try {
+        if (patterns.length > 0) {
+            const source = rule.kind === 'terms'
+                ? `(?<!\\w)(?:${patterns.map(escapeRegExp).join('|')})(?!\\w)`
+                : patterns.map(pattern => `(?:${pattern})`).join('|');
+            regex = new RegExp(source, 'gi');
+        }
+    } catch (error) {
+        // Invalid rules are caught in the Admin Panel; one that slips through is skipped rather than breaking generation.
+        console.warn(`Skipping the invalid safety rule "${rule.reason}"`, error);
+    }
+    compiledRules.set(rule, regex);
+    return regex;
+}
+
+function findMatches(prompt: string, rule: SafetyRule): string[] {
+    const regex = compileRule(rule);
+    if (!regex) return [];
+    return Array.from(prompt.matchAll(regex), match => match[0]).filter(Boolean);
+}
+
+/**
+ * Applies every rule's replacement and tidies the spacing left behind.
+ * @returns The rewrite, or null if it is empty or still breaks a rule.
+ */
+function suggestRewrite(prompt: string, rules: SafetyRule[]): string | null {
+    let rewritten = prompt;
+    for (const rule of rules) {
+        const regex = compileRule(rule);
+        if (regex) {
+            rewritten = rewritten.replace(regex, rule.replacement.trim());
+        }
+    }
+    rewritten = rewritten.replace(/\s+([,.!?;:])/g, '$1').replace(/\s{2,}/g, ' ').trim();
+    if (!rewritten || rewritten === prompt || rules.some(rule => findMatches(rewritten, rule).length > 0)) {
+        return null;
+    }
+    return rewritten;
+}
+
+// --- Public API ---
+
+/**
+ * Checks a prompt against the admin's rules before it is sent to the model.
+ * @param prompt The final prompt, after templates are rendered.
+ * @param rules The active rules.
+ * @returns The first broken rule with a suggested rewrite, or null when the prompt is clean.
+ */
+export function screenPrompt(prompt: string, rules: SafetyRule[]): ScreeningResult | null {
+    for (const rule of rules) {
+        const matches = findMatches(prompt, rule);
+        if (matches.length > 0) {
+            return { rule, matches, suggestion: suggestRewrite(prompt, rules) };
+        }
+    }
+    return null;
+}
+
+/**
+ * Checks a rule before it is saved from the Admin Panel.
+ * @param rule The rule being created or edited.
+ * @returns A list of human-readable problems; empty when the rule is valid.
+ */
+export function validateSafetyRule(rule: Omit<SafetyRule, 'id'>): string[] {
+    const errors: string[] = [];
+    const patterns = rule.patterns.map(pattern => pattern.trim()).filter(Boolean);
+    if (patterns.length === 0) {
+        errors.push(rule.kind === 'terms' ? "Add at least one term." : "Add at least one pattern.");
+    }
+    if (!rule.reason.trim()) {
+        errors.push("The rule needs a reason to show to users.");
+    }
+    if (rule.kind === 'regex') {
+        for (const pattern of patterns) {
+            try {
+                const regex = new RegExp(pattern, 'i');
+                if (regex.test('')) {
+                    errors.push(`"${pattern}" matches an empty prompt, so it would block everything.`);
+                }
+            } catch {
+                errors.push(`"${pattern}" is not a valid regular expression.`);
+            }
+        }
+    }
+    return errors;
+}
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+/** 'text' variables take free input; 'choice' variables must be one of their options. */
+export type PromptVariableType = 'text' | 'choice';
+
+export interface PromptVariable {
+    name: string;
+    label: string;
+    type: PromptVariableType;
+    /** Used when no value is supplied. A variable without a default is required. */
+    defaultValue?: string;
+    /** The allowed values of a 'choice' variable. */
+    options?: string[];
+}
+
+export interface PromptTemplate {
+    text: string;
+    variables: PromptVariable[];
+}
+
+export class PromptTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PromptTemplateError';
+    }
+}
+
+// --- Known Variables ---
+// Placeholders with these names get a label, type and default even when the
+// template itself only says `{decade}`.
+
+export const DECADE_OPTIONS = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'];
+
+const KNOWN_VARIABLES: Record<string, Omit<PromptVariable, 'name'>> = {
+    decade: { label: 'Decade', type: 'choice', options: DECADE_OPTIONS, defaultValue: '1980s' },
+    subject: { label: 'Subject', type: 'text', defaultValue: 'the person in this photo' },
+    mood: { label: 'Mood', type: 'choice', options: ['joyful', 'dramatic', 'mysterious', 'serene', 'playful', 'moody'], defaultValue: 'joyful' },
+};
+
+// Matches `{name}` and `{name=default}`.
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+const VARIABLE_NAME = /^[a-z][a-z0-9_]*$/i;
+
+// --- Helper Functions ---
+
+function toLabel(name: string): string {
+    const words = name.replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function splitPlaceholder(body: string): { name: string; inlineDefault?: string } {
+    const equalsIndex = body.indexOf('=');
+    if (equalsIndex === -1) {
+        return { name: body.trim() };
+    }
+    return { name: body.substring(0, equalsIndex).trim(), inlineDefault: body.substring(equalsIndex + 1).trim() };
+}
+
+// --- Public API ---
+
+/**
+ * Checks a template for mistakes an admin could make while writing one.
+ * @param text The template text.
+ * @returns A list of human-readable problems; empty when the template is valid.
+ */
+export function validatePromptTemplate(text: string): string[] {
+    const errors: string[] = [];
+
+    let depth = 0;
+    for (const char of text) {
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        if (depth < 0 || depth > 1) {
+            errors.push("Braces are unbalanced or nested. Use {name} for placeholders.");
+            break;
+        }
+    }
+    if (depth > 0 && errors.length === 0) {
+        errors.push("A placeholder is missing its closing brace.");
+    }
+
+    for (const match of text.matchAll(PLACEHOLDER)) {
+        const { name, inlineDefault } = splitPlaceholder(match[1]);
+        if (!VARIABLE_NAME.test(name)) {
+            errors.push(`"{${match[1]}}" is not a valid placeholder name.`);
+            continue;
+        }
+        const known = KNOWN_VARIABLES[name];
+        if (known?.type === 'choice' && inlineDefault && !known.options?.includes(inlineDefault)) {
+            errors.push(`"${inlineDefault}" is not a valid ${known.label.toLowerCase()}. Use one of: ${known.options?.join(', ')}.`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Parses a template into its text and the variables it uses, in order of first appearance.
+ * @param text The template text, e.g. "A portrait of {subject} in a {mood=moody} style".
+ * @throws {PromptTemplateError} If the template is invalid.
+ */
+export function parsePromptTemplate(text: string): PromptTemplate {
+    const errors = validatePromptTemplate(text);
+    if (errors.length > 0) {
+        throw new PromptTemplateError(errors[0]);
+    }
+
+    const variables = new Map<string, PromptVariable>();
+    for (const match of text.matchAll(PLACEHOLDER)) {
+        const { name, inlineDefault } = splitPlaceholder(match[1]);
+        const existing = variables.get(name);
+        if (existing) {
+            // The first inline default wins, e.g. "{mood=dark} ... {mood}".
+            if (existing.defaultValue === undefined && inlineDefault) {
+                existing.defaultValue = inlineDefault;
+            }
+            continue;
+        }
+        const known = KNOWN_VARIABLES[name];
+        variables.set(name, {
+            name,
+            label: known?.label ?? toLabel(name),
+            type: known?.type ?? 'text',
+            options: known?.options,
+            defaultValue: inlineDefault || known?.defaultValue,
+        });
+    }
+
+    return { text, variables: Array.from(variables.values()) };
+}
+
+/**
+ * Returns true if the text contains at least one `{placeholder}`.
+ */
+export function hasTemplateVariables(text: string): boolean {
+    return new RegExp(PLACEHOLDER.source).test(text);
+}
+
+/**
+ * Returns true if the text reads as a template: it has placeholders and they are all valid.
+ * Free text with ordinary braces, e.g. a T-shirt that says "{hello world}", is not one.
+ */
+export function isPromptTemplate(text: string): boolean {
+    return hasTemplateVariables(text) && validatePromptTemplate(text).length === 0;
+}
+
+/**
+ * Substitutes values into a template. Missing or blank values fall back to the variable's default.
+ * @param template A parsed template, or raw template text.
+ * @param values The values to fill in, keyed by variable name.
+ * @returns The final prompt.
+ * @throws {PromptTemplateError} If a required value is missing or a choice value is not allowed.
+ */
+export function renderPromptTemplate(template: PromptTemplate | string, values: Record<string, string> = {}): string {
+    const parsed = typeof template === 'string' ? parsePromptTemplate(template) : template;
+
+    const resolved: Record<string, string> = {};
+    for (const variable of parsed.variables) {
+        const value = values[variable.name]?.trim() || variable.defaultValue;
+        if (!value) {
+            throw new PromptTemplateError(`Please fill in "${variable.label}".`);
+        }
+        if (variable.type === 'choice' && variable.options && !variable.options.includes(value)) {
+            throw new PromptTemplateError(`"${value}" is not a valid ${variable.label.toLowerCase()}.`);
+        }
+        resolved[variable.name] = value;
+    }
+
+    return parsed.text.replace(PLACEHOLDER, (_, body: string) => resolved[splitPlaceholder(body).name]);
+}
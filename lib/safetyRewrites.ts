@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+/**
+ * One step of a safety-fallback chain. When a prompt is blocked, each step
+ * softens the prompt left by the previous step and the generation is retried.
+ */
+export interface PromptRewrite {
+    /** A stable identifier, recorded on the result when this step succeeds. */
+    id: string;
+    /** A short, user-facing description, e.g. "Removed celebrity names". */
+    label: string;
+    /**
+     * @param prompt The prompt produced by the previous step.
+     * @returns The softened prompt, or null if this step does not apply.
+     */
+    rewrite: (prompt: string) => string | null;
+}
+
+// --- Helper Functions ---
+
+function applyReplacements(prompt: string, replacements: [RegExp, string][]): string | null {
+    let result = prompt;
+    for (const [pattern, replacement] of replacements) {
+        result = result.replace(pattern, replacement);
+    }
+    // Tidy up the gaps left by removed words.
+    result = result.replace(/\s{2,}/g, ' ').replace(/\s+([,.!?])/g, '$1').trim();
+    return result === prompt ? null : result;
+}
+
+// --- Built-in Rewrites ---
+
+const VIOLENT_TERMS: [RegExp, string][] = [
+    [/\b(bloody|blood-soaked|gory)\b/gi, 'dramatic'],
+    [/\b(blood|gore|corpses?|dead bodies)\b/gi, ''],
+    [/\b(guns?|rifles?|pistols?|weapons?|knives|knife|daggers?|swords?|katanas?|blades?)\b/gi, 'props'],
+    [/\b(killing|murdering|slaying)\b/gi, 'facing'],
+    [/\b(kills?|murders?|slays?)\b/gi, 'faces'],
+    [/\b(war|battle|combat|fight(?:ing)?)\b/gi, 'adventure'],
+    [/\b(violent|brutal|savage)\b/gi, 'bold'],
+    [/\b(explosions?|explosive)\b/gi, 'bright lights'],
+];
+
+export const REMOVE_VIOLENCE: PromptRewrite = {
+    id: 'remove-violence',
+    label: 'Softened violent wording',
+    rewrite: (prompt) => applyReplacements(prompt, VIOLENT_TERMS),
+};
+
+// Real people are usually named with two or more capitalized words after a
+// cue like "as", "like" or "by", e.g. "inspired by Andy Warhol".
+const NAMED_PERSON = /\b(as|like|by|resembling|of)\s+(?:[A-Z][\w'’.-]*\s?){2,4}/g;
+
+export const REMOVE_CELEBRITIES: PromptRewrite = {
+    id: 'remove-celebrities',
+    label: 'Removed names of real people',
+    rewrite: (prompt) => applyReplacements(prompt, [
+        [NAMED_PERSON, '$1 an unnamed character '],
+        [/\b(celebrity|celebrities|famous (?:person|actor|actress|singer|politician))\b/gi, 'character'],
+    ]),
+};
+
+/**
+ * Creates the heaviest step, which reframes the prompt as a friendly portrait.
+ * @param subject Who the portrait shows, e.g. "Alex and Sam from these photos" for a group.
+ */
+export function createNeutralPhotoFraming(subject = 'the person in this image'): PromptRewrite {
+    return {
+        id: 'neutral-photo-framing',
+        label: 'Switched to a neutral portrait style',
+        rewrite: (prompt) => `Create a tasteful, well-lit portrait photograph of ${subject}, suitable for all ages. Loosely take inspiration from this idea while keeping it friendly and non-violent: ${prompt}`,
+    };
+}
+
+export const NEUTRAL_PHOTO_FRAMING: PromptRewrite = createNeutralPhotoFraming();
+
+/** The chain most callers should opt into, from the lightest touch to the heaviest. */
+export const DEFAULT_SAFETY_CHAIN: PromptRewrite[] = [REMOVE_VIOLENCE, REMOVE_CELEBRITIES, NEUTRAL_PHOTO_FRAMING];
+
+/**
+ * The default chain for a group photo, whose portrait must keep everyone in it.
+ * @param subject The group's `{subject}`, from `getGroupSubject`.
+ */
+export function createGroupSafetyChain(subject: string): PromptRewrite[] {
+    return [REMOVE_VIOLENCE, REMOVE_CELEBRITIES, createNeutralPhotoFraming(subject)];
+}
+
+/**
+ * Creates a step that swaps in a hand-written replacement prompt, e.g. a series pack's fallback.
+ * @param id The identifier recorded when this step succeeds.
+ * @param label A short, user-facing description.
+ * @param replacement The prompt to use instead.
+ */
+export function createReplacementRewrite(id: string, label: string, replacement: string): PromptRewrite {
+    return { id, label, rewrite: () => replacement };
+}
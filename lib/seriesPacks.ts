@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { SeriesPack } from '../services/types';
+import { DECADE_OPTIONS, parsePromptTemplate, renderPromptTemplate, validatePromptTemplate } from './promptTemplates';
+
+// Every series template must say where the item label goes, e.g. "in the style of the {item}".
+export const SERIES_ITEM_PLACEHOLDER = '{item}';
+
+export const MAX_SERIES_ITEMS = 12;
+
+/**
+ * The original decades mode. It is always available, even when the backend has no packs.
+ */
+export const TIME_TRAVEL_PACK: SeriesPack = {
+    id: 'time-travel',
+    name: 'Time Travel',
+    description: 'Generate yourself through the decades.',
+    itemLabels: DECADE_OPTIONS,
+    promptTemplate: "Reimagine {subject} in the style of the {item}. This includes clothing, hairstyle, photo quality, and the overall aesthetic of that decade. The output must be a photorealistic image showing the person clearly.",
+    fallbackPrompt: "Create a photograph of {subject} as if they were living in the {item}. The photograph should capture the distinct fashion, hairstyles, and overall atmosphere of that time period. Ensure the final image is a clear photograph that looks authentic to the era.",
+};
+
+/**
+ * Checks a valid template for placeholders a series can't fill. Only {item} is filled per item,
+ * so every other placeholder needs a default, e.g. `{outfit=a raincoat}`.
+ */
+function validateSeriesPlaceholders(template: string): string[] {
+    const errors = validatePromptTemplate(template);
+    if (errors.length > 0) return errors;
+    return parsePromptTemplate(template).variables
+        .filter(variable => variable.name !== 'item' && variable.defaultValue === undefined)
+        .map(variable => `{${variable.name}} needs a default, e.g. {${variable.name}=...}.`);
+}
+
+/**
+ * Checks a pack before it is saved from the Admin Panel.
+ * @param pack The pack being created or edited.
+ * @returns A list of human-readable problems; empty when the pack is valid.
+ */
+export function validateSeriesPack(pack: Omit<SeriesPack, 'id'>): string[] {
+    const errors: string[] = [];
+    if (!pack.name.trim()) {
+        errors.push("The pack needs a name.");
+    }
+
+    const labels = pack.itemLabels.map(label => label.trim()).filter(Boolean);
+    if (labels.length < 2 || labels.length > MAX_SERIES_ITEMS) {
+        errors.push(`A pack needs between 2 and ${MAX_SERIES_ITEMS} items.`);
+    }
+    if (new Set(labels.map(label => label.toLowerCase())).size !== labels.length) {
+        errors.push("Item labels must be unique.");
+    }
+
+    if (!pack.promptTemplate.includes(SERIES_ITEM_PLACEHOLDER)) {
+        errors.push(`The prompt template must contain ${SERIES_ITEM_PLACEHOLDER}.`);
+    }
+    errors.push(...validateSeriesPlaceholders(pack.promptTemplate));
+    if (pack.fallbackPrompt.trim()) {
+        errors.push(...validateSeriesPlaceholders(pack.fallbackPrompt).map(error => `Fallback prompt: ${error}`));
+    }
+    return errors;
+}
+
+/**
+ * Builds the prompt for one item of a series. Other placeholders take their defaults.
+ * @param template The pack's prompt or fallback template.
+ * @param itemLabel The item being generated, e.g. "1970s" or "Winter".
+ * @param values Values for other placeholders, e.g. the `subject` of a group.
+ */
+export function renderSeriesPrompt(template: string, itemLabel: string, values: Record<string, string> = {}): string {
+    return renderPromptTemplate(template, { ...values, item: itemLabel });
+}
@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { encodeGif, type GifFrame } from './gifEncoder';
+import { loadImage } from './imageUtils';
+
+// --- Type Definitions ---
+
+export type SlideshowFormat = 'gif' | 'webm';
+export type SlideshowTransition = 'crossfade' | 'morph';
+
+export interface SlideshowOptions {
+    transition: SlideshowTransition;
+    /** How long each photo stays on screen between transitions, in milliseconds. */
+    frameDuration: number;
+    /** How long each transition takes, in milliseconds. */
+    transitionDuration: number;
+    /** How many times the sequence plays. 0 loops forever. */
+    loopCount: number;
+    /** Draws each photo's caption over it. */
+    showCaptions: boolean;
+    /** The output width in pixels; the height follows the first photo's aspect ratio. */
+    width: number;
+}
+
+export interface Slide {
+    caption: string;
+    image: HTMLImageElement;
+}
+
+// --- Constants ---
+
+export const DEFAULT_SLIDESHOW_OPTIONS: SlideshowOptions = {
+    transition: 'crossfade',
+    frameDuration: 1500,
+    transitionDuration: 600,
+    loopCount: 0,
+    showCaptions: true,
+    width: 480,
+};
+
+export const SLIDESHOW_TRANSITIONS: { value: SlideshowTransition; label: string }[] = [
+    { value: 'crossfade', label: 'Crossfade' },
+    { value: 'morph', label: 'Morph' },
+];
+
+// Transitions are drawn at this rate in GIFs; more frames would mostly add file size.
+const GIF_TRANSITION_FPS = 15;
+const WEBM_FPS = 30;
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+// The zoom and blur a morph starts and ends at.
+const MORPH_ZOOM = 0.12;
+const MORPH_BLUR = 0.02;
+
+// --- Drawing ---
+
+const easeInOut = (t: number) => t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+/**
+ * Draws a photo filling the canvas, cropped to its aspect ratio around the center.
+ * @param zoom Extra scale around the center, 1 being none.
+ * @param blur Blur in pixels.
+ */
+function drawCover(ctx: CanvasRenderingContext2D, image: HTMLImageElement, alpha: number, zoom = 1, blur = 0) {
+    const { width, height } = ctx.canvas;
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight) * zoom;
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    if (blur > 0.5) ctx.filter = `blur(${blur}px)`;
+    ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    ctx.restore();
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, caption: string, alpha: number) {
+    const { width, height } = ctx.canvas;
+    const fontSize = Math.round(width * 0.07);
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.font = `${fontSize}px 'Permanent Marker', cursive`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = fontSize * 0.18;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillStyle = '#ffffff';
+    const maxWidth = width * 0.9;
+    ctx.strokeText(caption, width / 2, height - fontSize * 0.5, maxWidth);
+    ctx.fillText(caption, width / 2, height - fontSize * 0.5, maxWidth);
+    ctx.restore();
+}
+
+/**
+ * The length of one pass through the slides. The transition back to the first photo
+ * is only part of it when the sequence repeats.
+ */
+export function getSlideshowDuration(slideCount: number, options: SlideshowOptions): number {
+    const transitions = options.loopCount === 1 ? slideCount - 1 : slideCount;
+    return slideCount * options.frameDuration + Math.max(0, transitions) * options.transitionDuration;
+}
+
+/**
+ * Draws the slideshow as it looks at a point in time.
+ * @param time Milliseconds from the start of a pass; later times wrap around.
+ */
+export function drawSlideshowFrame(ctx: CanvasRenderingContext2D, slides: Slide[], time: number, options: SlideshowOptions): void {
+    const { width, height } = ctx.canvas;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    if (slides.length === 0) return;
+
+    const cycle = options.frameDuration + options.transitionDuration;
+    const wrapped = ((time % (cycle * slides.length)) + cycle * slides.length) % (cycle * slides.length);
+    const index = Math.floor(wrapped / cycle);
+    const local = wrapped - index * cycle;
+    const current = slides[index];
+
+    if (local < options.frameDuration || slides.length === 1) {
+        drawCover(ctx, current.image, 1);
+        if (options.showCaptions) drawCaption(ctx, current.caption, 1);
+        return;
+    }
+
+    const next = slides[(index + 1) % slides.length];
+    const progress = easeInOut((local - options.frameDuration) / options.transitionDuration);
+    if (options.transition === 'morph') {
+        // Without face landmarks, a true morph isn't possible; zooming and blurring through
+        // the blend hides where the two photos differ, and series photos share a pose.
+        const blur = width * MORPH_BLUR;
+        drawCover(ctx, current.image, 1, 1 + MORPH_ZOOM * progress, blur * progress);
+        drawCover(ctx, next.image, progress, 1 + MORPH_ZOOM * (1 - progress), blur * (1 - progress));
+    } else {
+        drawCover(ctx, current.image, 1);
+        drawCover(ctx, next.image, progress);
+    }
+    if (options.showCaptions) {
+        drawCaption(ctx, current.caption, 1 - progress);
+        drawCaption(ctx, next.caption, progress);
+    }
+}
+
+// --- Public API ---
+
+/**
+ * Loads a series' photos for the slideshow.
+ * @param imageData A record mapping captions to image URLs, in slide order.
+ */
+export async function loadSlides(imageData: Record<string, string>): Promise<Slide[]> {
+    return Promise.all(Object.entries(imageData).map(async ([caption, url]) => ({ caption, image: await loadImage(url) })));
+}
+
+/**
+ * Creates a canvas for the slideshow, sized from the first photo's aspect ratio.
+ * @throws {Error} If there are no slides or the canvas can't be drawn on.
+ */
+export function createSlideshowCanvas(slides: Slide[], width: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+    if (slides.length === 0) {
+        throw new Error("A slideshow needs at least one photo.");
+    }
+    const first = slides[0].image;
+    const canvas = document.createElement('canvas');
+    // Video encoders need even dimensions.
+    canvas.width = Math.round(width / 2) * 2;
+    canvas.height = Math.round(width * first.naturalHeight / first.naturalWidth / 2) * 2;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    return { canvas, ctx };
+}
+
+/** Whether this browser can record the slideshow as a WebM video. */
+export function isWebmSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined'
+        && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+        && WEBM_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Renders a slideshow as an animated GIF. Each photo is a single frame held for its duration,
+ * so only the transitions add frames.
+ * @param slides The photos, in order.
+ * @param options Timing, transition, captions, size and loop count.
+ * @param onProgress Called with how much of the GIF is encoded, from 0 to 1.
+ * @returns A promise that resolves to the GIF file.
+ */
+export async function createSlideshowGif(slides: Slide[], options: SlideshowOptions, onProgress?: (progress: number) => void): Promise<Blob> {
+    const { canvas, ctx } = createSlideshowCanvas(slides, options.width);
+    const transitionFrames = Math.max(1, Math.round(options.transitionDuration / 1000 * GIF_TRANSITION_FPS));
+    const transitionDelay = options.transitionDuration / transitionFrames;
+    const cycle = options.frameDuration + options.transitionDuration;
+    // Playing once ends on the last photo instead of fading back to the first.
+    const transitionCount = slides.length > 1 ? (options.loopCount === 1 ? slides.length - 1 : slides.length) : 0;
+
+    const capture = (time: number, delay: number): GifFrame => {
+        drawSlideshowFrame(ctx, slides, time, options);
+        return { image: ctx.getImageData(0, 0, canvas.width, canvas.height), delay };
+    };
+
+    const frames: GifFrame[] = [];
+    slides.forEach((_, index) => {
+        const start = index * cycle;
+        if (index >= transitionCount) {
+            frames.push(capture(start, options.frameDuration));
+            return;
+        }
+        // The transition's first step looks just like the photo, so the photo's frame covers it.
+        frames.push(capture(start, options.frameDuration + transitionDelay));
+        for (let step = 1; step < transitionFrames; step++) {
+            frames.push(capture(start + options.frameDuration + step * transitionDelay, transitionDelay));
+        }
+    });
+
+    return encodeGif(canvas.width, canvas.height, frames, { loopCount: options.loopCount }, done => onProgress?.(done / frames.length));
+}
+
+/**
+ * Records a slideshow as a WebM video in real time, so it takes as long as it plays.
+ * Videos loop at the player's discretion, so looping forever records a single pass
+ * that ends where it began.
+ * @param slides The photos, in order.
+ * @param options Timing, transition, captions, size and loop count.
+ * @param onProgress Called with how much of the video is recorded, from 0 to 1.
+ * @returns A promise that resolves to the video file.
+ * @throws {Error} If the browser can't record WebM.
+ */
+export async function createSlideshowWebm(slides: Slide[], options: SlideshowOptions, onProgress?: (progress: number) => void): Promise<Blob> {
+    const mimeType = WEBM_MIME_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+        throw new Error("This browser can't record WebM video.");
+    }
+    const { canvas, ctx } = createSlideshowCanvas(slides, options.width);
+    const passDuration = getSlideshowDuration(slides.length, options);
+    const duration = passDuration * Math.max(1, options.loopCount);
+
+    const stream = canvas.captureStream(WEBM_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+        recorder.onstop = () => resolve();
+    });
+
+    drawSlideshowFrame(ctx, slides, 0, options);
+    recorder.start();
+    const start = performance.now();
+    // Timers rather than animation frames, which pause while the tab is in the background.
+    await new Promise<void>(resolve => {
+        const tick = () => {
+            const elapsed = performance.now() - start;
+            // Stop just short of the end, which would wrap around to the first photo.
+            drawSlideshowFrame(ctx, slides, Math.min(elapsed, duration - 1) % passDuration, options);
+            onProgress?.(Math.min(1, elapsed / duration));
+            if (elapsed >= duration) {
+                resolve();
+            } else {
+                setTimeout(tick, 1000 / WEBM_FPS);
+            }
+        };
+        tick();
+    });
+
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+    return new Blob(chunks, { type: 'video/webm' });
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+export type DiffSegmentType = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+    type: DiffSegmentType;
+    /** The text of the segment, including the whitespace that follows each word. */
+    text: string;
+}
+
+// --- Helper Functions ---
+
+/** Splits text into words, each keeping its trailing whitespace so the pieces join back losslessly. */
+function tokenize(text: string): string[] {
+    return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+/** Words are compared without their whitespace, so a reflowed line is not reported as changed. */
+function sameWord(a: string, b: string): boolean {
+    return a.trim() === b.trim();
+}
+
+// --- Public API ---
+
+/**
+ * Computes a word-level diff between two texts using the longest common subsequence.
+ * Adjacent words of the same type are merged into one segment.
+ * @param before The original text.
+ * @param after The changed text.
+ * @returns The segments in reading order; 'removed' segments only exist in `before`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    // lengths[i][j] is the LCS length of a[i..] and b[j..]. Prompts are short, so O(n·m) is fine.
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = sameWord(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegmentType, text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (sameWord(a[i], b[j])) {
+            push('same', b[j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+
+    return segments;
+}
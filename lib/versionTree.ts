@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Type Definitions ---
+
+/** How a version was produced from its parent. The root is always 'generate'. */
+export type VersionKind = 'generate' | 'refine' | 'edit';
+
+export interface ImageVersion {
+    id: number;
+    /** The version this one was refined from; null for the root. */
+    parentId: number | null;
+    kind: VersionKind;
+    /** A data URL of the image. */
+    url: string;
+    /** The instruction that produced this version from its parent, or the original prompt for the root. */
+    prompt: string;
+    /** Set when a safety rewrite was needed to produce the image. */
+    notice?: string;
+    /** The image model that generated this version. */
+    model: string;
+    createdAt: number;
+}
+
+/**
+ * A branching history of refinements. Refining an older version forks a new
+ * branch; nothing is ever removed. Trees are immutable: every update returns a new tree.
+ */
+export interface VersionTree {
+    versions: Record<number, ImageVersion>;
+    rootId: number;
+    /** The version currently shown to the user. */
+    currentId: number;
+}
+
+export type NewVersion = Omit<ImageVersion, 'id' | 'parentId' | 'createdAt'>;
+
+let nextVersionId = 1;
+
+// --- Public API ---
+
+/**
+ * Starts a history with a single root version, which also becomes current.
+ * @param root The first generated image.
+ */
+export function createVersionTree(root: NewVersion): VersionTree {
+    const version: ImageVersion = { ...root, id: nextVersionId++, parentId: null, createdAt: Date.now() };
+    return { versions: { [version.id]: version }, rootId: version.id, currentId: version.id };
+}
+
+/**
+ * Adds a version as a child of `parentId` and makes it current.
+ * @throws {Error} If the parent is not part of the tree.
+ */
+export function addVersion(tree: VersionTree, parentId: number, version: NewVersion): VersionTree {
+    if (!tree.versions[parentId]) {
+        throw new Error(`Version ${parentId} is not part of this history.`);
+    }
+    const child: ImageVersion = { ...version, id: nextVersionId++, parentId, createdAt: Date.now() };
+    return { ...tree, versions: { ...tree.versions, [child.id]: child }, currentId: child.id };
+}
+
+/**
+ * Makes an existing version current, e.g. to revert to it or fork from it.
+ * Unknown ids leave the tree unchanged.
+ */
+export function selectVersion(tree: VersionTree, id: number): VersionTree {
+    return tree.versions[id] ? { ...tree, currentId: id } : tree;
+}
+
+export function getCurrentVersion(tree: VersionTree): ImageVersion {
+    return tree.versions[tree.currentId];
+}
+
+/**
+ * Lists the direct children of a version, oldest first.
+ */
+export function getChildVersions(tree: VersionTree, id: number): ImageVersion[] {
+    return Object.values(tree.versions)
+        .filter(version => version.parentId === id)
+        .sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Walks from the root to a version.
+ * @returns Every version on the way, root first, so their prompts read as the full chain of instructions.
+ */
+export function getVersionChain(tree: VersionTree, id: number): ImageVersion[] {
+    const chain: ImageVersion[] = [];
+    let version: ImageVersion | undefined = tree.versions[id];
+    while (version) {
+        chain.unshift(version);
+        version = version.parentId !== null ? tree.versions[version.parentId] : undefined;
+    }
+    return chain;
+}
+
+/**
+ * Joins a chain of instructions into one prompt, e.g. "A knight on a horse → make the sky darker".
+ */
+export function joinVersionPrompts(prompts: string[]): string {
+    return prompts.join(' → ');
+}
+
+/**
+ * The full chain of instructions that produced a version, starting with the original prompt.
+ */
+export function getVersionPrompt(tree: VersionTree, id: number): string {
+    return joinVersionPrompts(getVersionChain(tree, id).map(version => version.prompt));
+}
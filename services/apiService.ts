@@ -3,7 +3,11 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { CollectionItem } from '../components/AdminPage';
+import type { SafetyRule, SeriesPack, WatermarkSettings } from './types';
 import { VideoItem } from '../App';
+import { GeminiError, GeminiErrorType, throwIfCancelled } from './imageProvider';
+import type { ImageGenerationRequest, ImagePart, TextGenerationRequest } from './imageProvider';
+import { getUsageSessionId, type BackendUsageSummary } from './usageLedger';
 
 // --- API Configuration ---
 
@@ -73,6 +77,143 @@ export const uploadImage = async (file: File): Promise<string> => {
     return result.url;
 };
 
+// --- Image Generation API ---
+
+// The backend holds the Gemini API key and forwards generation requests to Google,
+// so the key never reaches the browser. The route contract is:
+//
+//   POST /generate  { model, image: { mimeType, data }, prompt }
+//   200 -> { mimeType, data }
+//   4xx/5xx -> { type: <GeminiErrorType name>, message, retryAfterMs? } and optionally a Retry-After header
+//
+// Every generation request carries an X-Session-Id header so the backend can meter
+// calls and enforce the daily quota per session, answering DAILY_LIMIT once it is used up.
+
+/** Headers for the generation routes. */
+function generationHeaders(): HeadersInit {
+    return { 'Content-Type': 'application/json', 'X-Session-Id': getUsageSessionId() };
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ * @returns The delay in milliseconds, or undefined if the header is missing or malformed.
+ */
+function parseRetryAfterHeader(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Falls back to the HTTP status when the backend did not classify the error itself.
+ */
+function getErrorTypeFromStatus(status: number): GeminiErrorType {
+    switch (status) {
+        case 400:
+        case 413:
+            return GeminiErrorType.INVALID_INPUT;
+        case 429:
+            return GeminiErrorType.RATE_LIMIT;
+        case 503:
+            return GeminiErrorType.MODEL_UNAVAILABLE;
+        case 504:
+            return GeminiErrorType.TIMEOUT;
+        default:
+            return status >= 500 ? GeminiErrorType.SERVER_ERROR : GeminiErrorType.UNKNOWN;
+    }
+}
+
+/**
+ * Maps a failed generation response onto the same error types the Gemini SDK path produces.
+ */
+async function toGenerationError(response: Response): Promise<GeminiError> {
+    let body: { type?: string; message?: string; retryAfterMs?: number } = {};
+    try {
+        body = await response.json();
+    } catch {
+        // A proxy or crashed server may not return JSON; fall back to the status code.
+    }
+
+    const type = body.type && body.type in GeminiErrorType
+        ? GeminiErrorType[body.type as keyof typeof GeminiErrorType]
+        : getErrorTypeFromStatus(response.status);
+    const retryAfterMs = body.retryAfterMs ?? parseRetryAfterHeader(response.headers.get('Retry-After'));
+
+    console.error(`Generation request failed with status ${response.status}:`, body.message);
+    return new GeminiError(body.message || "The image generation request failed.", type, retryAfterMs);
+}
+
+/**
+ * Asks the backend to generate an image.
+ * @param request The source image, prompt and optional edit mask, group photos or style reference.
+ * @param model The model the backend should generate with.
+ * @returns A promise that resolves to a data URL of the generated image.
+ */
+export const generateImage = async (request: ImageGenerationRequest, model: string): Promise<string> => {
+    const path = `${API_BASE_URL}/generate`;
+    let response: Response;
+    try {
+        response = await fetch(path, {
+            method: 'POST',
+            headers: generationHeaders(),
+            body: JSON.stringify({ model, image: request.image, prompt: request.prompt, mask: request.mask, group: request.group, styleReference: request.styleReference }),
+            signal: request.signal,
+        });
+    } catch (error) {
+        throwIfCancelled(request.signal);
+        throw error;
+    }
+
+    if (!response.ok) {
+        throw await toGenerationError(response);
+    }
+
+    const { mimeType, data } = await handleResponse<ImagePart>(response, path);
+    return `data:${mimeType};base64,${data}`;
+};
+
+/**
+ * Asks the backend to run a text prompt, e.g. to enhance or reverse a prompt.
+ * @param request The instructions, prompt and optional image.
+ * @param model The text model the backend should use.
+ * @returns A promise that resolves to the model's reply.
+ */
+export const generateText = async (request: TextGenerationRequest, model: string): Promise<string> => {
+    const path = `${API_BASE_URL}/generate-text`;
+    let response: Response;
+    try {
+        response = await fetch(path, {
+            method: 'POST',
+            headers: generationHeaders(),
+            body: JSON.stringify({ model, instructions: request.instructions, prompt: request.prompt, image: request.image }),
+            signal: request.signal,
+        });
+    } catch (error) {
+        throwIfCancelled(request.signal);
+        throw error;
+    }
+
+    if (!response.ok) {
+        throw await toGenerationError(response);
+    }
+
+    const { text } = await handleResponse<{ text: string }>(response, path);
+    return text.trim();
+};
+
+/**
+ * Fetches today's usage of every session from the backend, for the admin summary.
+ */
+export const getUsageSummary = async (): Promise<BackendUsageSummary> => {
+    const path = `${API_BASE_URL}/usage`;
+    const response = await fetch(path);
+    return handleResponse<BackendUsageSummary>(response, path);
+};
+
 // --- Collection Items API ---
 
 export const getCollectionItems = async (): Promise<CollectionItem[]> => {
@@ -113,6 +254,108 @@ export const deleteCollectionItem = async (id: string | number): Promise<void> =
     await handleResponse<void>(response, path);
 };
 
+// --- Series Packs API ---
+
+export const getSeriesPacks = async (): Promise<SeriesPack[]> => {
+    console.log('[API] Fetching series packs...');
+    const path = `${API_BASE_URL}/series-packs`;
+    const response = await fetch(path);
+    return handleResponse<SeriesPack[]>(response, path);
+};
+
+export const addSeriesPack = async (pack: Omit<SeriesPack, 'id'>): Promise<SeriesPack> => {
+    console.log('[API] Adding new series pack:', pack);
+    const path = `${API_BASE_URL}/series-packs`;
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(pack),
+    });
+    return handleResponse<SeriesPack>(response, path);
+};
+
+export const updateSeriesPack = async (pack: SeriesPack): Promise<SeriesPack> => {
+     console.log('[API] Updating series pack:', pack);
+     const path = `${API_BASE_URL}/series-packs/${pack.id}`;
+     const response = await fetch(path, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(pack),
+    });
+    return handleResponse<SeriesPack>(response, path);
+};
+
+export const deleteSeriesPack = async (id: string | number): Promise<void> => {
+    console.log(`[API] Deleting series pack with id: ${id}`);
+    const path = `${API_BASE_URL}/series-packs/${id}`;
+    const response = await fetch(path, {
+        method: 'DELETE',
+    });
+    await handleResponse<void>(response, path);
+};
+
+
+// --- Safety Rules API ---
+
+export const getSafetyRules = async (): Promise<SafetyRule[]> => {
+    console.log('[API] Fetching safety rules...');
+    const path = `${API_BASE_URL}/safety-rules`;
+    const response = await fetch(path);
+    return handleResponse<SafetyRule[]>(response, path);
+};
+
+export const addSafetyRule = async (rule: Omit<SafetyRule, 'id'>): Promise<SafetyRule> => {
+    console.log('[API] Adding new safety rule:', rule);
+    const path = `${API_BASE_URL}/safety-rules`;
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule),
+    });
+    return handleResponse<SafetyRule>(response, path);
+};
+
+export const updateSafetyRule = async (rule: SafetyRule): Promise<SafetyRule> => {
+    console.log('[API] Updating safety rule:', rule);
+    const path = `${API_BASE_URL}/safety-rules/${rule.id}`;
+    const response = await fetch(path, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule),
+    });
+    return handleResponse<SafetyRule>(response, path);
+};
+
+export const deleteSafetyRule = async (id: string | number): Promise<void> => {
+    console.log(`[API] Deleting safety rule with id: ${id}`);
+    const path = `${API_BASE_URL}/safety-rules/${id}`;
+    const response = await fetch(path, {
+        method: 'DELETE',
+    });
+    await handleResponse<void>(response, path);
+};
+
+
+// --- Watermark Settings API ---
+
+export const getWatermarkSettings = async (): Promise<WatermarkSettings> => {
+    console.log('[API] Fetching watermark settings...');
+    const path = `${API_BASE_URL}/settings/watermark`;
+    const response = await fetch(path);
+    return handleResponse<WatermarkSettings>(response, path);
+};
+
+export const updateWatermarkSettings = async (settings: WatermarkSettings): Promise<WatermarkSettings> => {
+    console.log('[API] Updating watermark settings:', settings);
+    const path = `${API_BASE_URL}/settings/watermark`;
+    const response = await fetch(path, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+    });
+    return handleResponse<WatermarkSettings>(response, path);
+};
+
 // --- Video Items API ---
 
 export const getVideoItems = async (): Promise<VideoItem[]> => {
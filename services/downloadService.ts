@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { WatermarkSettings } from './types';
+import { getFileExtension, type ExportOptions } from '../lib/exportPresets';
+import { embedProvenance } from '../lib/imageMetadata';
+import { loadImage, parseImageDataUrl } from '../lib/imageUtils';
+import { getImageProvider } from './geminiService';
+
+// --- Watermark Settings ---
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+    enabled: false,
+    text: 'Made with TrendSnap',
+    position: 'bottom-right',
+};
+
+// Used when an image has to be re-encoded without export options, e.g. to draw the watermark.
+const JPEG_QUALITY = 0.92;
+
+let activeWatermark: WatermarkSettings = DEFAULT_WATERMARK_SETTINGS;
+
+/**
+ * Replaces the admin-managed watermark drawn on downloads.
+ * @param settings The settings from the backend.
+ */
+export function setWatermarkSettings(settings: WatermarkSettings): void {
+    activeWatermark = settings;
+}
+
+// --- Helper Functions ---
+
+/**
+ * Encodes a canvas. Browsers that can't encode a format, e.g. WebP in older Safari,
+ * return a PNG instead, so callers must check the blob's type.
+ */
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error("Failed to encode the image.")),
+            type,
+            quality,
+        );
+    });
+}
+
+/**
+ * Redraws an image on a canvas: cropped and scaled by the export options, with the watermark
+ * in its corner when one is set. Without options, JPEG stays JPEG and every other format
+ * becomes PNG, so it can carry metadata.
+ */
+async function renderForDownload(image: Blob, watermark: WatermarkSettings | null, options?: ExportOptions): Promise<Blob> {
+    const objectUrl = URL.createObjectURL(image);
+    try {
+        const img = await loadImage(objectUrl);
+        const crop = options?.crop ?? { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight };
+        const size = options?.size ?? { width: Math.round(crop.width), height: Math.round(crop.height) };
+        const type = options?.format ?? (image.type === 'image/jpeg' ? 'image/jpeg' : 'image/png');
+
+        const canvas = document.createElement('canvas');
+        canvas.width = size.width;
+        canvas.height = size.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error("Could not get 2D canvas context");
+        }
+        if (type === 'image/jpeg') {
+            // JPEG has no transparency, which would otherwise turn black.
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+
+        if (watermark) {
+            // Scales with the image so the mark reads the same on a thumbnail and a full-size download.
+            const fontSize = Math.max(14, Math.round(Math.min(canvas.width, canvas.height) * 0.04));
+            const margin = fontSize;
+            const [vertical, horizontal] = watermark.position.split('-');
+            ctx.font = `${fontSize}px "Permanent Marker", sans-serif`;
+            ctx.textAlign = horizontal === 'left' ? 'left' : 'right';
+            ctx.textBaseline = vertical === 'top' ? 'top' : 'bottom';
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+            ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+            ctx.shadowBlur = fontSize / 4;
+            ctx.fillText(
+                watermark.text,
+                horizontal === 'left' ? margin : canvas.width - margin,
+                vertical === 'top' ? margin : canvas.height - margin,
+            );
+        }
+
+        return canvasToBlob(canvas, type, options?.quality ?? JPEG_QUALITY);
+    } finally {
+        URL.revokeObjectURL(objectUrl);
+    }
+}
+
+function clickDownloadLink(href: string, filename: string): void {
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+}
+
+// --- Public API ---
+
+/** What produced an image, for its provenance metadata. */
+export interface ImageOrigin {
+    /** The prompt the image was generated from. */
+    prompt: string;
+    /** The image model that generated it. Images saved before models were recorded fall back to the active one. */
+    model?: string;
+}
+
+/**
+ * Prepares an image for download: applies the export options, draws the watermark if one is enabled,
+ * and embeds its provenance (prompt, model, time and an AI-generated flag) as metadata.
+ * @param url The image URL or data URL.
+ * @param origin The prompt and model that generated the image.
+ * @param options The format, quality, crop and size chosen in the export dialog.
+ * @returns A PNG, JPEG or WebP blob.
+ */
+export async function prepareImageForDownload(url: string, origin: ImageOrigin, options?: ExportOptions): Promise<Blob> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to fetch image (${response.status}): ${url.substring(0, 50)}...`);
+    }
+    let image = await response.blob();
+
+    const watermark = activeWatermark.enabled && activeWatermark.text.trim() ? activeWatermark : null;
+    if (watermark || options || (image.type !== 'image/png' && image.type !== 'image/jpeg')) {
+        image = await renderForDownload(image, watermark, options);
+    }
+
+    return embedProvenance(image, {
+        prompt: origin.prompt,
+        model: origin.model ?? getImageProvider().model,
+        createdAt: new Date().toISOString(),
+        aiGenerated: true,
+    });
+}
+
+/**
+ * Prepares an image for the share sheet the same way as a download, with the watermark and provenance metadata.
+ * @param url The image URL or data URL.
+ * @param origin The prompt and model that generated the image.
+ * @param baseName The file name without an extension; the extension follows the image's format.
+ * @returns A file ready for `navigator.share`.
+ */
+export async function prepareImageForSharing(url: string, origin: ImageOrigin, baseName: string): Promise<File> {
+    const image = await prepareImageForDownload(url, origin);
+    return new File([image], `${baseName}.${getFileExtension(image.type)}`, { type: image.type });
+}
+
+/**
+ * Downloads a generated image in the chosen export format, with its provenance metadata and the watermark.
+ * Falls back to the original image if it can't be prepared, e.g. when its host blocks cross-origin reads.
+ * @param url The image URL or data URL.
+ * @param origin The prompt and model that generated the image.
+ * @param baseName The file name without an extension; the extension follows the image's format.
+ * @param options The format, quality, crop and size chosen in the export dialog.
+ */
+export async function downloadImage(url: string, origin: ImageOrigin, baseName: string, options?: ExportOptions): Promise<void> {
+    let image: Blob;
+    try {
+        image = await prepareImageForDownload(url, origin, options);
+    } catch (error) {
+        // The user still gets the image, just without the export options, metadata and watermark.
+        console.error("Failed to prepare the download, saving the original image instead", error);
+        clickDownloadLink(url, `${baseName}.${getFileExtension(parseImageDataUrl(url)?.mimeType ?? 'image/jpeg')}`);
+        return;
+    }
+    const objectUrl = URL.createObjectURL(image);
+    clickDownloadLink(objectUrl, `${baseName}.${getFileExtension(image.type)}`);
+    // Revoked on the next tick, after the browser has started the download.
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+}
@@ -4,65 +4,221 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 // FIX: Added Modality to imports for use in image generation config.
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
+import { ApiError, GoogleGenAI, Modality } from "@google/genai";
+import type { GenerateContentResponse, Part } from "@google/genai";
+import { GeminiError, GeminiErrorType, cancellableDelay, throwIfCancelled } from './imageProvider';
+import type { ImageGenerationProvider, ImageGenerationRequest, ImagePart, TextGenerationRequest } from './imageProvider';
+import { createMockImageProvider } from './mockImageProvider';
+import { assertWithinDailyQuota, recordUsage } from './usageLedger';
+import * as api from './apiService';
+import { parseImageDataUrl } from '../lib/imageUtils';
+import { compositeWithMask } from '../lib/maskUtils';
+import { createCacheKey, getCachedImage, putCachedImage } from '../lib/generationCache';
+import { validateGroupPhotos, type GroupPhoto } from '../lib/groupPhotos';
+import type { PromptRewrite } from '../lib/safetyRewrites';
+import { PromptScreenedError, screenPrompt, type ScreeningResult } from '../lib/promptScreening';
+import type { SafetyRule } from './types';
 
-// The API key is provided by the execution environment.
-const API_KEY = process.env.API_KEY;
+// Re-exported so pages can keep importing the error types from this service.
+export { GeminiError, GeminiErrorType };
 
-let ai: GoogleGenAI | null = null;
-let initError: Error | null = null;
+const GROUP_INSTRUCTIONS = "Each photo above shows a different person, named in the text before it. Put all of them together in one scene, keeping each person's face recognizable.";
 
-// Initialize the SDK.
-try {
-    if (!API_KEY) {
-        throw new Error("API_KEY is not defined in process.env.");
+const MASK_INSTRUCTIONS = "The second image is a mask. Only change the area that is white in the mask and keep everything in the black area exactly as it is in the first image.";
+
+const STYLE_INSTRUCTIONS = "The image labeled as the style reference only shows the look to aim for. Copy its style, colors, lighting and mood, but not its people or content.";
+
+// Prompt helpers only need a fast text model.
+const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+
+const env = (typeof import.meta !== 'undefined' && import.meta.env) ? import.meta.env : {};
+
+
+// --- Gemini Provider ---
+
+/**
+ * The live provider, backed by the Gemini image model through the @google/genai SDK.
+ */
+export class GeminiImageProvider implements ImageGenerationProvider {
+    readonly name = 'gemini';
+    private ai: GoogleGenAI | null = null;
+    private initError: Error | null = null;
+
+    constructor(apiKey: string | undefined, readonly model: string = 'gemini-2.5-flash-image-preview', readonly textModel: string = DEFAULT_TEXT_MODEL) {
+        // Initialize the SDK.
+        try {
+            if (!apiKey) {
+                throw new Error("VITE_GEMINI_API_KEY is not defined.");
+            }
+            this.ai = new GoogleGenAI({ apiKey });
+        } catch (error) {
+            console.error("Failed to initialize GoogleGenAI:", error);
+            this.initError = error as Error;
+        }
+    }
+
+    async generateImage({ image, prompt, mask, group, styleReference, signal }: ImageGenerationRequest): Promise<string> {
+        // The primary check for the API key being configured.
+        if (!this.ai) {
+            // Log the original initialization error for debugging, but throw a generic, user-friendly error.
+            console.error("Gemini AI client not initialized.", this.initError);
+            throw new GeminiError("Image generation service is currently unavailable. Please try again later.", GeminiErrorType.SERVER_ERROR);
+        }
+
+        // The model has no dedicated mask, group or style inputs, so extra images go in as parts with instructions.
+        const parts: Part[] = group
+            ? group.flatMap(({ label, image: photo }, index) => [{ text: `Photo ${index + 1}: ${label}` }, { inlineData: photo }])
+            : [{ inlineData: image }];
+        const instructions: string[] = [];
+        if (group) {
+            instructions.push(GROUP_INSTRUCTIONS);
+        } else if (mask) {
+            parts.push({ inlineData: mask });
+            instructions.push(MASK_INSTRUCTIONS);
+        }
+        if (styleReference) {
+            parts.push({ text: 'Style reference:' }, { inlineData: styleReference });
+            instructions.push(STYLE_INSTRUCTIONS);
+        }
+        parts.push({ text: [...instructions, prompt].join('\n\n') });
+
+        let response: GenerateContentResponse;
+        try {
+            // FIX: Added required 'config' with 'responseModalities' for the image editing model per guidelines.
+            response = await this.ai.models.generateContent({
+                model: this.model,
+                contents: { parts },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                },
+            });
+        } catch (error) {
+            throwIfCancelled(signal);
+            throw error;
+        }
+        return processGeminiResponse(response);
+    }
+
+    async generateText({ instructions, prompt, image, signal }: TextGenerationRequest): Promise<string> {
+        if (!this.ai) {
+            console.error("Gemini AI client not initialized.", this.initError);
+            throw new GeminiError("The prompt helper is currently unavailable. Please try again later.", GeminiErrorType.SERVER_ERROR);
+        }
+
+        let response: GenerateContentResponse;
+        try {
+            response = await this.ai.models.generateContent({
+                model: this.textModel,
+                contents: { parts: image ? [{ inlineData: image }, { text: prompt }] : [{ text: prompt }] },
+                config: {
+                    systemInstruction: instructions,
+                    abortSignal: signal,
+                },
+            });
+        } catch (error) {
+            throwIfCancelled(signal);
+            throw error;
+        }
+        return processGeminiTextResponse(response);
     }
-    ai = new GoogleGenAI({ apiKey: API_KEY });
-} catch (error) {
-    console.error("Failed to initialize GoogleGenAI:", error);
-    initError = error as Error;
 }
 
 
-// --- Custom Error Types ---
+// --- Backend Provider ---
+
+/**
+ * The default provider. It posts each request to the backend's `/generate` route,
+ * which holds the API key and calls Gemini on our behalf.
+ */
+export class BackendImageProvider implements ImageGenerationProvider {
+    readonly name = 'backend';
+
+    constructor(readonly model: string = 'gemini-2.5-flash-image-preview', readonly textModel: string = DEFAULT_TEXT_MODEL) {}
+
+    generateImage(request: ImageGenerationRequest): Promise<string> {
+        return api.generateImage(request, this.model);
+    }
 
-export enum GeminiErrorType {
-    BLOCKED,
-    RATE_LIMIT,
-    SERVER_ERROR,
-    UNKNOWN,
+    generateText(request: TextGenerationRequest): Promise<string> {
+        return api.generateText(request, this.textModel);
+    }
 }
 
-export class GeminiError extends Error {
-    constructor(message: string, public type: GeminiErrorType) {
-        super(message);
-        this.name = 'GeminiError';
+
+// --- Provider Selection ---
+
+/**
+ * Picks the provider from the `VITE_IMAGE_PROVIDER` environment variable.
+ * Set it to 'mock' to develop and demo the app fully offline, or to 'gemini'
+ * to call Google directly with `VITE_GEMINI_API_KEY`. The direct mode ships the
+ * key inside the bundle, so it must only be used for local development.
+ */
+function createDefaultProvider(): ImageGenerationProvider {
+    if (env.VITE_IMAGE_PROVIDER === 'mock') {
+        console.info("Using the offline mock image provider.");
+        return createMockImageProvider();
+    }
+    if (env.VITE_IMAGE_PROVIDER === 'gemini') {
+        console.warn("Calling Gemini directly from the browser. Do not use this mode in production.");
+        return new GeminiImageProvider(env.VITE_GEMINI_API_KEY);
     }
+    return new BackendImageProvider();
 }
 
+let activeProvider: ImageGenerationProvider = createDefaultProvider();
 
-// --- Helper Functions ---
+/**
+ * Returns the provider that all generation calls currently go through.
+ */
+export function getImageProvider(): ImageGenerationProvider {
+    return activeProvider;
+}
 
 /**
- * Creates a fallback prompt to use when the primary one is blocked.
- * @param decade The decade string (e.g., "1950s").
- * @returns The fallback prompt string.
+ * Replaces the provider that all generation calls go through.
+ * @param provider The provider to use from now on.
  */
-function getFallbackPrompt(decade: string): string {
-    return `Create a photograph of the person in this image as if they were living in the ${decade}. The photograph should capture the distinct fashion, hairstyles, and overall atmosphere of that time period. Ensure the final image is a clear photograph that looks authentic to the era.`;
+export function setImageProvider(provider: ImageGenerationProvider): void {
+    activeProvider = provider;
 }
 
+
+// --- Prompt Screening ---
+
+let activeSafetyRules: SafetyRule[] = [];
+
 /**
- * Extracts the decade (e.g., "1950s") from a prompt string.
- * @param prompt The original prompt.
- * @returns The decade string or null if not found.
+ * Replaces the admin-managed rules that prompts are screened against before they are sent.
+ * @param rules The rules from the backend. Empty turns screening off.
  */
-function extractDecade(prompt: string): string | null {
-    const match = prompt.match(/(\d{4}s)/);
-    return match ? match[1] : null;
+export function setSafetyRules(rules: SafetyRule[]): void {
+    activeSafetyRules = rules;
 }
 
+/**
+ * Checks a prompt against the active safety rules without sending anything.
+ * @returns The broken rule with a suggested rewrite, or null when the prompt is clean.
+ */
+export function screenGenerationPrompt(prompt: string): ScreeningResult | null {
+    return screenPrompt(prompt, activeSafetyRules);
+}
+
+/**
+ * Stops a prompt that breaks a safety rule before it costs a model call or any fallback attempts.
+ * @throws {PromptScreenedError} If the prompt breaks a rule.
+ */
+function assertPromptPassesScreening(prompt: string): void {
+    const screening = screenGenerationPrompt(prompt);
+    if (screening) {
+        console.warn(`Prompt stopped before sending: ${screening.rule.reason}`, screening.matches);
+        throw new PromptScreenedError(screening);
+    }
+}
+
+
+// --- Helper Functions ---
+
 /**
  * Processes the Gemini API response, extracting the image or throwing a typed error if issues are found.
  * @param response The response from the generateContent call.
@@ -88,143 +244,474 @@ function processGeminiResponse(response: GenerateContentResponse): string {
     throw new GeminiError("The AI model responded with text instead of an image, which may indicate a content policy issue.", GeminiErrorType.BLOCKED);
 }
 
+/**
+ * Extracts the reply of a text call, or throws a typed error if it was blocked or empty.
+ * @param response The response from the generateContent call.
+ * @returns The trimmed text of the reply.
+ */
+function processGeminiTextResponse(response: GenerateContentResponse): string {
+    if (response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason === 'SAFETY') {
+        console.warn("Text request was blocked for safety reasons.");
+        throw new GeminiError("The prompt or image was blocked due to safety policies.", GeminiErrorType.BLOCKED);
+    }
+    const text = response.text?.trim();
+    if (!text) {
+        throw new GeminiError("The AI model returned an empty reply.", GeminiErrorType.UNKNOWN);
+    }
+    return text;
+}
+
+
+// --- Error Classification ---
+
+// Errors worth another attempt; everything else is reported straight away.
+const RETRIABLE_ERRORS = new Set([
+    GeminiErrorType.SERVER_ERROR,
+    GeminiErrorType.MODEL_UNAVAILABLE,
+    GeminiErrorType.NETWORK,
+    GeminiErrorType.TIMEOUT,
+    GeminiErrorType.RATE_LIMIT,
+]);
+
+// A rate limit is only retried in place when the server asks for a short wait;
+// longer waits are surfaced to the user as a countdown instead.
+const MAX_IN_PLACE_RETRY_AFTER_MS = 15000;
+
+// Image generation normally takes 10-30 seconds; anything past this is treated as hung.
+const ATTEMPT_TIMEOUT_MS = 90000;
+
+interface RpcErrorBody {
+    error?: {
+        code?: number;
+        message?: string;
+        status?: string;
+        details?: { '@type'?: string; retryDelay?: string; violations?: { quotaId?: string }[] }[];
+    };
+}
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors.
- * @param imagePart The image part of the request payload.
- * @param textPart The text part of the request payload.
- * @returns The GenerateContentResponse from the API.
+ * The SDK's ApiError carries the HTTP status and a message holding the JSON error body.
  */
-async function callGeminiWithRetry(imagePart: object, textPart: object): Promise<GenerateContentResponse> {
-    // The primary check for the API key being configured.
-    if (!ai) {
-        // Log the original initialization error for debugging, but throw a generic, user-friendly error.
-        console.error("Gemini AI client not initialized.", initError);
-        throw new GeminiError("Image generation service is currently unavailable. Please try again later.", GeminiErrorType.SERVER_ERROR);
+function parseRpcErrorBody(message: string): RpcErrorBody['error'] {
+    const jsonStart = message.indexOf('{');
+    if (jsonStart === -1) return undefined;
+    try {
+        return (JSON.parse(message.substring(jsonStart)) as RpcErrorBody).error;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Parses a protobuf Duration string such as "30s" or "1.5s" into milliseconds.
+ */
+function parseRetryDelay(retryDelay?: string): number | undefined {
+    const match = retryDelay?.match(/^(\d+(?:\.\d+)?)s$/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Classifies an SDK ApiError from its HTTP status, RPC status and error details.
+ */
+function classifyApiError(error: ApiError): GeminiError {
+    const body = parseRpcErrorBody(error.message);
+    const rpcStatus = body?.status;
+    const details = body?.details ?? [];
+    const retryInfo = details.find(detail => detail['@type']?.endsWith('google.rpc.RetryInfo'));
+    const retryAfterMs = parseRetryDelay(retryInfo?.retryDelay);
+
+    if (error.status === 429 || rpcStatus === 'RESOURCE_EXHAUSTED') {
+        const quotaFailure = details.find(detail => detail['@type']?.endsWith('google.rpc.QuotaFailure'));
+        const isDailyQuota = quotaFailure?.violations?.some(violation => /PerDay/i.test(violation.quotaId ?? ''));
+        if (isDailyQuota) {
+            return new GeminiError("The daily generation quota has been used up.", GeminiErrorType.QUOTA_EXHAUSTED, retryAfterMs);
+        }
+        return new GeminiError("You are making too many requests. Please wait and try again later.", GeminiErrorType.RATE_LIMIT, retryAfterMs);
+    }
+    if (error.status === 400 || error.status === 413 || rpcStatus === 'INVALID_ARGUMENT' || rpcStatus === 'FAILED_PRECONDITION') {
+        return new GeminiError(`The request was rejected: ${body?.message ?? error.message}`, GeminiErrorType.INVALID_INPUT);
     }
-    
+    if (error.status === 404 || error.status === 503 || rpcStatus === 'NOT_FOUND' || rpcStatus === 'UNAVAILABLE') {
+        return new GeminiError("The AI model is currently unavailable.", GeminiErrorType.MODEL_UNAVAILABLE, retryAfterMs);
+    }
+    if (error.status === 504 || rpcStatus === 'DEADLINE_EXCEEDED') {
+        return new GeminiError("The AI model took too long to respond.", GeminiErrorType.TIMEOUT);
+    }
+    if (error.status >= 500) {
+        return new GeminiError("The AI model service is currently unavailable. Please try again later.", GeminiErrorType.SERVER_ERROR, retryAfterMs);
+    }
+    return new GeminiError(`An unknown API error occurred: ${body?.message ?? error.message}`, GeminiErrorType.UNKNOWN);
+}
+
+/**
+ * Turns anything a provider threw into a typed GeminiError.
+ */
+function classifyError(error: unknown): GeminiError {
+    // Providers classify the errors they understand themselves.
+    if (error instanceof GeminiError) {
+        return error;
+    }
+    if (error instanceof ApiError) {
+        return classifyApiError(error);
+    }
+    // fetch() rejects with a TypeError when the network is down or the host is unreachable.
+    if (error instanceof TypeError) {
+        return new GeminiError(`Could not reach the image generation service: ${error.message}`, GeminiErrorType.NETWORK);
+    }
+    const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+    return new GeminiError(`An unknown API error occurred: ${errorMessage}`, GeminiErrorType.UNKNOWN);
+}
+
+
+/**
+ * A wrapper for a provider call that classifies failures and retries the transient ones.
+ * Server-provided Retry-After hints take precedence over the exponential backoff.
+ * Each call is metered once, with any further attempts counted as retries, and image calls
+ * are refused before the first attempt once the daily quota is used up.
+ * @param kind Whether the call generates an image or text, for metering.
+ * @param call Makes one attempt with the given provider and per-attempt signal.
+ * @param signal Aborts the call, including any retry backoff in progress.
+ * @returns The result of the first successful attempt.
+ * @throws {GeminiError} A DAILY_LIMIT error when an image call would exceed the daily quota.
+ */
+async function callWithRetry<T>(kind: 'image' | 'text', call: (provider: ImageGenerationProvider, attemptSignal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const provider = activeProvider;
     const maxRetries = 3;
     const initialDelay = 1000;
 
+    // The quota counts calls, not attempts: once a call is under way, its retries can't be refused.
+    throwIfCancelled(signal);
+    if (kind === 'image') {
+        assertWithinDailyQuota();
+    }
+    recordUsage(kind === 'image' ? 'imageCalls' : 'textCalls');
+
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        throwIfCancelled(signal);
+        if (attempt > 1) {
+            recordUsage('retries');
+        }
+
+        // Each attempt gets its own signal so a hung request can time out without cancelling the whole call.
+        const attemptController = new AbortController();
+        const abortAttempt = () => attemptController.abort();
+        signal?.addEventListener('abort', abortAttempt, { once: true });
+        let timedOut = false;
+        const timeout = setTimeout(() => {
+            timedOut = true;
+            attemptController.abort();
+        }, ATTEMPT_TIMEOUT_MS);
+
         try {
-            // FIX: Added required 'config' with 'responseModalities' for the image editing model per guidelines.
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: { parts: [imagePart, textPart] },
-                config: {
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
+            return await call(provider, attemptController.signal);
         } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
+            // Cancellation is not a failure worth logging or retrying.
+            throwIfCancelled(signal);
+            const classified = timedOut
+                ? new GeminiError(`The request timed out after ${ATTEMPT_TIMEOUT_MS}ms.`, GeminiErrorType.TIMEOUT)
+                : classifyError(error);
+            console.error(`Error calling ${provider.name} provider (Attempt ${attempt}/${maxRetries}): ${GeminiErrorType[classified.type]}`, error);
 
-            // Check for rate limiting
-            if (errorMessage.includes('429')) {
-                throw new GeminiError("You are making too many requests. Please wait and try again later.", GeminiErrorType.RATE_LIMIT);
-            }
-
-            // Check for retriable internal server errors (500, 503, etc.)
-            const isInternalError = errorMessage.includes('500') || errorMessage.includes('INTERNAL') || errorMessage.includes('503');
+            const canRetryInPlace = classified.type !== GeminiErrorType.RATE_LIMIT
+                || (classified.retryAfterMs !== undefined && classified.retryAfterMs <= MAX_IN_PLACE_RETRY_AFTER_MS);
 
-            if (isInternalError && attempt < maxRetries) {
-                const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Internal error detected. Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
+            if (RETRIABLE_ERRORS.has(classified.type) && canRetryInPlace && attempt < maxRetries) {
+                const delay = classified.retryAfterMs ?? initialDelay * Math.pow(2, attempt - 1);
+                console.log(`Transient error detected. Retrying in ${delay}ms...`);
+                await cancellableDelay(delay, signal);
                 continue;
             }
-            
-            if (isInternalError) {
-                 throw new GeminiError("The AI model service is currently unavailable. Please try again later.", GeminiErrorType.SERVER_ERROR);
-            }
-            
-            throw new GeminiError(`An unknown API error occurred: ${errorMessage}`, GeminiErrorType.UNKNOWN);
+
+            throw classified;
+        } finally {
+            clearTimeout(timeout);
+            signal?.removeEventListener('abort', abortAttempt);
         }
     }
     throw new GeminiError("Gemini API call failed after all retries.", GeminiErrorType.SERVER_ERROR);
 }
 
+/**
+ * Generates one image through the active provider, with retries.
+ * @param request The image, prompt and optional extras of the request payload.
+ * @param signal Aborts the call, including any retry backoff in progress.
+ * @returns A data URL string for the generated image.
+ */
+function callGeminiWithRetry(request: Omit<ImageGenerationRequest, 'signal'>, signal?: AbortSignal): Promise<string> {
+    return callWithRetry('image', (provider, attemptSignal) => provider.generateImage({ ...request, signal: attemptSignal }), signal);
+}
+
+/** Lists everything about a request that affects its result, for the cache key. */
+function describeRequestForCache(provider: ImageGenerationProvider, request: Omit<ImageGenerationRequest, 'signal'>, variant: number): string[] {
+    const imageData = (part?: ImagePart) => (part ? `${part.mimeType};${part.data}` : '');
+    return [
+        provider.name,
+        provider.model,
+        String(variant),
+        request.prompt,
+        imageData(request.image),
+        imageData(request.mask),
+        imageData(request.styleReference),
+        ...(request.group ?? []).flatMap(member => [member.label, imageData(member.image)]),
+    ];
+}
+
+/** A generated image, and whether it was the cached result of an identical earlier request. */
+type AttemptResult = Pick<GenerationResult, 'url' | 'cached'>;
 
 /**
- * Generates an image from a source image and a custom user prompt.
+ * Generates one image, reusing the cached result of an identical earlier request when there is one.
+ * @param request The image, prompt and optional extras of the request payload.
+ * @param options The abort signal and the cache settings of the generation.
+ * @returns A data URL string for the generated image, and whether it came from the cache.
+ */
+async function callGeminiWithCache(request: Omit<ImageGenerationRequest, 'signal'>, options: Pick<GenerationOptions, 'signal' | 'forceNew' | 'variant'>): Promise<AttemptResult> {
+    const { signal, forceNew = false, variant = 0 } = options;
+    const key = await createCacheKey(describeRequestForCache(getImageProvider(), request, variant));
+    if (key && !forceNew) {
+        const cached = await getCachedImage(key);
+        throwIfCancelled(signal);
+        if (cached) {
+            console.log("Using a cached result for this request.");
+            recordUsage('cacheHits');
+            return { url: cached, cached: true };
+        }
+    }
+    const url = await callGeminiWithRetry(request, signal);
+    // Forced requests still refresh the cache, so the next identical request returns the newest image.
+    if (key) void putCachedImage(key, url);
+    return { url, cached: false };
+}
+
+/**
+ * Converts a data URL into the image part sent to the provider.
  * @param imageDataUrl A data URL string of the source image.
- * @param prompt The custom prompt to guide the image generation.
- * @returns A promise that resolves to a base64-encoded image data URL.
+ * @returns The image part.
  */
-export async function generateImageFromPrompt(imageDataUrl: string, prompt: string): Promise<string> {
-    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-    if (!match) {
+function toImagePart(imageDataUrl: string): ImagePart {
+    const image = parseImageDataUrl(imageDataUrl);
+    if (!image) {
         throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
     }
-    const [, mimeType, base64Data] = match;
+    return image;
+}
 
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
 
-    const textPart = { text: prompt };
+export interface GenerationOptions {
+    /** Cancels the generation. The returned promise rejects with a CANCELLED `GeminiError`. */
+    signal?: AbortSignal;
+    /**
+     * Rewrites to try, in order, if the prompt is blocked for safety. Each step
+     * softens the prompt left by the previous one. Empty by default.
+     */
+    safetyChain?: PromptRewrite[];
+    /**
+     * A black-and-white data URL the size of the source image. When given, only
+     * the white area is edited and every other pixel is copied from the source.
+     */
+    maskDataUrl?: string;
+    /** A data URL of an example image whose look, but not content, the result should copy. */
+    styleReferenceDataUrl?: string;
+    /**
+     * Skips the cached result of an identical earlier request and calls the model again.
+     * Set it for regenerate actions, where the user asked for a new take.
+     */
+    forceNew?: boolean;
+    /**
+     * Tells several results of the same request apart, so each keeps its own cache entry.
+     * Defaults to 0.
+     */
+    variant?: number;
+}
 
-    try {
-        console.log("Attempting generation with custom prompt...");
-        const response = await callGeminiWithRetry(imagePart, textPart);
-        return processGeminiResponse(response);
-    } catch (error) {
-        console.error("An unrecoverable error occurred during custom image generation.", error);
-        throw error; // Re-throw the original (potentially custom GeminiError) error
-    }
+export interface GenerationResult {
+    /** A data URL of the generated image. */
+    url: string;
+    /** The prompt that produced the image, after any safety rewrites. */
+    prompt: string;
+    /** The rewrite step that finally succeeded, if the original prompt was blocked. */
+    rewrite?: { id: string; label: string };
+    /** The image model that generated it, recorded in its download metadata. */
+    model: string;
+    /** True if the image is the cached result of an identical earlier request, rather than a new one. */
+    cached: boolean;
 }
 
+function isBlocked(error: unknown): boolean {
+    return error instanceof GeminiError && error.type === GeminiErrorType.BLOCKED;
+}
 
 /**
- * Generates a decade-styled image from a source image and a prompt.
- * It includes a fallback mechanism for prompts that might be blocked.
- * @param imageDataUrl A data URL string of the source image.
- * @param prompt The prompt to guide the image generation.
- * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ * Runs one generation, walking the safety chain if the prompt is blocked.
+ * Rewrites that break an admin-managed safety rule are skipped.
+ * @param prompt The original prompt.
+ * @param safetyChain The rewrites to try, in order, after a block.
+ * @param attempt Generates an image for one prompt and returns its data URL and whether it was cached.
  */
-export async function generateDecadeImage(imageDataUrl: string, prompt: string): Promise<string> {
-  const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-  if (!match) {
-    throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
-  }
-  const [, mimeType, base64Data] = match;
-
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
-
+async function runWithSafetyChain(prompt: string, safetyChain: PromptRewrite[], attempt: (prompt: string) => Promise<AttemptResult>): Promise<Omit<GenerationResult, 'model'>> {
     // --- First attempt with the original prompt ---
+    let lastError: unknown;
     try {
         console.log("Attempting generation with original prompt...");
-        const textPart = { text: prompt };
-        const response = await callGeminiWithRetry(imagePart, textPart);
-        return processGeminiResponse(response);
+        return { ...await attempt(prompt), prompt };
     } catch (error) {
-        // If it's a BLOCKED error, we try the fallback.
-        if (error instanceof GeminiError && error.type === GeminiErrorType.BLOCKED) {
-            console.warn("Original prompt was blocked. Trying a fallback prompt.");
-            const decade = extractDecade(prompt);
-            if (!decade) {
-                console.error("Could not extract decade from prompt, cannot use fallback.");
-                throw error; // Re-throw the original block error.
-            }
+        if (!isBlocked(error) || safetyChain.length === 0) {
+            console.error("An unrecoverable error occurred during image generation.", error);
+            throw error; // Re-throw the original (potentially custom GeminiError) error
+        }
+        lastError = error;
+    }
 
-            // --- Second attempt with the fallback prompt ---
-            try {
-                const fallbackPrompt = getFallbackPrompt(decade);
-                console.log(`Attempting generation with fallback prompt for ${decade}...`);
-                const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await callGeminiWithRetry(imagePart, fallbackTextPart);
-                return processGeminiResponse(fallbackResponse);
-            } catch (fallbackError) {
-                console.error("Fallback prompt also failed.", fallbackError);
-                throw fallbackError; // Throw the second error, as it's the most recent failure.
+    // --- Then each rewrite of the safety chain ---
+    let currentPrompt = prompt;
+    for (const step of safetyChain) {
+        const rewritten = step.rewrite(currentPrompt);
+        // Skip steps that don't change anything rather than sending the same prompt again.
+        if (rewritten === null || rewritten === currentPrompt) continue;
+        // Rewrites, including admin-authored replacements, must pass the same rules as the original.
+        const screening = screenGenerationPrompt(rewritten);
+        if (screening) {
+            console.warn(`The "${step.id}" rewrite was skipped: ${screening.rule.reason}`, screening.matches);
+            continue;
+        }
+        currentPrompt = rewritten;
+        recordUsage('fallbacks');
+
+        try {
+            console.warn(`Prompt was blocked. Retrying with the "${step.id}" rewrite...`);
+            const generated = await attempt(currentPrompt);
+            return { ...generated, prompt: currentPrompt, rewrite: { id: step.id, label: step.label } };
+        } catch (error) {
+            if (!isBlocked(error)) {
+                console.error(`The "${step.id}" rewrite failed with a non-block error.`, error);
+                throw error;
             }
-        } else {
-            // This is for other errors (rate limit, server error, etc.)
-            console.error("An unrecoverable, non-block error occurred during image generation.", error);
-            throw error;
+            lastError = error;
         }
     }
-}
\ No newline at end of file
+
+    console.error("Every safety rewrite was blocked as well.", lastError);
+    throw lastError; // The most recent block error.
+}
+
+/**
+ * Generates an image from a source image and a prompt.
+ * If the prompt is blocked and a safety chain is given, the chain's rewrites are tried in turn.
+ * Identical requests are answered from the local cache unless `options.forceNew` is set.
+ * @param imageDataUrl A data URL string of the source image.
+ * @param prompt The prompt to guide the image generation.
+ * @param options Optional settings such as an abort signal, a safety chain, an edit mask, a style reference and the cache settings.
+ * @returns A promise that resolves to the generated image and the prompt that produced it.
+ * @throws {PromptScreenedError} If the prompt breaks an admin-managed safety rule. Nothing is sent.
+ */
+export async function generateImageFromPrompt(imageDataUrl: string, prompt: string, options: GenerationOptions = {}): Promise<GenerationResult> {
+    assertPromptPassesScreening(prompt);
+    const image = toImagePart(imageDataUrl);
+    const { safetyChain = [], maskDataUrl, styleReferenceDataUrl } = options;
+    const mask = maskDataUrl ? toImagePart(maskDataUrl) : undefined;
+    const styleReference = styleReferenceDataUrl ? toImagePart(styleReferenceDataUrl) : undefined;
+
+    // Read before any call: the cache key and the calls use the provider that is active now.
+    const { model } = getImageProvider();
+
+    const result = await runWithSafetyChain(prompt, safetyChain, async (attemptPrompt) => {
+        const generated = await callGeminiWithCache({ image, prompt: attemptPrompt, mask, styleReference }, options);
+        // The model may still touch pixels outside the mask, so the result is composited back onto the source.
+        return maskDataUrl ? { ...generated, url: await compositeWithMask(imageDataUrl, generated.url, maskDataUrl) } : generated;
+    });
+    return { ...result, model };
+}
+
+/**
+ * Generates one image that puts the people from several photos into a single scene.
+ * The prompt can refer to each person by the label of their photo.
+ * Identical requests are answered from the local cache unless `options.forceNew` is set.
+ * @param photos Between two and four labeled photos.
+ * @param prompt The prompt to guide the image generation, e.g. "Alex and Sam in the 1970s".
+ * @param options Optional settings such as an abort signal, a safety chain, a style reference and the cache settings. Masks are not supported.
+ * @returns A promise that resolves to the generated image and the prompt that produced it.
+ * @throws {Error} If the group is too small, too large or has missing or duplicate labels.
+ * @throws {PromptScreenedError} If the prompt breaks an admin-managed safety rule. Nothing is sent.
+ */
+export async function generateGroupImage(photos: GroupPhoto[], prompt: string, options: Omit<GenerationOptions, 'maskDataUrl'> = {}): Promise<GenerationResult> {
+    const problem = validateGroupPhotos(photos);
+    if (problem) {
+        throw new Error(problem);
+    }
+    assertPromptPassesScreening(prompt);
+    const group = photos.map(photo => ({ label: photo.label.trim(), image: toImagePart(photo.dataUrl) }));
+    const { safetyChain = [], styleReferenceDataUrl } = options;
+    const styleReference = styleReferenceDataUrl ? toImagePart(styleReferenceDataUrl) : undefined;
+
+    const { model } = getImageProvider();
+
+    const result = await runWithSafetyChain(prompt, safetyChain, (attemptPrompt) =>
+        callGeminiWithCache({ image: group[0].image, group, prompt: attemptPrompt, styleReference }, options));
+    return { ...result, model };
+}
+
+
+// --- Prompt Helpers ---
+
+export interface PromptHelperOptions {
+    /** Cancels the request. The returned promise rejects with a CANCELLED `GeminiError`. */
+    signal?: AbortSignal;
+}
+
+const ENHANCE_INSTRUCTIONS = `You improve prompts for an app that restyles a user's photo of themselves.
+Rewrite the user's prompt into one detailed prompt of at most 80 words.
+Keep the user's idea and every detail they gave; add setting, clothing, lighting, composition and art style.
+Always refer to the subject as "the person in this photo" and keep their face recognizable.
+Keep it safe for all ages: no real people's names, no violence, gore, weapons or sexual content.
+Reply with the prompt only, without quotes, labels or explanations.`;
+
+const DESCRIBE_STYLE_INSTRUCTIONS = `You write reusable style prompts for an app that restyles a user's photo of themselves.
+Describe the look of the image so it can be applied to anyone's photo: art style, medium, colors, lighting, setting, clothing and mood.
+Do not describe who is in the image or name anyone. Start with "Reimagine the person in this photo as" and use at most 80 words.
+Keep it safe for all ages. Reply with the prompt only, without quotes, labels or explanations.`;
+
+/**
+ * Removes wrapping quotes or a "Prompt:" label that models sometimes add despite being told not to.
+ */
+function cleanHelperReply(text: string): string {
+    return text
+        .replace(/^\s*(?:prompt|style prompt)\s*:\s*/i, '')
+        .replace(/^["“'`]+|["”'`]+$/g, '')
+        .trim();
+}
+
+/**
+ * Expands a short prompt into a detailed, policy-safe one with a text model.
+ * @param prompt The user's prompt, e.g. "me as a pirate".
+ * @param options Optional settings such as an abort signal.
+ * @returns A promise that resolves to the enhanced prompt.
+ */
+export async function enhancePrompt(prompt: string, options: PromptHelperOptions = {}): Promise<string> {
+    const reply = await callWithRetry(
+        'text',
+        (provider, attemptSignal) => provider.generateText({ instructions: ENHANCE_INSTRUCTIONS, prompt, signal: attemptSignal }),
+        options.signal,
+    );
+    return cleanHelperReply(reply);
+}
+
+/**
+ * Describes the look of an image as a style prompt that can be reused on anyone's photo.
+ * @param imageDataUrl A data URL string of the example image.
+ * @param options Optional settings such as an abort signal.
+ * @returns A promise that resolves to the style prompt.
+ */
+export async function describeImageStyle(imageDataUrl: string, options: PromptHelperOptions = {}): Promise<string> {
+    const image = toImagePart(imageDataUrl);
+    const reply = await callWithRetry(
+        'text',
+        (provider, attemptSignal) => provider.generateText({
+            instructions: DESCRIBE_STYLE_INSTRUCTIONS,
+            prompt: "Write a style prompt for this image.",
+            image,
+            signal: attemptSignal,
+        }),
+        options.signal,
+    );
+    return cleanHelperReply(reply);
+}
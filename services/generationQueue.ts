@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeminiError, GeminiErrorType } from './imageProvider';
+
+// --- Type Definitions ---
+
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+/** 'high' jobs, such as a shake-to-regenerate, jump ahead of everything that is 'normal'. */
+export type GenerationJobPriority = 'high' | 'normal';
+
+export interface GenerationJob {
+    id: number;
+    label: string;
+    source: string;
+    priority: GenerationJobPriority;
+    status: GenerationJobStatus;
+    error?: string;
+    createdAt: number;
+}
+
+export interface EnqueueOptions {
+    /** A short description shown in the progress tray, e.g. "1970s". */
+    label: string;
+    /** The page that requested the job, e.g. "home". */
+    source: string;
+    priority?: GenerationJobPriority;
+    /** Cancels the job from the caller's side, e.g. when the page unmounts. */
+    signal?: AbortSignal;
+}
+
+type JobListener = (jobs: GenerationJob[]) => void;
+
+interface QueueEntry {
+    job: GenerationJob;
+    run: (signal: AbortSignal) => Promise<unknown>;
+    controller: AbortController;
+    resolve: (result: unknown) => void;
+    reject: (error: unknown) => void;
+}
+
+// --- Queue State ---
+
+const MAX_CONCURRENCY = 2;
+const BASE_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 60000;
+// After this many successes in a row, a throttled queue returns to full speed.
+const RECOVERY_SUCCESSES = 3;
+
+const pending: QueueEntry[] = [];
+const running = new Map<number, QueueEntry>();
+const jobs = new Map<number, GenerationJob>();
+const listeners = new Set<JobListener>();
+let nextJobId = 1;
+let runningCount = 0;
+
+// Rate-limit backoff: when RATE_LIMIT errors come back, the queue drops to one
+// job at a time and waits before starting the next one.
+let concurrency = MAX_CONCURRENCY;
+let cooldownMs = 0;
+let resumeAt = 0;
+let successStreak = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+// --- Helper Functions ---
+
+function notify() {
+    const snapshot = getGenerationJobs();
+    listeners.forEach(listener => listener(snapshot));
+}
+
+function updateJob(id: number, changes: Partial<GenerationJob>) {
+    const job = jobs.get(id);
+    if (!job) return;
+    jobs.set(id, { ...job, ...changes });
+    notify();
+}
+
+/**
+ * Finished jobs stay visible in the tray briefly so users can see the outcome.
+ */
+function scheduleRemoval(id: number) {
+    setTimeout(() => {
+        if (jobs.delete(id)) {
+            notify();
+        }
+    }, 3000);
+}
+
+function handleRateLimit(retryAfterMs?: number) {
+    successStreak = 0;
+    concurrency = 1;
+    cooldownMs = cooldownMs ? Math.min(cooldownMs * 2, MAX_COOLDOWN_MS) : BASE_COOLDOWN_MS;
+    // A server-provided hint wins over our own guess.
+    resumeAt = Date.now() + Math.max(cooldownMs, retryAfterMs ?? 0);
+    console.warn(`Rate limit hit. Slowing the generation queue down for ${cooldownMs}ms.`);
+}
+
+function handleSuccess() {
+    if (concurrency === MAX_CONCURRENCY) return;
+    successStreak++;
+    if (successStreak >= RECOVERY_SUCCESSES) {
+        console.log("Generation queue recovered from rate limiting.");
+        concurrency = MAX_CONCURRENCY;
+        cooldownMs = 0;
+        successStreak = 0;
+    }
+}
+
+function pump() {
+    const now = Date.now();
+    if (resumeAt > now) {
+        if (!wakeTimer) {
+            wakeTimer = setTimeout(() => {
+                wakeTimer = null;
+                pump();
+            }, resumeAt - now);
+        }
+        return;
+    }
+
+    while (runningCount < concurrency && pending.length > 0) {
+        const entry = pending.shift()!;
+        runningCount++;
+        running.set(entry.job.id, entry);
+        updateJob(entry.job.id, { status: 'running' });
+
+        entry.run(entry.controller.signal)
+            .then(result => {
+                handleSuccess();
+                updateJob(entry.job.id, { status: 'done' });
+                entry.resolve(result);
+            })
+            .catch(error => {
+                if (error instanceof GeminiError && (error.type === GeminiErrorType.RATE_LIMIT || error.type === GeminiErrorType.QUOTA_EXHAUSTED)) {
+                    handleRateLimit(error.retryAfterMs);
+                }
+                if (error instanceof GeminiError && error.type === GeminiErrorType.CANCELLED) {
+                    updateJob(entry.job.id, { status: 'cancelled' });
+                } else {
+                    const message = error instanceof Error ? error.message : String(error);
+                    updateJob(entry.job.id, { status: 'error', error: message });
+                }
+                entry.reject(error);
+            })
+            .finally(() => {
+                runningCount--;
+                running.delete(entry.job.id);
+                scheduleRemoval(entry.job.id);
+                pump();
+            });
+    }
+}
+
+// --- Public API ---
+
+/**
+ * Adds a generation to the app-wide queue. At most two jobs run at once across
+ * every page, and fewer while the model is rate limiting us.
+ * @param run The generation to perform once the job reaches the front of the queue.
+ *   It must honor the signal it is given so the job can be cancelled while running.
+ * @param options The label, source page, priority and optional abort signal of the job.
+ * @returns The job id and a promise that settles with the generation result.
+ */
+export function enqueueGeneration<T>(run: (signal: AbortSignal) => Promise<T>, options: EnqueueOptions): { id: number; promise: Promise<T> } {
+    const job: GenerationJob = {
+        id: nextJobId++,
+        label: options.label,
+        source: options.source,
+        priority: options.priority ?? 'normal',
+        status: 'queued',
+        createdAt: Date.now(),
+    };
+    jobs.set(job.id, job);
+
+    const controller = new AbortController();
+    const promise = new Promise<T>((resolve, reject) => {
+        const entry: QueueEntry = { job, run, controller, resolve: resolve as (result: unknown) => void, reject };
+        if (job.priority === 'high') {
+            // Insert after any high-priority jobs that are already waiting.
+            const firstNormal = pending.findIndex(e => e.job.priority === 'normal');
+            pending.splice(firstNormal === -1 ? pending.length : firstNormal, 0, entry);
+        } else {
+            pending.push(entry);
+        }
+    });
+
+    if (options.signal) {
+        if (options.signal.aborted) {
+            cancelGeneration(job.id);
+        } else {
+            const { signal } = options;
+            const handleAbort = () => cancelGeneration(job.id);
+            signal.addEventListener('abort', handleAbort, { once: true });
+            // A long-lived signal would otherwise keep every finished job's handler alive.
+            // Both callbacks handle the outcome, so this doesn't leave a rejection unhandled.
+            const removeListener = () => signal.removeEventListener('abort', handleAbort);
+            promise.then(removeListener, removeListener);
+        }
+    }
+
+    notify();
+    pump();
+    return { id: job.id, promise };
+}
+
+/**
+ * Cancels a job. A waiting job is dropped from the queue; a running job has its signal aborted.
+ * Either way its promise rejects with a CANCELLED `GeminiError`.
+ * @param id The job id returned by `enqueueGeneration`.
+ * @returns True if the job was still waiting or running.
+ */
+export function cancelGeneration(id: number): boolean {
+    const runningEntry = running.get(id);
+    if (runningEntry) {
+        runningEntry.controller.abort();
+        return true;
+    }
+
+    const index = pending.findIndex(entry => entry.job.id === id);
+    if (index === -1) return false;
+
+    const [entry] = pending.splice(index, 1);
+    entry.controller.abort();
+    updateJob(id, { status: 'cancelled' });
+    scheduleRemoval(id);
+    entry.reject(new GeminiError("The generation was cancelled.", GeminiErrorType.CANCELLED));
+    return true;
+}
+
+/**
+ * Returns a snapshot of every job that is queued, running, or recently finished.
+ */
+export function getGenerationJobs(): GenerationJob[] {
+    return Array.from(jobs.values());
+}
+
+/**
+ * Registers a listener that is called with a fresh snapshot whenever any job changes.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToGenerationJobs(listener: JobListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
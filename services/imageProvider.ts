@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Custom Error Types ---
+// Every provider reports failures through these types so the pages can map
+// them to friendly messages without knowing which backend produced them.
+
+export enum GeminiErrorType {
+    BLOCKED,
+    RATE_LIMIT,
+    SERVER_ERROR,
+    UNKNOWN,
+    CANCELLED,
+    /** The project's quota is used up; retrying soon will not help. */
+    QUOTA_EXHAUSTED,
+    /** The request itself was rejected, e.g. a corrupt or oversized image. */
+    INVALID_INPUT,
+    NETWORK,
+    TIMEOUT,
+    /** The model is overloaded or no longer served. */
+    MODEL_UNAVAILABLE,
+    /** This user or session has used up its own daily generation quota. */
+    DAILY_LIMIT,
+}
+
+export class GeminiError extends Error {
+    /**
+     * @param message A developer-facing description of the failure.
+     * @param type The classified failure type.
+     * @param retryAfterMs How long the service asked us to wait before trying again, if it said.
+     */
+    constructor(message: string, public type: GeminiErrorType, public retryAfterMs?: number) {
+        super(message);
+        this.name = 'GeminiError';
+    }
+}
+
+
+// --- Provider Contract ---
+
+/** A base64-encoded image, as sent to and returned from a provider. */
+export interface ImagePart {
+    mimeType: string;
+    data: string;
+}
+
+/** One photo of a group request, with the name of the person in it. */
+export interface LabeledImagePart {
+    label: string;
+    image: ImagePart;
+}
+
+export interface ImageGenerationRequest {
+    image: ImagePart;
+    /**
+     * Every photo of a group generation, in order. When set, `image` is the
+     * first of them and the prompt may refer to people by their labels.
+     */
+    group?: LabeledImagePart[];
+    /** An example of the look to copy. Only its style is used, never its people or content. */
+    styleReference?: ImagePart;
+    prompt: string;
+    /**
+     * Restricts the edit to part of the image. White pixels mark the area to
+     * change, black pixels the area to keep. Same dimensions as `image`.
+     */
+    mask?: ImagePart;
+    /** Aborts the request. Providers reject with a CANCELLED `GeminiError` when it fires. */
+    signal?: AbortSignal;
+}
+
+export interface TextGenerationRequest {
+    /** How the model should behave, e.g. "Rewrite the user's prompt...". */
+    instructions: string;
+    /** The user's content: a prompt to work on, or a question about `image`. */
+    prompt: string;
+    image?: ImagePart;
+    /** Aborts the request. Providers reject with a CANCELLED `GeminiError` when it fires. */
+    signal?: AbortSignal;
+}
+
+/**
+ * A backend capable of turning a source image and a prompt into a new image.
+ * Implementations must throw a `GeminiError` for any failure they can classify;
+ * anything else is treated as an unknown error by the caller.
+ */
+export interface ImageGenerationProvider {
+    /** A short identifier, used in logs. */
+    readonly name: string;
+    /** The model identifier the provider generates with. */
+    readonly model: string;
+    /**
+     * Generates a single image.
+     * @returns A promise that resolves to a data URL of the generated image.
+     */
+    generateImage(request: ImageGenerationRequest): Promise<string>;
+    /**
+     * Generates text with a fast text model, for prompt helpers.
+     * @returns A promise that resolves to the model's reply, trimmed.
+     */
+    generateText(request: TextGenerationRequest): Promise<string>;
+}
+
+
+// --- Cancellation Helpers ---
+
+/**
+ * Throws a CANCELLED `GeminiError` if the signal has already been aborted.
+ * @param signal The optional abort signal of the request.
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new GeminiError("The generation was cancelled.", GeminiErrorType.CANCELLED);
+    }
+}
+
+/**
+ * Waits for the given time, rejecting early with a CANCELLED `GeminiError` if the signal fires.
+ * @param ms The delay in milliseconds.
+ * @param signal The optional abort signal of the request.
+ */
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new GeminiError("The generation was cancelled.", GeminiErrorType.CANCELLED));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new GeminiError("The generation was cancelled.", GeminiErrorType.CANCELLED));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeminiError, GeminiErrorType, cancellableDelay, throwIfCancelled } from './imageProvider';
+import type { ImageGenerationProvider, ImageGenerationRequest, TextGenerationRequest } from './imageProvider';
+import { loadImage } from '../lib/imageUtils';
+
+export interface MockImageProviderOptions {
+    /** Simulated network latency in milliseconds. */
+    latencyMs?: number;
+    /** When set, every request fails with this error type. */
+    failWith?: GeminiErrorType;
+    /** The longest edge of the generated image, in pixels. */
+    maxEdge?: number;
+}
+
+// Prompts can ask for a specific failure on demand, e.g. "A knight [mock:blocked]".
+const FAILURE_DIRECTIVE = /\[mock:(blocked|rate_limit|server_error|unknown|quota_exhausted|invalid_input|network|timeout|model_unavailable|daily_limit)\]/i;
+
+// Simulated rate limits ask the caller to back off, like the real API's RetryInfo.
+const SIMULATED_RETRY_AFTER_MS = 10000;
+
+const SIMULATED_ERROR_MESSAGES: Record<GeminiErrorType, string> = {
+    [GeminiErrorType.BLOCKED]: "The prompt or image was blocked due to safety policies. (simulated)",
+    [GeminiErrorType.RATE_LIMIT]: "You are making too many requests. Please wait and try again later. (simulated)",
+    [GeminiErrorType.SERVER_ERROR]: "The AI model service is currently unavailable. Please try again later. (simulated)",
+    [GeminiErrorType.UNKNOWN]: "An unknown API error occurred. (simulated)",
+    [GeminiErrorType.CANCELLED]: "The generation was cancelled. (simulated)",
+    [GeminiErrorType.QUOTA_EXHAUSTED]: "The daily generation quota has been used up. (simulated)",
+    [GeminiErrorType.INVALID_INPUT]: "The image could not be processed. (simulated)",
+    [GeminiErrorType.NETWORK]: "Could not reach the image generation service. (simulated)",
+    [GeminiErrorType.TIMEOUT]: "The image generation request timed out. (simulated)",
+    [GeminiErrorType.MODEL_UNAVAILABLE]: "The image model is temporarily unavailable. (simulated)",
+    [GeminiErrorType.DAILY_LIMIT]: "The daily generation quota of this session has been reached. (simulated)",
+};
+
+/**
+ * A 32-bit FNV-1a hash, used to derive a stable seed from the request.
+ */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * A small seeded PRNG (mulberry32) so the same request always draws the same image.
+ */
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function getRequestedFailure(prompt: string, fallback?: GeminiErrorType): GeminiErrorType | undefined {
+    const match = prompt.match(FAILURE_DIRECTIVE);
+    if (!match) return fallback;
+    return GeminiErrorType[match[1].toUpperCase() as keyof typeof GeminiErrorType];
+}
+
+/**
+ * Draws a stylized version of the source image: the prompt picks a duotone
+ * palette, a vignette and film grain are layered on top, and the prompt is
+ * written along the bottom edge so it is obvious the result is a stand-in.
+ */
+async function drawStylizedImage(request: ImageGenerationRequest, seed: number, maxEdge: number): Promise<string> {
+    const source = await loadImage(`data:${request.image.mimeType};base64,${request.image.data}`);
+    const scale = Math.min(1, maxEdge / Math.max(source.naturalWidth, source.naturalHeight));
+    const width = Math.max(1, Math.round(source.naturalWidth * scale));
+    const height = Math.max(1, Math.round(source.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new GeminiError('Could not get 2D canvas context', GeminiErrorType.UNKNOWN);
+    }
+
+    const random = createRandom(seed);
+    const hue = Math.floor(random() * 360);
+    const accentHue = (hue + 120 + Math.floor(random() * 120)) % 360;
+
+    // 1. The source photo, desaturated so the palette can take over. A group
+    // request shows every photo side by side, each cropped to its own slice.
+    ctx.filter = 'grayscale(1) contrast(1.15)';
+    if (request.group && request.group.length > 1) {
+        const photos = await Promise.all(request.group.map(({ image }) => loadImage(`data:${image.mimeType};base64,${image.data}`)));
+        const sliceWidth = width / photos.length;
+        photos.forEach((photo, index) => {
+            const cropWidth = Math.min(photo.naturalWidth, photo.naturalHeight * (sliceWidth / height));
+            const cropHeight = cropWidth * (height / sliceWidth);
+            ctx.drawImage(photo, (photo.naturalWidth - cropWidth) / 2, (photo.naturalHeight - cropHeight) / 2, cropWidth, cropHeight, index * sliceWidth, 0, sliceWidth, height);
+        });
+    } else {
+        ctx.drawImage(source, 0, 0, width, height);
+    }
+    ctx.filter = 'none';
+
+    // 2. Duotone wash derived from the prompt
+    const wash = ctx.createLinearGradient(0, 0, width, height);
+    wash.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+    wash.addColorStop(1, `hsl(${accentHue}, 70%, 55%)`);
+    ctx.globalCompositeOperation = 'color';
+    ctx.fillStyle = wash;
+    ctx.fillRect(0, 0, width, height);
+
+    // 3. Vignette
+    ctx.globalCompositeOperation = 'multiply';
+    const vignette = ctx.createRadialGradient(width / 2, height / 2, Math.min(width, height) * 0.3, width / 2, height / 2, Math.max(width, height) * 0.75);
+    vignette.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    vignette.addColorStop(1, 'rgba(40, 30, 20, 1)');
+    ctx.fillStyle = vignette;
+    ctx.fillRect(0, 0, width, height);
+
+    // 4. Film grain
+    ctx.globalCompositeOperation = 'source-over';
+    const grainCount = Math.floor((width * height) / 400);
+    for (let i = 0; i < grainCount; i++) {
+        const shade = random() > 0.5 ? 255 : 0;
+        ctx.fillStyle = `rgba(${shade}, ${shade}, ${shade}, ${0.05 + random() * 0.1})`;
+        ctx.fillRect(random() * width, random() * height, 1.5, 1.5);
+    }
+
+    // 5. Prompt caption
+    const fontSize = Math.max(12, Math.round(width / 28));
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, height - fontSize * 2, width, fontSize * 2);
+    ctx.fillStyle = '#fff';
+    ctx.font = `${fontSize}px 'Permanent Marker', cursive`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const caption = request.prompt.length > 60 ? `${request.prompt.substring(0, 57)}...` : request.prompt;
+    ctx.fillText(`MOCK: ${caption}`, width / 2, height - fontSize, width - fontSize);
+
+    return canvas.toDataURL('image/png');
+}
+
+const MOCK_STYLE_WORDS = ['dreamy', 'grainy', 'neon-lit', 'painterly', 'high-contrast', 'pastel', 'moody', 'sun-bleached'];
+
+/**
+ * Writes a plausible stand-in reply. Image requests get a style description;
+ * text requests get the prompt back with some detail appended.
+ */
+function writeMockText(request: TextGenerationRequest, seed: number): string {
+    const random = createRandom(seed);
+    const pick = () => MOCK_STYLE_WORDS[Math.floor(random() * MOCK_STYLE_WORDS.length)];
+    if (request.image) {
+        return `Reimagine the person in this photo as a ${pick()}, ${pick()} portrait with soft directional light, a shallow depth of field and a cohesive color palette. (mock)`;
+    }
+    return `${request.prompt.trim().replace(/[.!]+$/, '')}, rendered as a ${pick()} photograph with rich detail, flattering light and a clear focus on the person's face. (mock)`;
+}
+
+/**
+ * Creates an offline provider that draws a deterministic stand-in image on a canvas.
+ * It needs no API key, so pages can be developed and demoed without network access,
+ * and any error path can be triggered with `failWith` or a `[mock:<type>]` prompt directive.
+ */
+export function createMockImageProvider(options: MockImageProviderOptions = {}): ImageGenerationProvider {
+    const { latencyMs = 800, failWith, maxEdge = 1024 } = options;
+
+    return {
+        name: 'mock',
+        model: 'mock-canvas',
+        async generateImage(request: ImageGenerationRequest): Promise<string> {
+            // Sample the image payload rather than hashing megabytes of base64.
+            const seed = hashString(`${request.prompt}|${request.image.data.length}|${request.image.data.substring(0, 2048)}|${request.styleReference?.data.length ?? 0}`);
+            await cancellableDelay(latencyMs, request.signal);
+
+            const failure = getRequestedFailure(request.prompt, failWith);
+            if (failure !== undefined) {
+                const retryAfterMs = failure === GeminiErrorType.RATE_LIMIT ? SIMULATED_RETRY_AFTER_MS : undefined;
+                throw new GeminiError(SIMULATED_ERROR_MESSAGES[failure], failure, retryAfterMs);
+            }
+
+            const url = await drawStylizedImage(request, seed, maxEdge);
+            throwIfCancelled(request.signal);
+            return url;
+        },
+        async generateText(request: TextGenerationRequest): Promise<string> {
+            const seed = hashString(`${request.prompt}|${request.image?.data.length ?? 0}`);
+            await cancellableDelay(latencyMs, request.signal);
+
+            const failure = getRequestedFailure(request.prompt, failWith);
+            if (failure !== undefined) {
+                const retryAfterMs = failure === GeminiErrorType.RATE_LIMIT ? SIMULATED_RETRY_AFTER_MS : undefined;
+                throw new GeminiError(SIMULATED_ERROR_MESSAGES[failure], failure, retryAfterMs);
+            }
+            return writeMockText(request, seed);
+        },
+    };
+}
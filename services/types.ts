@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Settings that admins manage and the rest of the app reads. They live here rather than
+// with the Admin Panel so services and libraries don't depend on a page component.
+
+/** A themed set of images generated from one photo, e.g. decades, ages or seasons. */
+export interface SeriesPack {
+    id: number | string;
+    name: string;
+    description?: string;
+    /** One generated image per label, e.g. ['Spring', 'Summer', 'Autumn', 'Winter']. */
+    itemLabels: string[];
+    /** A prompt template where `{item}` is replaced by each label. */
+    promptTemplate: string;
+    /** Used instead of the main template when it is blocked for safety. Empty disables the fallback. */
+    fallbackPrompt: string;
+}
+
+/** A prompt screening rule. Prompts that match it are stopped before they are sent to the model. */
+export interface SafetyRule {
+    id: number | string;
+    /** 'terms' matches whole words or phrases; 'regex' matches JavaScript regular expressions. Both ignore case. */
+    kind: 'terms' | 'regex';
+    patterns: string[];
+    /** Shown to users whose prompt matches, e.g. "Prompts can't describe real weapons." */
+    reason: string;
+    /** Replaces each match in the rewrite suggested to the user. Empty removes the match. */
+    replacement: string;
+}
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/** A visible mark drawn into the corner of every downloaded image. */
+export interface WatermarkSettings {
+    enabled: boolean;
+    text: string;
+    position: WatermarkPosition;
+}
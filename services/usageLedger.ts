@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeminiError, GeminiErrorType } from './imageProvider';
+
+// --- Type Definitions ---
+
+/** One day of usage. A retried call counts once; its extra attempts are counted as retries. */
+export interface DailyUsage {
+    imageCalls: number;
+    textCalls: number;
+    /** Attempts after the first one of a call. */
+    retries: number;
+    /** Generations retried with a safety rewrite after the prompt was blocked. */
+    fallbacks: number;
+    /** Generations answered from the local cache without a model call. */
+    cacheHits: number;
+}
+
+export type UsageEvent = keyof DailyUsage;
+
+export interface UsageSnapshot {
+    /** The local date, as YYYY-MM-DD. */
+    date: string;
+    today: DailyUsage;
+    /** The most image calls allowed per day, or null when there is no limit. */
+    dailyQuota: number | null;
+    /** Image calls left today, or null when there is no limit. */
+    remaining: number | null;
+}
+
+/** The backend's view of today's usage across every session, from `GET /api/usage`. */
+export interface BackendUsageSummary {
+    date: string;
+    dailyQuota: number | null;
+    sessions: { sessionId: string; imageCalls: number; textCalls: number; limited: boolean }[];
+}
+
+interface StoredLedger {
+    days: Record<string, DailyUsage>;
+}
+
+type UsageListener = (snapshot: UsageSnapshot) => void;
+
+// --- Ledger State ---
+
+const STORAGE_KEY = 'trendsnap-usage';
+const SESSION_KEY = 'trendsnap-session-id';
+// Older days are dropped so the ledger stays small.
+const KEPT_DAYS = 30;
+const DEFAULT_DAILY_QUOTA = 50;
+
+const env = (typeof import.meta !== 'undefined' && import.meta.env) ? import.meta.env : {};
+
+/**
+ * Reads the daily quota from `VITE_DAILY_GENERATION_QUOTA`. Zero turns the limit off.
+ */
+function readDailyQuota(): number | null {
+    const value = Number(env.VITE_DAILY_GENERATION_QUOTA ?? DEFAULT_DAILY_QUOTA);
+    if (!Number.isFinite(value) || value < 0) return DEFAULT_DAILY_QUOTA;
+    return value === 0 ? null : Math.floor(value);
+}
+
+const dailyQuota = readDailyQuota();
+const listeners = new Set<UsageListener>();
+// Kept in memory too, so metering keeps working when storage is unavailable.
+let ledger: StoredLedger = loadLedger();
+let sessionId: string | null = null;
+
+// --- Helper Functions ---
+
+const emptyUsage = (): DailyUsage => ({ imageCalls: 0, textCalls: 0, retries: 0, fallbacks: 0, cacheHits: 0 });
+
+function toDateKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Milliseconds until the quota resets at local midnight. */
+function msUntilMidnight(): number {
+    const midnight = new Date();
+    midnight.setHours(24, 0, 0, 0);
+    return midnight.getTime() - Date.now();
+}
+
+function loadLedger(): StoredLedger {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) return JSON.parse(stored) as StoredLedger;
+    } catch (error) {
+        console.error("Failed to read the usage ledger from localStorage", error);
+    }
+    return { days: {} };
+}
+
+function saveLedger(): void {
+    const keep = Object.keys(ledger.days).sort().slice(-KEPT_DAYS);
+    ledger = { days: Object.fromEntries(keep.map(day => [day, ledger.days[day]])) };
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(ledger));
+    } catch (error) {
+        console.error("Failed to save the usage ledger to localStorage", error);
+    }
+}
+
+function getTodayUsage(): DailyUsage {
+    return { ...emptyUsage(), ...ledger.days[toDateKey(new Date())] };
+}
+
+function notify(): void {
+    const snapshot = getUsageSnapshot();
+    listeners.forEach(listener => listener(snapshot));
+}
+
+// --- Public API ---
+
+/**
+ * Returns a stable id for this browser, sent to the backend so it can meter and limit usage per session.
+ */
+export function getUsageSessionId(): string {
+    if (sessionId) return sessionId;
+    try {
+        sessionId = localStorage.getItem(SESSION_KEY);
+        if (!sessionId) {
+            sessionId = crypto.randomUUID();
+            localStorage.setItem(SESSION_KEY, sessionId);
+        }
+    } catch (error) {
+        console.error("Failed to persist the usage session id", error);
+        sessionId ??= crypto.randomUUID();
+    }
+    return sessionId;
+}
+
+/**
+ * Adds one event to today's usage.
+ */
+export function recordUsage(event: UsageEvent): void {
+    const today = getTodayUsage();
+    ledger.days[toDateKey(new Date())] = { ...today, [event]: today[event] + 1 };
+    saveLedger();
+    notify();
+}
+
+/**
+ * Rejects an image call when today's quota is used up.
+ * @throws {GeminiError} A DAILY_LIMIT error whose retry hint points at local midnight.
+ */
+export function assertWithinDailyQuota(): void {
+    if (dailyQuota === null || getTodayUsage().imageCalls < dailyQuota) return;
+    throw new GeminiError(`The daily quota of ${dailyQuota} image generations has been reached.`, GeminiErrorType.DAILY_LIMIT, msUntilMidnight());
+}
+
+/**
+ * Returns today's usage and how much of the quota is left.
+ */
+export function getUsageSnapshot(): UsageSnapshot {
+    const today = getTodayUsage();
+    return {
+        date: toDateKey(new Date()),
+        today,
+        dailyQuota,
+        remaining: dailyQuota === null ? null : Math.max(0, dailyQuota - today.imageCalls),
+    };
+}
+
+/**
+ * Lists the stored days, newest first, for the usage summary.
+ */
+export function getUsageHistory(): { date: string; usage: DailyUsage }[] {
+    return Object.keys(ledger.days)
+        .sort()
+        .reverse()
+        .map(date => ({ date, usage: { ...emptyUsage(), ...ledger.days[date] } }));
+}
+
+/**
+ * Registers a listener that is called with a fresh snapshot whenever usage changes.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToUsage(listener: UsageListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}